@@ -0,0 +1,116 @@
+import {
+  formatIpAddress,
+  IpNetwork,
+  ipNetworkContains,
+  parseIpAddress,
+} from "./_ip.ts";
+
+/** Determine the IP address of the client that made a request. */
+export type ClientAddressResolver = (
+  request: Request,
+  info: Deno.ServeHandlerInfo,
+) => string;
+
+/** Use the address of the connection's remote peer as the client address. */
+export const remoteAddressResolver: ClientAddressResolver = (_request, info) =>
+  info.remoteAddr.hostname;
+
+export const FORWARDED_HEADER = "forwarded";
+export const X_FORWARDED_FOR_HEADER = "x-forwarded-for";
+
+export type TrustedProxyClientAddressResolverOptions = {
+  /** Networks containing the reverse proxies that requests are received from.
+   */
+  trustedProxies: IpNetwork[];
+  /** The maximum number of trusted proxies to step back through. */
+  hops: number;
+  /** The request header that proxies record client addresses in.
+   *
+   * `Forwarded` is parsed as RFC 7239 `for=` parameters. Other headers are
+   * parsed as a comma-separated list of addresses, as used by
+   * `X-Forwarded-For`. Single-value headers such as `CF-Connecting-IP` are
+   * a list with one address.
+   */
+  header: string;
+};
+
+/** Remove quotes, [] brackets and port numbers from an address string. */
+function stripAddressDecorations(value: string): string {
+  value = value.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    value = value.substring(1, value.length - 1);
+  }
+  const bracketed = /^\[([^\]]*)\](:\d+)?$/.exec(value);
+  if (bracketed) return bracketed[1];
+  // An IPv4 address with a port. IPv6 addresses with ports must be bracketed.
+  const ipv4WithPort = /^([\d.]+):\d+$/.exec(value);
+  if (ipv4WithPort) return ipv4WithPort[1];
+  return value;
+}
+
+function parseForwardedHeader(value: string): string[] {
+  const addresses: string[] = [];
+  for (const element of value.split(",")) {
+    let address = "";
+    for (const pair of element.split(";")) {
+      const separator = pair.indexOf("=");
+      if (separator < 0) continue;
+      if (pair.substring(0, separator).trim().toLowerCase() !== "for") continue;
+      address = pair.substring(separator + 1);
+    }
+    addresses.push(stripAddressDecorations(address));
+  }
+  return addresses;
+}
+
+function parseAddressListHeader(value: string): string[] {
+  return value.split(",").map(stripAddressDecorations);
+}
+
+/** Get the client addresses recorded by proxies, nearest client first.
+ *
+ * Multiple instances of the header are combined in the order they occur.
+ */
+export function getForwardedAddresses(
+  headers: Headers,
+  header: string,
+): string[] {
+  const value = headers.get(header);
+  if (!value) return [];
+  return header.toLowerCase() === FORWARDED_HEADER
+    ? parseForwardedHeader(value)
+    : parseAddressListHeader(value);
+}
+
+/** Resolve client addresses from headers set by trusted reverse proxies.
+ *
+ * Starting from the connection's remote address, we step back through the
+ * addresses recorded in the proxy header from right to left. Each step is only
+ * taken while the current address is a trusted proxy, and at most `hops` steps
+ * are taken. Untrusted clients can prepend arbitrary values to the header, so
+ * anything to the left of the first untrusted address is never used.
+ *
+ * If a recorded address is missing or not a valid IP address (e.g. an
+ * obfuscated `Forwarded` identifier), the last valid address is used.
+ */
+export function createTrustedProxyClientAddressResolver(
+  { trustedProxies, hops, header }: TrustedProxyClientAddressResolverOptions,
+): ClientAddressResolver {
+  const isTrusted = (address: string): boolean => {
+    const ip = parseIpAddress(address);
+    return !!ip && trustedProxies.some((net) => ipNetworkContains(net, ip));
+  };
+
+  return (request, info) => {
+    let clientAddress = info.remoteAddr.hostname;
+    const forwarded = getForwardedAddresses(request.headers, header);
+
+    for (let hop = 0; hop < hops && isTrusted(clientAddress); hop++) {
+      const next = forwarded.pop();
+      const ip = next === undefined ? undefined : parseIpAddress(next);
+      if (!ip) break;
+      clientAddress = formatIpAddress(ip);
+    }
+    return clientAddress;
+  };
+}
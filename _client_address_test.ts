@@ -0,0 +1,168 @@
+import {
+  createTrustedProxyClientAddressResolver,
+  getForwardedAddresses,
+  remoteAddressResolver,
+  TrustedProxyClientAddressResolverOptions,
+} from "./_client_address.ts";
+import { parseIpNetwork } from "./_ip.ts";
+import { assert, assertEquals } from "./dev_deps.ts";
+
+function createRequest(
+  { remoteAddress, headers = {} }: {
+    remoteAddress: string;
+    headers?: Record<string, string>;
+  },
+): [Request, Deno.ServeHandlerInfo] {
+  const completed = Promise.reject("not used");
+  completed.catch(() => {}); // ignore
+  return [
+    new Request("https://example.com/mp/collect", { method: "POST", headers }),
+    {
+      completed,
+      remoteAddr: { hostname: remoteAddress, port: 1234, transport: "tcp" },
+    },
+  ];
+}
+
+Deno.test("remoteAddressResolver()", () => {
+  const [request, info] = createRequest({
+    remoteAddress: "1.2.3.4",
+    headers: { "X-Forwarded-For": "10.0.0.1" },
+  });
+  assertEquals(remoteAddressResolver(request, info), "1.2.3.4");
+});
+
+Deno.test("getForwardedAddresses()", async (t) => {
+  await t.step("parses X-Forwarded-For", () => {
+    const headers = new Headers({
+      "X-Forwarded-For": "1.2.3.4, 5.6.7.8:9000,[2001:db8::1]:80, 2001:db8::2",
+    });
+    assertEquals(getForwardedAddresses(headers, "x-forwarded-for"), [
+      "1.2.3.4",
+      "5.6.7.8",
+      "2001:db8::1",
+      "2001:db8::2",
+    ]);
+  });
+
+  await t.step("parses Forwarded", () => {
+    const headers = new Headers({
+      "Forwarded":
+        'for=192.0.2.43, for="[2001:db8:cafe::17]:4711";proto=https, by=203.0.113.43;For=198.51.100.17, for=_hidden',
+    });
+    assertEquals(getForwardedAddresses(headers, "forwarded"), [
+      "192.0.2.43",
+      "2001:db8:cafe::17",
+      "198.51.100.17",
+      "_hidden",
+    ]);
+  });
+
+  await t.step("parses single-address headers", () => {
+    const headers = new Headers({ "CF-Connecting-IP": "1.2.3.4" });
+    assertEquals(getForwardedAddresses(headers, "cf-connecting-ip"), [
+      "1.2.3.4",
+    ]);
+  });
+
+  await t.step("missing header has no addresses", () => {
+    assertEquals(getForwardedAddresses(new Headers(), "x-forwarded-for"), []);
+  });
+});
+
+Deno.test("createTrustedProxyClientAddressResolver()", async (t) => {
+  function resolve(
+    options: Partial<TrustedProxyClientAddressResolverOptions> & {
+      trustedProxies?: string[];
+      remoteAddress: string;
+      forwarded?: string;
+    },
+  ): string {
+    const header = options.header ?? "x-forwarded-for";
+    const resolver = createTrustedProxyClientAddressResolver({
+      trustedProxies: (options.trustedProxies ?? ["10.0.0.0/8"]).map((n) => {
+        const network = parseIpNetwork(n);
+        assert(network);
+        return network;
+      }),
+      hops: options.hops ?? 1,
+      header,
+    });
+    const [request, info] = createRequest({
+      remoteAddress: options.remoteAddress,
+      headers: options.forwarded === undefined
+        ? {}
+        : { [header]: options.forwarded },
+    });
+    return resolver(request, info);
+  }
+
+  await t.step("uses remote address when it's not trusted", () => {
+    assertEquals(
+      resolve({ remoteAddress: "1.2.3.4", forwarded: "5.6.7.8" }),
+      "1.2.3.4",
+    );
+  });
+
+  await t.step("uses forwarded address from trusted proxy", () => {
+    assertEquals(
+      resolve({ remoteAddress: "10.0.0.1", forwarded: "5.6.7.8" }),
+      "5.6.7.8",
+    );
+  });
+
+  await t.step("uses rightmost forwarded address", () => {
+    assertEquals(
+      resolve({ remoteAddress: "10.0.0.1", forwarded: "6.6.6.6, 5.6.7.8" }),
+      "5.6.7.8",
+    );
+  });
+
+  await t.step("steps through multiple trusted proxies", () => {
+    assertEquals(
+      resolve({
+        remoteAddress: "10.0.0.1",
+        forwarded: "6.6.6.6, 5.6.7.8, 10.0.0.2",
+        hops: 3,
+      }),
+      "5.6.7.8",
+    );
+  });
+
+  await t.step("steps through no more than hops proxies", () => {
+    assertEquals(
+      resolve({
+        remoteAddress: "10.0.0.1",
+        forwarded: "5.6.7.8, 10.0.0.3, 10.0.0.2",
+        hops: 2,
+      }),
+      "10.0.0.3",
+    );
+  });
+
+  await t.step("uses remote address when header is missing", () => {
+    assertEquals(resolve({ remoteAddress: "10.0.0.1" }), "10.0.0.1");
+  });
+
+  await t.step("stops at invalid forwarded addresses", () => {
+    assertEquals(
+      resolve({
+        remoteAddress: "10.0.0.1",
+        header: "forwarded",
+        forwarded: "for=5.6.7.8, for=unknown",
+      }),
+      "10.0.0.1",
+    );
+  });
+
+  await t.step("uses named header", () => {
+    assertEquals(
+      resolve({
+        remoteAddress: "10.0.0.1",
+        header: "cf-connecting-ip",
+        forwarded: "2001:DB8::1",
+      }),
+      "2001:db8::1",
+    );
+  });
+});
@@ -1,5 +1,23 @@
-import { ExistingIdPolicy } from "../anonymisation.ts";
-import { DestinationUrl, Host, Port, ScramblerKey } from "./values_schema.ts";
+import { ConsentAction, ExistingIdPolicy } from "../anonymisation.ts";
+import { RetryableErrorName } from "../retry.ts";
+import { FileSinkRotation } from "../file_sink.ts";
+import { BackendType } from "../backends.ts";
+import { PiiAction } from "../pii.ts";
+import { ParameterName } from "../payload_schemas.ts";
+import { RequestContentType } from "../default.ts";
+import { QueryParamsPolicy } from "../url_sanitiser.ts";
+import { ValidationMode } from "../validation.ts";
+import { DisallowedEventsAction } from "../event_filter.ts";
+import { BotAction } from "../bots.ts";
+import {
+  DestinationUrl,
+  EventNamePattern,
+  HeaderName,
+  Host,
+  IpNetworkString,
+  Port,
+  ScramblerKey,
+} from "./values_schema.ts";
 import { EvaluatedDisambiguatedLifetimeExpression } from "./lifetimes.ts";
 import { z } from "../deps.ts";
 import {
@@ -23,6 +41,136 @@ const DecimalIntFromString = z.string().regex(/^(0|[1-9][0-9]*)$/, {
   (i) => parseInt(i),
 );
 
+const DecimalFromString = z.string().regex(
+  /^(0|[1-9][0-9]*)(\.[0-9]+)?$/,
+  { message: "Not a decimal number" },
+).transform((n) => parseFloat(n));
+
+const RetryOnEnvar = z.string().transform((value) =>
+  value.split(",").map((s) => s.trim()).filter((s) => s)
+).pipe(RetryableErrorName.array().min(1));
+
+const ContentTypesEnvar = z.string().transform((value) =>
+  value.split(",").map((s) => s.trim()).filter((s) => s)
+).pipe(RequestContentType.array().min(1));
+
+const IpNetworkListEnvar = z.string().transform((value) =>
+  value.split(",").map((s) => s.trim()).filter((s) => s)
+).pipe(IpNetworkString.array().min(1));
+
+/** A comma-separated list of event names, globs or `/regex/` patterns. */
+const EventNamePatternsEnvar = z.string().transform((value) =>
+  value.split(",").map((s) => s.trim()).filter((s) => s)
+).pipe(EventNamePattern.array().min(1));
+
+const UrlParamsEnvar = z.string().transform((value) =>
+  value.split(",").map((s) => s.trim()).filter((s) => s)
+).pipe(ParameterName.array().min(1));
+
+/** A query params policy, or a comma-separated list of query params to keep. */
+const UrlQueryParamsEnvar = z.string().transform((value) =>
+  QueryParamsPolicy.safeParse(value.trim()).success
+    ? value.trim()
+    : value.split(",").map((s) => s.trim()).filter((s) => s)
+).pipe(z.union([QueryParamsPolicy, z.string().array().min(1)]));
+
+/** Format a query params config in the ANONYSTAT_URLS_QUERY_PARAMS format. */
+export function formatUrlQueryParamsEnvar(
+  queryParams: QueryParamsPolicy | string[],
+): string {
+  return typeof queryParams === "string" ? queryParams : queryParams.join(",");
+}
+
+/** A comma-separated list of event name mappings, e.g. `page_view=pageview`. */
+const EventNamesEnvar = z.string().transform(
+  (value, ctx): Record<string, string> => {
+    const names: Record<string, string> = {};
+    const items = value.split(",").map((s) => s.trim()).filter((s) => s);
+    for (const item of items) {
+      const [from, to, ...rest] = item.split("=").map((s) => s.trim());
+      if (!from || !to || rest.length) {
+        ctx.addIssue({
+          code: "custom",
+          message:
+            `Invalid event name mapping '${item}', expected <name>=<name>`,
+        });
+        return z.NEVER;
+      }
+      names[from] = to;
+    }
+    return names;
+  },
+);
+
+/** Format event name mappings in the ANONYSTAT_DESTINATION_EVENT_NAMES format.
+ */
+export function formatEventNamesEnvar(names: Record<string, string>): string {
+  return Object.entries(names).map(([from, to]) => `${from}=${to}`).join(",");
+}
+
+type UserIdComponentsEnvar = {
+  ip: boolean;
+  user_agent: boolean;
+  accept_language: boolean;
+  headers: string[];
+};
+
+const HEADER_COMPONENT_PREFIX = "header:";
+
+/** A comma-separated list of user ID components, e.g. `ip,header:Sec-CH-UA`. */
+const UserIdComponentsEnvar = z.string().transform(
+  (value, ctx): UserIdComponentsEnvar => {
+    const components: UserIdComponentsEnvar = {
+      ip: false,
+      user_agent: false,
+      accept_language: false,
+      headers: [],
+    };
+    const items = value.split(",").map((s) => s.trim()).filter((s) => s);
+    for (const item of items) {
+      if (
+        item === "ip" || item === "user_agent" || item === "accept_language"
+      ) {
+        components[item] = true;
+      } else if (item.startsWith(HEADER_COMPONENT_PREFIX)) {
+        const header = HeaderName.safeParse(
+          item.substring(HEADER_COMPONENT_PREFIX.length),
+        );
+        if (!header.success) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Invalid header component '${item}': ${
+              header.error.issues.map((i) => i.message).join("; ")
+            }`,
+          });
+          return z.NEVER;
+        }
+        components.headers.push(header.data);
+      } else {
+        ctx.addIssue({
+          code: "custom",
+          message:
+            `Unknown component '${item}', expected ip, user_agent, accept_language or header:<name>`,
+        });
+        return z.NEVER;
+      }
+    }
+    return components;
+  },
+);
+
+/** Format user ID components in the ANONYSTAT_USER_ID_COMPONENTS format. */
+export function formatUserIdComponentsEnvar(
+  components: UserIdComponentsEnvar,
+): string {
+  return [
+    ...(components.ip ? ["ip"] : []),
+    ...(components.user_agent ? ["user_agent"] : []),
+    ...(components.accept_language ? ["accept_language"] : []),
+    ...components.headers.map((h) => `${HEADER_COMPONENT_PREFIX}${h}`),
+  ].join(",");
+}
+
 const AllowOriginEnvar = z.union([WildcardSchema, EvaluatedOriginsExpression]);
 
 /** Names of config envars used individually. */
@@ -44,20 +192,79 @@ export const RawConfigEnv = z.object({
   ANONYSTAT_DATA_STREAM_API_SECRET: EmptyStringAsUndefined.optional(),
   ANONYSTAT_DATA_STREAM_IN_API_SECRET: EmptyStringAsUndefined.optional(),
   ANONYSTAT_DATA_STREAM_OUT_API_SECRET: EmptyStringAsUndefined.optional(),
+  ANONYSTAT_DATA_STREAM_ALLOW_EVENTS: emptyStringAsUndefined(
+    EventNamePatternsEnvar,
+  ),
+  ANONYSTAT_DATA_STREAM_DENY_EVENTS: emptyStringAsUndefined(
+    EventNamePatternsEnvar,
+  ),
+  ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS: emptyStringAsUndefined(
+    DisallowedEventsAction,
+  ),
   ANONYSTAT_DESTINATION: emptyStringAsUndefined(DestinationUrl),
+  ANONYSTAT_DESTINATION_TYPE: emptyStringAsUndefined(BackendType),
+  ANONYSTAT_DESTINATION_EVENT_NAMES: emptyStringAsUndefined(EventNamesEnvar),
   ANONYSTAT_ALLOW_DEBUG: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_ALLOW_GTAG: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_CONTENT_TYPES: emptyStringAsUndefined(ContentTypesEnvar),
+  ANONYSTAT_MAX_BODY_BYTES: emptyStringAsUndefined(DecimalIntFromString),
+  ANONYSTAT_SPLIT_EVENTS: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_VALIDATION: emptyStringAsUndefined(ValidationMode),
+  ANONYSTAT_RECOMMENDED_EVENTS: emptyStringAsUndefined(EnvBool),
   ANONYSTAT_USER_ID_SCRAMBLING_SECRET: emptyStringAsUndefined(ScramblerKey),
   ANONYSTAT_USER_ID_LIFETIME: emptyStringAsUndefined(
     EvaluatedDisambiguatedLifetimeExpression,
   ),
   ANONYSTAT_USER_ID_EXISTING: emptyStringAsUndefined(ExistingIdPolicy)
     .optional(),
+  ANONYSTAT_CLIENT_ID_EXISTING: emptyStringAsUndefined(ExistingIdPolicy)
+    .optional(),
+  ANONYSTAT_USER_ID_COMPONENTS: emptyStringAsUndefined(UserIdComponentsEnvar),
+  ANONYSTAT_USER_ID_IPV4_PREFIX: emptyStringAsUndefined(DecimalIntFromString),
+  ANONYSTAT_USER_ID_IPV6_PREFIX: emptyStringAsUndefined(DecimalIntFromString),
   ANONYSTAT_CORS_ALLOW_ORIGIN: emptyStringAsUndefined(AllowOriginEnvar),
   ANONYSTAT_CORS_MAX_AGE: emptyStringAsUndefined(MaxAge),
+  ANONYSTAT_QUEUE: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_QUEUE_RETRIES: emptyStringAsUndefined(DecimalIntFromString),
+  ANONYSTAT_RETRY: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_RETRY_MAX_ATTEMPTS: emptyStringAsUndefined(DecimalIntFromString),
+  ANONYSTAT_RETRY_INITIAL_DELAY: emptyStringAsUndefined(DecimalFromString),
+  ANONYSTAT_RETRY_MAX_DELAY: emptyStringAsUndefined(DecimalFromString),
+  ANONYSTAT_RETRY_ON: emptyStringAsUndefined(RetryOnEnvar),
+  ANONYSTAT_UPSTREAM_TIMEOUT: emptyStringAsUndefined(DecimalFromString),
+  ANONYSTAT_FILE_SINK_DIRECTORY: EmptyStringAsUndefined.optional(),
+  ANONYSTAT_FILE_SINK_ROTATION: emptyStringAsUndefined(FileSinkRotation),
+  ANONYSTAT_FILE_SINK_MAX_BYTES: emptyStringAsUndefined(DecimalIntFromString),
+  ANONYSTAT_FILE_SINK_GZIP: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_FILE_SINK_ONLY: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_CONSENT_AD_USER_DATA_DENIED: emptyStringAsUndefined(ConsentAction),
+  ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED: emptyStringAsUndefined(
+    ConsentAction,
+  ),
+  ANONYSTAT_CONSENT_GPC: emptyStringAsUndefined(ConsentAction),
+  ANONYSTAT_CONSENT_DNT: emptyStringAsUndefined(ConsentAction),
+  ANONYSTAT_PII: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_PII_EMAIL: emptyStringAsUndefined(PiiAction),
+  ANONYSTAT_PII_PHONE: emptyStringAsUndefined(PiiAction),
+  ANONYSTAT_PII_IP: emptyStringAsUndefined(PiiAction),
+  ANONYSTAT_PII_CREDIT_CARD: emptyStringAsUndefined(PiiAction),
+  ANONYSTAT_PII_JWT: emptyStringAsUndefined(PiiAction),
+  ANONYSTAT_URLS: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_URLS_PARAMS: emptyStringAsUndefined(UrlParamsEnvar),
+  ANONYSTAT_URLS_QUERY_PARAMS: emptyStringAsUndefined(UrlQueryParamsEnvar),
+  ANONYSTAT_URLS_KEEP_FRAGMENT: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_URLS_COLLAPSE_IDS: emptyStringAsUndefined(EnvBool),
+  ANONYSTAT_BOTS: emptyStringAsUndefined(BotAction),
+  ANONYSTAT_BOTS_HTTP_CLIENTS: emptyStringAsUndefined(EnvBool),
   ANONYSTAT_LISTEN_PORT: emptyStringAsUndefined(
     DecimalIntFromString.pipe(Port),
   ),
   ANONYSTAT_LISTEN_HOSTNAME: emptyStringAsUndefined(Host),
+  ANONYSTAT_LISTEN_TRUSTED_PROXIES: emptyStringAsUndefined(IpNetworkListEnvar),
+  ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS: emptyStringAsUndefined(
+    DecimalIntFromString,
+  ),
+  ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER: emptyStringAsUndefined(HeaderName),
 });
 export type ConfigValueEnvarName = keyof typeof RawConfigEnv.shape;
 export const configValueEnvarNames = Object.keys(
@@ -91,6 +298,18 @@ export const ConfigEnv = RawConfigEnv.superRefine((val, ctx) => {
     "ANONYSTAT_DATA_STREAM_OUT_API_SECRET",
     "ANONYSTAT_DATA_STREAM_API_SECRET",
   );
+  if (
+    val.ANONYSTAT_BOTS_HTTP_CLIENTS !== undefined &&
+    val.ANONYSTAT_BOTS === undefined
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.invalid_type,
+      expected: "string",
+      received: "undefined",
+      path: ["ANONYSTAT_BOTS"],
+      message: "Required because ANONYSTAT_BOTS_HTTP_CLIENTS is set",
+    });
+  }
 });
 export type ConfigEnv = z.infer<typeof ConfigEnv>;
 export type RawConfigEnv = z.infer<typeof RawConfigEnv>;
@@ -5,10 +5,74 @@ import {
   DefaultCollectRequestForwardingRule,
   MeasurementIdCollectRequestMatcher,
 } from "../rules.ts";
-import { RequestMatchError } from "../types.ts";
-import { defaultProxyOptions, DefaultRequestForwarder } from "../default.ts";
-import { Config, Cors, DEFAULT_CORS_MAX_AGE } from "./json_schema.ts";
+import {
+  GA4MPPayload,
+  ProxySender,
+  ProxySendError,
+  RequestMatchError,
+} from "../types.ts";
+import { ApprovedCollectRequestMeta } from "../meta.ts";
+import {
+  AnyEvent,
+  AnyPayload,
+  createPayloadSchema,
+  MAX_PAYLOAD_EVENTS,
+} from "../payload_schemas.ts";
+import { RecommendedEvent } from "../recommended_events.ts";
+import { createCustomEventSchema } from "../custom_events.ts";
+import {
+  approvedRequestDestinationSelector,
+  createPayloadParser,
+  createProxySender,
+  createRequestReader,
+  DefaultPayloadParser,
+  defaultProxyOptions,
+  defaultProxySendResultCreator,
+  DefaultRequestForwarder,
+} from "../default.ts";
+import {
+  Config,
+  Cors,
+  DEFAULT_CORS_MAX_AGE,
+  ForwarderConfig,
+  InDataStreamCredentials,
+  TrustedProxiesConfig,
+} from "./json_schema.ts";
+import { assert } from "../deps.ts";
 import { AnonymisationProvider } from "../anonymisation.ts";
+import {
+  ClientAddressResolver,
+  createTrustedProxyClientAddressResolver,
+  remoteAddressResolver,
+} from "../_client_address.ts";
+import { parseIpNetwork } from "../_ip.ts";
+import { BatchRequestForwarder } from "../batch.ts";
+import { createQueuedProxySender } from "../queue.ts";
+import { createRetryingProxySender, RetryPolicy } from "../retry.ts";
+import { createFanOutProxySender } from "../fan_out.ts";
+import { createSplittingProxySender } from "../split.ts";
+import {
+  createDropInvalidPayloadParser,
+  createDroppedItemsReportingResponseWriter,
+  ValidationMode,
+} from "../validation.ts";
+import {
+  BackendRequestsBuilder,
+  createBackendRequestsBuilder,
+  createRequestsProxySender,
+} from "../backends.ts";
+import { createFileSinkProxySender, RotatingNdjsonFile } from "../file_sink.ts";
+import { createPiiReportingResponseWriter, PiiScrubber } from "../pii.ts";
+import { UrlSanitiser } from "../url_sanitiser.ts";
+import { PayloadTransformer } from "../transforms.ts";
+import { EventNameFilter } from "../event_filter.ts";
+import { BotFilter } from "../bots.ts";
+import { createGtagRequestReader } from "../gtag.ts";
+import {
+  createPixelRequestReader,
+  createPixelResponseWriter,
+} from "../pixel.ts";
+import { getDefaultKv } from "../storage.ts";
 import {
   CorsMiddleware,
   CorsPolicy,
@@ -52,12 +116,109 @@ function mergeCorsConfigs(
   };
 }
 
+function createEventNameFilter(
+  dsIn: InDataStreamCredentials,
+): EventNameFilter | undefined {
+  if (!dsIn.allow_events && !dsIn.deny_events) return undefined;
+  return new EventNameFilter({
+    allow: dsIn.allow_events,
+    deny: dsIn.deny_events,
+    disallowedEvents: dsIn.disallowed_events,
+  });
+}
+
+function createClientAddressResolver(
+  trustedProxies: TrustedProxiesConfig | undefined,
+): ClientAddressResolver {
+  if (!trustedProxies) return remoteAddressResolver;
+  return createTrustedProxyClientAddressResolver({
+    trustedProxies: trustedProxies.addresses.map((address) => {
+      const network = parseIpNetwork(address);
+      // The config schema only allows valid networks
+      assert(network);
+      return network;
+    }),
+    hops: trustedProxies.hops,
+    header: trustedProxies.header,
+  });
+}
+
+/** The sender that forwards anonymised payloads upstream. */
+type ForwardProxySender = ProxySender<
+  GA4MPPayload<AnyPayload>,
+  null,
+  ProxySendError,
+  ApprovedCollectRequestMeta
+>;
+
+/** Create the requests builder of a non-GA4 destination. */
+function createBackendRequestsBuilderFromConfig(
+  { destination }: ForwarderConfig,
+):
+  | BackendRequestsBuilder<GA4MPPayload<AnyPayload>, ApprovedCollectRequestMeta>
+  | undefined {
+  if (destination.type === "ga4") return undefined;
+  return createBackendRequestsBuilder<
+    GA4MPPayload<AnyPayload>,
+    ApprovedCollectRequestMeta
+  >({
+    type: destination.type,
+    destinationSelector: approvedRequestDestinationSelector,
+    eventNames: destination.event_names,
+  });
+}
+
+function getUpstreamTimeoutFromConfig(
+  { upstream_timeout }: ForwarderConfig,
+): number | undefined {
+  return upstream_timeout === undefined ? undefined : upstream_timeout * 1000;
+}
+
+function getRetryPolicyFromConfig(
+  { retry }: ForwarderConfig,
+): RetryPolicy | undefined {
+  return retry && {
+    maxAttempts: retry.max_attempts,
+    initialDelay: retry.initial_delay * 1000,
+    maxDelay: retry.max_delay * 1000,
+    retryOn: new Set(retry.on),
+  };
+}
+
+function createProxySenderFromConfig(
+  fwConfig: ForwarderConfig,
+): ForwardProxySender {
+  const timeout = getUpstreamTimeoutFromConfig(fwConfig);
+  const retry = getRetryPolicyFromConfig(fwConfig);
+  const requestsBuilder = createBackendRequestsBuilderFromConfig(fwConfig);
+  if (!requestsBuilder && !retry && timeout === undefined) {
+    return defaultProxyOptions.proxySender;
+  }
+  const proxySender: ForwardProxySender = requestsBuilder
+    ? createRequestsProxySender({ requestsBuilder, timeout })
+    : createProxySender({
+      destinationSelector: approvedRequestDestinationSelector,
+      resultCreator: defaultProxySendResultCreator,
+      timeout,
+    });
+  if (!retry) return proxySender;
+  return createRetryingProxySender({ proxySender, policy: retry });
+}
+
 /** Instantiate Config data into a request matcher to handle collect requests.
  */
 export async function createCollectRequestMatcherFromConfig(
   config: Config,
   options: CreateCollectRequestMatcherFromConfigOptions = {},
 ): Promise<Matcher<HandlerRequest, RequestMatchError, Responder>> {
+  const clientAddressResolver = createClientAddressResolver(
+    config.listen.trusted_proxies,
+  );
+
+  // Forwarder sections with file sinks in the same directory share the file,
+  // so that their writes don't interleave.
+  const fileSinkFiles = new Map<string, RotatingNdjsonFile>();
+
   // Configs can contain multiple forwarder sections, each of which defines a
   // separate set of allowed measurement_ids and rules to apply when forwarding
   // requests matching those measurement_ids.
@@ -67,39 +228,199 @@ export async function createCollectRequestMatcherFromConfig(
       secret: fwConfig.user_id.scrambling_secret ?? undefined,
       lifetime: fwConfig.user_id.lifetime,
       existingUserIdPolicy: fwConfig.user_id.existing,
+      existingClientIdPolicy: fwConfig.user_id.client_id,
+      clientAddressResolver,
+      userIdComponents: fwConfig.user_id.components && {
+        ip: fwConfig.user_id.components.ip,
+        userAgent: fwConfig.user_id.components.user_agent,
+        acceptLanguage: fwConfig.user_id.components.accept_language,
+        headers: fwConfig.user_id.components.headers,
+        ipv4Prefix: fwConfig.user_id.components.ipv4_prefix,
+        ipv6Prefix: fwConfig.user_id.components.ipv6_prefix,
+      },
+      consent: fwConfig.consent,
       kv: options.kv,
     });
 
-    const requestForwarder = new DefaultRequestForwarder({
-      ...defaultProxyOptions,
-      // The anonymisation payload parser post-processes incoming requests to
-      // anonymise their user_ids.
-      payloadParser: anonymisation.createPayloadParser(
-        defaultProxyOptions.payloadParser,
-      ),
+    // PII is hashed with the same secret as scrambled IDs.
+    const piiScrubber = fwConfig.pii && await PiiScrubber.create({
+      actions: fwConfig.pii,
+      secret: fwConfig.user_id.scrambling_secret ?? undefined,
     });
 
-    const corsPolicy = fwConfig.cors && createCorsPolicy(fwConfig.cors);
+    const urlSanitiser = fwConfig.urls && new UrlSanitiser({
+      params: fwConfig.urls.params,
+      queryParams: fwConfig.urls.query_params,
+      keepFragment: fwConfig.urls.keep_fragment,
+      collapseIds: fwConfig.urls.collapse_ids,
+    });
+    // Payloads with too many events are accepted when they can be split.
+    const eventSchema = fwConfig.recommended_events
+      ? RecommendedEvent
+      : AnyEvent;
+    const payloadSchema = createPayloadSchema({
+      eventSchema: fwConfig.events
+        ? createCustomEventSchema({ events: fwConfig.events, eventSchema })
+        : eventSchema,
+      maxEvents: fwConfig.split_events ? Infinity : MAX_PAYLOAD_EVENTS,
+    });
+    const validatePayload: DefaultPayloadParser =
+      fwConfig.validation === ValidationMode.Enum["drop-invalid"]
+        ? createDropInvalidPayloadParser(payloadSchema)
+        : createPayloadParser(payloadSchema);
+    // Payloads are transformed before they're sanitised, so that the values
+    // transforms move around are sanitised too.
+    const transformPayload = fwConfig.transforms
+      ? new PayloadTransformer(fwConfig.transforms, { payloadSchema })
+        .createPayloadParser(validatePayload)
+      : validatePayload;
+    // URLs are sanitised before PII is scrubbed from what remains of them.
+    const sanitisePayload = urlSanitiser
+      ? urlSanitiser.createPayloadParser(transformPayload)
+      : transformPayload;
+    // Payloads from bots are dropped or tagged before they're parsed.
+    const parsePayload = fwConfig.bots
+      ? new BotFilter({
+        action: fwConfig.bots.action,
+        httpClients: fwConfig.bots.http_clients,
+      }).createPayloadParser(
+        sanitisePayload,
+      )
+      : sanitisePayload;
+
+    const requestReader = createRequestReader({
+      contentTypes: fwConfig.content_types,
+      maxBodyBytes: fwConfig.max_body_bytes,
+    });
 
-    // CORS is optional. If it's enabled we support it by wrapping the forwarder
-    // with CorsMiddleware to set CORS headers.
-    const forwarder = corsPolicy
-      ? new CorsMiddleware(requestForwarder, {
-        corsPolicy,
+    // Queued forwarders respond as soon as payloads are stored, and deliver
+    // them upstream in the background.
+    const proxySender: ForwardProxySender = fwConfig.queue
+      ? createQueuedProxySender<
+        GA4MPPayload<AnyPayload>,
+        ApprovedCollectRequestMeta
+      >({
+        kv: options.kv ?? await getDefaultKv(),
+        destinationSelector: approvedRequestDestinationSelector,
+        retries: fwConfig.queue.retries,
+        timeout: getUpstreamTimeoutFromConfig(fwConfig),
+        retry: getRetryPolicyFromConfig(fwConfig),
+        requestsBuilder: createBackendRequestsBuilderFromConfig(fwConfig),
       })
-      : requestForwarder;
+      : createProxySenderFromConfig(fwConfig);
+
+    const fileSink = fwConfig.file_sink;
+    const fileSinkFile = fileSink &&
+      (fileSinkFiles.get(fileSink.directory) ?? new RotatingNdjsonFile({
+        directory: fileSink.directory,
+        rotation: fileSink.rotation,
+        maxBytes: fileSink.max_bytes,
+        gzip: fileSink.gzip,
+      }));
+    if (fileSink && fileSinkFile) {
+      fileSinkFiles.set(fileSink.directory, fileSinkFile);
+    }
+
+    // Batch requests are split into payloads that are each handled like the
+    // payload of an individual request.
+    const createRequestForwarder = <ProxyResultT>(
+      sender: ProxySender<
+        GA4MPPayload<AnyPayload>,
+        ProxyResultT,
+        ProxySendError,
+        ApprovedCollectRequestMeta
+      >,
+      eventFilter?: EventNameFilter,
+    ) => {
+      // Payloads are split into payloads with few enough events for GA4 before
+      // they're sent, but not before they're recorded by the file sink.
+      const splitSender: ProxySender<
+        GA4MPPayload<AnyPayload>,
+        unknown,
+        ProxySendError,
+        ApprovedCollectRequestMeta
+      > = fwConfig.split_events
+        ? createSplittingProxySender({ proxySender: sender })
+        : sender;
+      // Data streams' allowed events are matched after events are transformed.
+      const filterPayload = eventFilter
+        ? eventFilter.createPayloadParser(parsePayload)
+        : parsePayload;
+      return new BatchRequestForwarder(
+        new DefaultRequestForwarder({
+          ...defaultProxyOptions,
+          // Pixel and gtag.js requests encode events in their own formats.
+          requestReader: createGtagRequestReader(
+            createPixelRequestReader(requestReader),
+            { maxBodyBytes: fwConfig.max_body_bytes },
+          ),
+          // The anonymisation payload parser post-processes incoming requests
+          // to anonymise their user_ids.
+          payloadParser: anonymisation.createPayloadParser(
+            piiScrubber
+              ? piiScrubber.createPayloadParser(filterPayload)
+              : filterPayload,
+          ),
+          // Debug requests are told what PII was scrubbed from their payloads
+          // and what invalid items were dropped, and pixel requests always get
+          // an image.
+          responseWriter: createPixelResponseWriter(
+            createDroppedItemsReportingResponseWriter(
+              createPiiReportingResponseWriter(
+                defaultProxyOptions.responseWriter,
+              ),
+            ),
+          ),
+          // The file sink records anonymised payloads after they're forwarded,
+          // or instead of forwarding them.
+          proxySender: fileSinkFile
+            ? createFileSinkProxySender({
+              file: fileSinkFile,
+              proxySender: fileSink?.only ? undefined : splitSender,
+            })
+            : splitSender,
+        }),
+        { maxBodyBytes: fwConfig.max_body_bytes },
+      );
+    };
+    const requestForwarder = createRequestForwarder(proxySender);
+
+    const corsPolicy = fwConfig.cors && createCorsPolicy(fwConfig.cors);
 
     return fwConfig.data_stream.map((dsConfig) => {
-      // Individual data streams can override the shared CORS policy, in which
-      // case we merge the CORS configs and wrap the same basic requestForwarder
-      // with a CORS middleware specific to this data stream.
+      const destinations = dsConfig.out.map((out) => ({
+        measurement_id: out.measurement_id,
+        api_secret: out.api_secret,
+        endpoint: out.destination ?? fwConfig.destination.url,
+      }));
+      // Data streams with multiple outs or event name filters get their own
+      // forwarder. Those with multiple outs send each payload to all of them.
+      const eventFilter = createEventNameFilter(dsConfig.in);
+      const dsRequestForwarder = destinations.length > 1 || eventFilter
+        ? createRequestForwarder(
+          destinations.length > 1
+            ? createFanOutProxySender({
+              proxySender,
+              destinations,
+              policy: fwConfig.fan_out_policy,
+            })
+            : proxySender,
+          eventFilter,
+        )
+        : requestForwarder;
+
+      // CORS is optional. If it's enabled we support it by wrapping the
+      // forwarder with CorsMiddleware to set CORS headers. Individual data
+      // streams can override the shared CORS policy, in which case we merge the
+      // CORS configs to create a CORS policy specific to this data stream.
       const dsCorsConfig = mergeCorsConfigs(fwConfig.cors, dsConfig.in.cors);
-      const dsCorsPolicy = dsCorsConfig && createCorsPolicy(dsCorsConfig);
+      const dsCorsPolicy = (dsCorsConfig && createCorsPolicy(dsCorsConfig)) ??
+        corsPolicy;
       const dsForwarder = dsCorsPolicy
-        ? new CorsMiddleware(requestForwarder, {
+        ? new CorsMiddleware(dsRequestForwarder, {
           corsPolicy: dsCorsPolicy,
         })
-        : forwarder;
+        : dsRequestForwarder;
 
       const rule = DefaultCollectRequestForwardingRule.create({
         // add extra info to request metadata needed by the anonymisation
@@ -108,12 +429,9 @@ export async function createCollectRequestMatcherFromConfig(
           DefaultCollectRequestForwardingRule.noopDecorator,
         ),
         allowedApiSecret: dsConfig.in.api_secret,
-        destination: {
-          measurement_id: dsConfig.out.measurement_id,
-          api_secret: dsConfig.out.api_secret,
-          endpoint: fwConfig.destination,
-        },
+        destination: destinations[0],
         allowDebug: fwConfig.allow_debug,
+        allowGtag: fwConfig.allow_gtag,
         forwarder: dsForwarder,
       });
       return [dsConfig.in.measurement_id, rule] as const;
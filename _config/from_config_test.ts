@@ -9,9 +9,10 @@ import {
 } from "../_testing.ts";
 import { assertEquals, assertNotEquals, FakeTime, stub } from "../dev_deps.ts";
 import { AnyPayload } from "../payload_schemas.ts";
+import { FileSinkRecord } from "../file_sink.ts";
 import { HandlerRequest } from "../requests.ts";
 import { createCollectRequestMatcherFromConfig } from "./from_config.ts";
-import { Config, DEFAULT_CORS_MAX_AGE } from "./json_schema.ts";
+import { BotsConfig, Config, DEFAULT_CORS_MAX_AGE } from "./json_schema.ts";
 
 import { StatusCodes } from "../deps.ts";
 import { CorsResponseHeader, Wildcard } from "../_cors.ts";
@@ -88,7 +89,7 @@ Deno.test("createCollectRequestMatcherFromConfig()", async (t) => {
         data_stream: [
           {
             in: { measurement_id: "a_in", api_secret: "a_in_sec1" },
-            out: { measurement_id: "a_out", api_secret: "a_out_sec" },
+            out: [{ measurement_id: "a_out", api_secret: "a_out_sec" }],
           },
           {
             in: {
@@ -96,13 +97,24 @@ Deno.test("createCollectRequestMatcherFromConfig()", async (t) => {
               api_secret: "b_in_sec",
               cors: { allow_origin: ["https://b.example.com"] },
             },
-            out: { measurement_id: "b_out", api_secret: "b_out_sec" },
+            out: [{ measurement_id: "b_out", api_secret: "b_out_sec" }],
           },
         ],
         allow_debug: false,
-        destination: "https://example.com/mp/collect",
+        fan_out_policy: "all",
+        content_types: ["application/json"],
+        allow_gtag: false,
+        split_events: false,
+        validation: "strict",
+        recommended_events: false,
+        destination: {
+          type: "ga4",
+          url: "https://example.com/mp/collect",
+          event_names: {},
+        },
         user_id: {
           existing: "keep",
+          client_id: "keep",
           lifetime: { count: 1, unit: "months" },
           scrambling_secret: null,
         },
@@ -115,11 +127,11 @@ Deno.test("createCollectRequestMatcherFromConfig()", async (t) => {
               api_secret: "a_in_sec2",
               cors: { allow_origin: ["https://a.example.com"], max_age: 120 },
             },
-            out: { measurement_id: "a_out", api_secret: "a_out_sec" },
+            out: [{ measurement_id: "a_out", api_secret: "a_out_sec" }],
           },
           {
             in: { measurement_id: "c_in", api_secret: "c_in_sec" },
-            out: { measurement_id: "c_out", api_secret: "c_out_sec" },
+            out: [{ measurement_id: "c_out", api_secret: "c_out_sec" }],
           },
           {
             in: {
@@ -127,13 +139,24 @@ Deno.test("createCollectRequestMatcherFromConfig()", async (t) => {
               api_secret: "d_in_sec",
               cors: { allow_origin: ["moz-extension://ab-cd"] },
             },
-            out: { measurement_id: "d_out", api_secret: "d_out_sec" },
+            out: [{ measurement_id: "d_out", api_secret: "d_out_sec" }],
           },
         ],
         allow_debug: true,
-        destination: "https://other.example.com/mp/collect",
+        fan_out_policy: "all",
+        content_types: ["application/json"],
+        allow_gtag: false,
+        split_events: false,
+        validation: "strict",
+        recommended_events: false,
+        destination: {
+          type: "ga4",
+          url: "https://other.example.com/mp/collect",
+          event_names: {},
+        },
         user_id: {
           existing: "scramble",
+          client_id: "keep",
           lifetime: { count: 1, unit: "hours" },
           scrambling_secret: null,
         },
@@ -371,6 +394,1140 @@ Deno.test("createCollectRequestMatcherFromConfig()", async (t) => {
     assertNotEquals(id0, id2);
   });
 
+  await t.step("matcher uses configured trusted_proxies", async (t) => {
+    async function getForwardedUserId(
+      { trustedProxies, forwardedFor }: {
+        trustedProxies?: Config["listen"]["trusted_proxies"];
+        forwardedFor: string;
+      },
+    ): Promise<string> {
+      let forwardedUserId: string | undefined;
+      const requestIn = createRequest({
+        measurement_id: "a_in",
+        api_secret: "a_in_sec2",
+      });
+      requestIn.request.headers.set("X-Forwarded-For", forwardedFor);
+
+      await assertRequestForwarded({
+        matcher: await createCollectRequestMatcherFromConfig(
+          {
+            ...config,
+            listen: { ...config.listen, trusted_proxies: trustedProxies },
+          },
+          { kv },
+        ),
+        requestIn,
+        requestOut: {
+          origin: "https://other.example.com",
+          measurement_id: "a_out",
+          api_secret: "a_out_sec",
+          user_id: (user_id) => {
+            assertUuid(user_id);
+            forwardedUserId = user_id;
+          },
+        },
+      });
+      assertUuid(forwardedUserId);
+      return forwardedUserId;
+    }
+
+    await t.step("ignores forwarded addresses by default", async () => {
+      const id1 = await getForwardedUserId({ forwardedFor: "10.0.0.1" });
+      const id2 = await getForwardedUserId({ forwardedFor: "10.0.0.2" });
+      assertEquals(id1, id2);
+    });
+
+    await t.step("uses forwarded addresses from trusted proxies", async () => {
+      const trustedProxies = {
+        // requests are received from 1.2.3.4
+        addresses: ["1.2.3.0/24"],
+        hops: 1,
+        header: "x-forwarded-for",
+      };
+      const id1 = await getForwardedUserId({
+        trustedProxies,
+        forwardedFor: "10.0.0.1",
+      });
+      const id2 = await getForwardedUserId({
+        trustedProxies,
+        forwardedFor: "10.0.0.2",
+      });
+      assertNotEquals(id1, id2);
+    });
+  });
+
+  await t.step("data streams with multiple outs", async (t) => {
+    const fanOutMatcher = (fan_out_policy: "all" | "any") =>
+      createCollectRequestMatcherFromConfig({
+        ...config,
+        forward: [{
+          ...config.forward[0],
+          data_stream: [{
+            in: { measurement_id: "f_in", api_secret: "f_in_sec" },
+            out: [
+              { measurement_id: "f_out1", api_secret: "f_out1_sec" },
+              {
+                measurement_id: "f_out2",
+                api_secret: "f_out2_sec",
+                destination: "https://other.example.com/mp/collect",
+              },
+            ],
+          }],
+          fan_out_policy,
+        }],
+      }, { kv });
+
+    const stubFetchFailingFor = (failingMeasurementId: string) =>
+      stub(globalThis, "fetch", (input) => {
+        const url = new URL(input instanceof Request ? input.url : input);
+        const status =
+          url.searchParams.get("measurement_id") === failingMeasurementId
+            ? StatusCodes.SERVICE_UNAVAILABLE
+            : StatusCodes.NO_CONTENT;
+        return Promise.resolve(new Response(undefined, { status }));
+      });
+
+    await t.step("forwards requests to each out", async () => {
+      const result = await (await fanOutMatcher("all")).match(
+        createRequest({ measurement_id: "f_in", api_secret: "f_in_sec" }),
+      );
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const urls = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input.url : String(input)
+      );
+      assertEquals(urls.sort(), [
+        "https://example.com/mp/collect?api_secret=f_out1_sec&measurement_id=f_out1",
+        "https://other.example.com/mp/collect?api_secret=f_out2_sec&measurement_id=f_out2",
+      ]);
+    });
+
+    await t.step("fails if any out fails with policy all", async () => {
+      const result = await (await fanOutMatcher("all")).match(
+        createRequest({ measurement_id: "f_in", api_secret: "f_in_sec" }),
+      );
+      assertSuccessful(result);
+
+      using _fetch = stubFetchFailingFor("f_out2");
+      const response = await result.data.respond();
+      assertEquals(response.status, StatusCodes.BAD_GATEWAY);
+    });
+
+    await t.step("succeeds if any out succeeds with policy any", async () => {
+      const result = await (await fanOutMatcher("any")).match(
+        createRequest({ measurement_id: "f_in", api_secret: "f_in_sec" }),
+      );
+      assertSuccessful(result);
+
+      using _fetch = stubFetchFailingFor("f_out2");
+      const response = await result.data.respond();
+      assertResponseOk(response);
+    });
+  });
+
+  await t.step("destination type", async (t) => {
+    await t.step("forwards events to a plausible destination", async () => {
+      const plausibleMatcher = await createCollectRequestMatcherFromConfig({
+        ...config,
+        forward: [{
+          ...config.forward[0],
+          data_stream: [{
+            in: { measurement_id: "p_in", api_secret: "p_in_sec" },
+            out: [{ measurement_id: "example.com", api_secret: "unused" }],
+          }],
+          destination: {
+            type: "plausible",
+            url: "https://plausible.example.com/api/event",
+            event_names: { sign_up: "Signup" },
+          },
+        }],
+      }, { kv });
+      const payload: AnyPayload = {
+        client_id: "test",
+        events: [
+          {
+            name: "page_view",
+            params: { page_location: "https://example.com/page" },
+          },
+          { name: "sign_up", params: { method: "email" } },
+        ],
+      };
+      const { info } = createRequest();
+      const request = new Request(
+        mpCollectUrl({ measurement_id: "p_in", api_secret: "p_in_sec" }),
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+          headers: { "content-type": "application/json" },
+        },
+      );
+
+      const result = await plausibleMatcher.match({ request, info });
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const requests = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      assertEquals(
+        requests.map((r) => r.url),
+        [
+          "https://plausible.example.com/api/event",
+          "https://plausible.example.com/api/event",
+        ],
+      );
+      assertEquals(await requests[0].json(), {
+        name: "pageview",
+        domain: "example.com",
+        url: "https://example.com/page",
+      });
+      assertEquals(await requests[1].json(), {
+        name: "Signup",
+        domain: "example.com",
+        url: "https://example.com/",
+        props: { method: "email" },
+      });
+    });
+  });
+
+  await t.step("consent", async (t) => {
+    const consentMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{
+        ...config.forward[0],
+        consent: {
+          ad_user_data_denied: "forward",
+          ad_personalization_denied: "forward",
+          gpc: "reject",
+          dnt: "drop",
+        },
+      }],
+    }, { kv });
+
+    const consentCases = [
+      ["DNT", StatusCodes.NO_CONTENT],
+      ["Sec-GPC", StatusCodes.BAD_REQUEST],
+    ] as const;
+    for (const [header, status] of consentCases) {
+      await t.step(`does not forward requests with ${header}`, async () => {
+        const requestIn = createRequest({
+          measurement_id: "a_in",
+          api_secret: "a_in_sec1",
+        });
+        requestIn.request.headers.set(header, "1");
+
+        using fetch = stubFetch();
+        const result = await consentMatcher.match(requestIn);
+        assertSuccessful(result);
+        const response = await result.data.respond();
+
+        assertEquals(response.status, status);
+        assertEquals(fetch.calls.length, 0);
+      });
+    }
+  });
+
+  await t.step("pii", async (t) => {
+    const piiMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{
+        ...config.forward[0],
+        allow_debug: true,
+        pii: {
+          email: "redact",
+          phone: "redact",
+          ip: "redact",
+          credit_card: "redact",
+          jwt: "redact",
+        },
+      }],
+    }, { kv });
+    const payload: AnyPayload = {
+      client_id: "test",
+      events: [{
+        name: "sign_up",
+        params: { page_location: "https://example.com/?email=bob@example.com" },
+      }],
+    };
+    const createPiiRequest = (debug: boolean) => {
+      const { info } = createRequest();
+      const request = new Request(
+        mpCollectUrl({
+          measurement_id: "a_in",
+          api_secret: "a_in_sec1",
+          debug,
+        }),
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+          headers: { "content-type": "application/json" },
+        },
+      );
+      return { request, info };
+    };
+
+    await t.step("forwards payloads without PII", async () => {
+      const result = await piiMatcher.match(createPiiRequest(false));
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const [request] = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      const forwarded: AnyPayload = await request.json();
+      assertEquals(
+        forwarded.events[0].params?.page_location,
+        "https://example.com/?email=[redacted]",
+      );
+    });
+
+    await t.step("reports PII to debug requests", async () => {
+      const result = await piiMatcher.match(createPiiRequest(true));
+      assertSuccessful(result);
+
+      using _fetch = stubFetch();
+      const response = await result.data.respond();
+
+      assertEquals(response.status, StatusCodes.OK);
+      assertEquals(await response.json(), {
+        pii_findings: [{
+          path: "events[0].params.page_location",
+          pattern: "email",
+          action: "redact",
+        }],
+      });
+    });
+  });
+
+  await t.step("validation", async (t) => {
+    const validationMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{
+        ...config.forward[0],
+        allow_debug: true,
+        validation: "drop-invalid",
+      }],
+    }, { kv });
+    const payload = {
+      client_id: "test",
+      events: [
+        { name: "session_start" },
+        { name: "sign_up", params: { method: "email", bad: "x".repeat(101) } },
+      ],
+    };
+    const createInvalidRequest = (debug: boolean) => {
+      const { info } = createRequest();
+      const request = new Request(
+        mpCollectUrl({
+          measurement_id: "a_in",
+          api_secret: "a_in_sec1",
+          debug,
+        }),
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+          headers: { "content-type": "application/json" },
+        },
+      );
+      return { request, info };
+    };
+
+    await t.step("forwards the valid parts of payloads", async () => {
+      const result = await validationMatcher.match(createInvalidRequest(false));
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      using _warn = stub(console, "warn");
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const [request] = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      const forwarded: AnyPayload = await request.json();
+      assertEquals(forwarded.events, [
+        { name: "sign_up", params: { method: "email" } },
+      ]);
+    });
+
+    await t.step("reports dropped items to debug requests", async () => {
+      const result = await validationMatcher.match(createInvalidRequest(true));
+      assertSuccessful(result);
+
+      using _fetch = stubFetch();
+      using _warn = stub(console, "warn");
+      const response = await result.data.respond();
+
+      assertEquals(response.status, StatusCodes.OK);
+      const { dropped_items } = await response.json();
+      assertEquals(
+        dropped_items.map(({ path }: { path: unknown }) => path),
+        [["events", 0], ["events", 1, "params", "bad"]],
+      );
+    });
+
+    await t.step("rejects invalid payloads by default", async () => {
+      const result = await matcher.match(createInvalidRequest(false));
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertEquals(response.status, StatusCodes.BAD_REQUEST);
+      assertEquals(fetch.calls.length, 0);
+    });
+  });
+
+  await t.step("recommended_events", async (t) => {
+    const recommendedMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{ ...config.forward[0], recommended_events: true }],
+    }, { kv });
+    const createPurchaseRequest = () => {
+      const { info } = createRequest();
+      const request = new Request(
+        mpCollectUrl({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+        {
+          method: "POST",
+          body: JSON.stringify({
+            client_id: "test",
+            events: [{
+              name: "purchase",
+              params: { currency: "usd", items: [{ price: 1 }] },
+            }],
+          }),
+          headers: { "content-type": "application/json" },
+        },
+      );
+      return { request, info };
+    };
+
+    await t.step("rejects invalid recommended events", async () => {
+      const result = await recommendedMatcher.match(createPurchaseRequest());
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertEquals(response.status, StatusCodes.BAD_REQUEST);
+      assertEquals(fetch.calls.length, 0);
+    });
+
+    await t.step("accepts them by default", async () => {
+      const result = await matcher.match(createPurchaseRequest());
+      assertSuccessful(result);
+
+      using _fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+    });
+  });
+
+  await t.step("events", async (t) => {
+    const eventsConfig: Config = {
+      ...config,
+      forward: [{
+        ...config.forward[0],
+        events: {
+          sign_up: {
+            properties: { method: { type: "string", enum: ["email"] } },
+            required: ["method"],
+          },
+        },
+      }],
+    };
+    const createEventsRequest = (events: unknown[]) => {
+      const { info } = createRequest();
+      const request = new Request(
+        mpCollectUrl({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+        {
+          method: "POST",
+          body: JSON.stringify({ client_id: "test", events }),
+          headers: { "content-type": "application/json" },
+        },
+      );
+      return { request, info };
+    };
+
+    await t.step("forwards defined events", async () => {
+      const matcher = await createCollectRequestMatcherFromConfig(
+        eventsConfig,
+        { kv },
+      );
+      const result = await matcher.match(
+        createEventsRequest([{ name: "sign_up", params: { method: "email" } }]),
+      );
+      assertSuccessful(result);
+
+      using _fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+    });
+
+    await t.step("rejects events that are not defined", async () => {
+      const matcher = await createCollectRequestMatcherFromConfig(
+        eventsConfig,
+        { kv },
+      );
+      for (
+        const event of [
+          { name: "login" },
+          { name: "sign_up" },
+          { name: "sign_up", params: { method: "phone" } },
+        ]
+      ) {
+        const result = await matcher.match(createEventsRequest([event]));
+        assertSuccessful(result);
+
+        using fetch = stubFetch();
+        const response = await result.data.respond();
+        assertEquals(response.status, StatusCodes.BAD_REQUEST);
+        assertEquals(fetch.calls.length, 0);
+      }
+    });
+
+    await t.step("drops events that are not defined", async () => {
+      const matcher = await createCollectRequestMatcherFromConfig({
+        ...eventsConfig,
+        forward: [{ ...eventsConfig.forward[0], validation: "drop-invalid" }],
+      }, { kv });
+      const result = await matcher.match(createEventsRequest([
+        { name: "login" },
+        { name: "sign_up", params: { method: "email" } },
+      ]));
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      using _warn = stub(console, "warn");
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const [request] = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      const forwarded: AnyPayload = await request.json();
+      assertEquals(forwarded.events, [
+        { name: "sign_up", params: { method: "email" } },
+      ]);
+    });
+  });
+
+  await t.step("transforms", async () => {
+    const transformsMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{
+        ...config.forward[0],
+        transforms: [{
+          match: { event: "login" },
+          actions: [
+            { action: "set", field: "name", value: "sign_in" },
+            {
+              action: "rename",
+              from: "params.plan",
+              to: "user_properties.plan",
+            },
+          ],
+        }],
+      }],
+    }, { kv });
+    const { info } = createRequest();
+    const request = new Request(
+      mpCollectUrl({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+      {
+        method: "POST",
+        body: JSON.stringify({
+          client_id: "test",
+          events: [{ name: "login", params: { plan: "pro" } }],
+        }),
+        headers: { "content-type": "application/json" },
+      },
+    );
+    const result = await transformsMatcher.match({ request, info });
+    assertSuccessful(result);
+
+    using fetch = stubFetch();
+    const response = await result.data.respond();
+    assertResponseOk(response);
+
+    const [forwardedRequest] = fetch.calls.map(({ args: [input] }) =>
+      input instanceof Request ? input : new Request(input)
+    );
+    const forwarded: AnyPayload = await forwardedRequest.json();
+    assertEquals(forwarded.events, [{ name: "sign_in", params: {} }]);
+    assertEquals(forwarded.user_properties, { plan: { value: "pro" } });
+  });
+
+  await t.step("allow_events and deny_events", async (t) => {
+    const eventFilterMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{
+        ...config.forward[0],
+        data_stream: [
+          {
+            in: {
+              measurement_id: "a_in",
+              api_secret: "a_in_sec1",
+              allow_events: ["page_view", "ads_*"],
+              deny_events: [/^ads_test_/],
+            },
+            out: [{ measurement_id: "a_out", api_secret: "a_out_sec" }],
+          },
+          {
+            in: {
+              measurement_id: "b_in",
+              api_secret: "b_in_sec",
+              deny_events: ["debug"],
+              disallowed_events: "reject",
+            },
+            out: [{ measurement_id: "b_out", api_secret: "b_out_sec" }],
+          },
+        ],
+      }],
+    }, { kv });
+
+    const createEventsRequest = (
+      { measurement_id, api_secret }: {
+        measurement_id: string;
+        api_secret: string;
+      },
+    ) =>
+      new Request(mpCollectUrl({ measurement_id, api_secret }), {
+        method: "POST",
+        body: JSON.stringify({
+          client_id: "test",
+          events: [
+            { name: "page_view" },
+            { name: "ads_click" },
+            { name: "ads_test_click" },
+            { name: "debug" },
+          ],
+        }),
+        headers: { "content-type": "application/json" },
+      });
+
+    await t.step("drops events that are not allowed", async () => {
+      using _warn = stub(console, "warn");
+      const { info } = createRequest();
+      const request = createEventsRequest({
+        measurement_id: "a_in",
+        api_secret: "a_in_sec1",
+      });
+      const result = await eventFilterMatcher.match({ request, info });
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const [forwardedRequest] = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      const forwarded: AnyPayload = await forwardedRequest.json();
+      assertEquals(forwarded.events.map(({ name }) => name), [
+        "page_view",
+        "ads_click",
+      ]);
+    });
+
+    await t.step(
+      "rejects payloads with events that are not allowed",
+      async () => {
+        const { info } = createRequest();
+        const request = createEventsRequest({
+          measurement_id: "b_in",
+          api_secret: "b_in_sec",
+        });
+        const result = await eventFilterMatcher.match({ request, info });
+        assertSuccessful(result);
+
+        using fetch = stubFetch();
+        const response = await result.data.respond();
+        assertEquals(response.status, StatusCodes.BAD_REQUEST);
+        assertEquals(fetch.calls.length, 0);
+      },
+    );
+  });
+
+  await t.step("bots", async (t) => {
+    const createBotsMatcher = (bots: BotsConfig) =>
+      createCollectRequestMatcherFromConfig({
+        ...config,
+        forward: [{ ...config.forward[0], bots }],
+      }, { kv });
+    const createBotRequest = (
+      userAgent = "Mozilla/5.0 (compatible; Googlebot/2.1)",
+    ) =>
+      new Request(
+        mpCollectUrl({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+        {
+          method: "POST",
+          body: JSON.stringify({
+            client_id: "test",
+            events: [{ name: "page_view" }],
+          }),
+          headers: {
+            "content-type": "application/json",
+            "User-Agent": userAgent,
+            "Accept-Language": "en-GB",
+          },
+        },
+      );
+
+    await t.step("drop", async () => {
+      const botsMatcher = await createBotsMatcher({
+        action: "drop",
+        http_clients: false,
+      });
+      const { info } = createRequest();
+      const result = await botsMatcher.match({
+        request: createBotRequest(),
+        info,
+      });
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertEquals(response.status, StatusCodes.NO_CONTENT);
+      assertEquals(fetch.calls.length, 0);
+    });
+
+    await t.step("tag", async () => {
+      const botsMatcher = await createBotsMatcher({
+        action: "tag",
+        http_clients: false,
+      });
+      const { info } = createRequest();
+      const result = await botsMatcher.match({
+        request: createBotRequest(),
+        info,
+      });
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const [forwardedRequest] = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      const forwarded: AnyPayload = await forwardedRequest.json();
+      assertEquals(forwarded.events, [
+        { name: "page_view", params: { traffic_type: "bot" } },
+      ]);
+    });
+
+    await t.step("http_clients", async () => {
+      for (const http_clients of [false, true]) {
+        const botsMatcher = await createBotsMatcher({
+          action: "drop",
+          http_clients,
+        });
+        const { info } = createRequest();
+        const result = await botsMatcher.match({
+          request: createBotRequest("curl/8.5.0"),
+          info,
+        });
+        assertSuccessful(result);
+
+        using fetch = stubFetch();
+        await result.data.respond();
+        assertEquals(fetch.calls.length, http_clients ? 0 : 1);
+      }
+    });
+  });
+
+  await t.step("content_types", async (t) => {
+    const contentTypesMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{ ...config.forward[0], content_types: ["text/plain"] }],
+    }, { kv });
+    const createBeaconRequest = (contentType: string): HandlerRequest => {
+      const { info } = createRequest();
+      const request = new Request(
+        mpCollectUrl({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+        {
+          method: "POST",
+          body: JSON.stringify({ client_id: "test", events: [] }),
+          headers: { "content-type": contentType },
+        },
+      );
+      return { request, info };
+    };
+
+    await t.step("accepts configured content types", async () => {
+      const result = await contentTypesMatcher.match(
+        createBeaconRequest("text/plain;charset=UTF-8"),
+      );
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+      assertEquals(fetch.calls.length, 1);
+    });
+
+    await t.step("rejects other content types", async () => {
+      const result = await contentTypesMatcher.match(
+        createBeaconRequest("application/json"),
+      );
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertEquals(response.status, StatusCodes.NOT_ACCEPTABLE);
+      assertEquals(fetch.calls.length, 0);
+    });
+  });
+
+  await t.step("pixel requests", async (t) => {
+    const createPixelRequest = (query: string): HandlerRequest => {
+      const { info } = createRequest();
+      const request = new Request(
+        `https://stats.example.com/mp/pixel.gif?measurement_id=a_in&api_secret=a_in_sec1&${query}`,
+      );
+      return { request, info };
+    };
+
+    await t.step("forwards the encoded event", async () => {
+      const result = await matcher.match(
+        createPixelRequest("cid=123&en=email_open&ep.campaign=spring"),
+      );
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+
+      assertEquals(response.status, StatusCodes.OK);
+      assertEquals(response.headers.get("content-type"), "image/gif");
+      const [request] = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      const forwarded: AnyPayload = await request.json();
+      assertEquals(forwarded.events, [{
+        name: "email_open",
+        params: { campaign: "spring" },
+      }]);
+    });
+
+    await t.step("responds with an image to invalid events", async () => {
+      const result = await matcher.match(createPixelRequest("en=email_open"));
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+
+      assertEquals(response.status, StatusCodes.OK);
+      assertEquals(response.headers.get("content-type"), "image/gif");
+      assertEquals(fetch.calls.length, 0);
+    });
+  });
+
+  await t.step("gtag requests", async (t) => {
+    const gtagMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{ ...config.forward[0], allow_gtag: true }],
+    }, { kv });
+    const createGtagRequest = (measurementId: string): HandlerRequest => {
+      const { info } = createRequest();
+      const request = new Request(
+        `https://stats.example.com/g/collect?v=2&tid=${measurementId}&cid=123&_p=1`,
+        { method: "POST", body: "en=page_view&dt=Home\nen=scroll" },
+      );
+      return { request, info };
+    };
+
+    await t.step("forwards events when allowed", async () => {
+      const result = await gtagMatcher.match(createGtagRequest("a_in"));
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const [request] = fetch.calls.map(({ args: [input] }) =>
+        input instanceof Request ? input : new Request(input)
+      );
+      assertEquals(
+        new URL(request.url).searchParams.get("api_secret"),
+        "a_out_sec",
+      );
+      const forwarded: AnyPayload = await request.json();
+      assertEquals(forwarded.events, [
+        { name: "page_view", params: { page_title: "Home" } },
+        { name: "scroll" },
+      ]);
+    });
+
+    await t.step("does not match when not allowed", async () => {
+      const result = await matcher.match(createGtagRequest("a_in"));
+      assertUnsuccessful(result);
+      assertEquals(result.error, { name: "not-authorised" });
+    });
+  });
+
+  await t.step("batch requests", async () => {
+    const { info } = createRequest();
+    const payload = (name: string) =>
+      JSON.stringify({ client_id: "c1", events: [{ name }] });
+    const request = new Request(
+      "https://stats.example.com/mp/batch?measurement_id=a_in&api_secret=a_in_sec1",
+      {
+        method: "POST",
+        body: [payload("first"), "{", "", payload("second")].join("\n"),
+      },
+    );
+    const result = await matcher.match({ request, info });
+    assertSuccessful(result);
+
+    using fetch = stubFetch();
+    const response = await result.data.respond();
+
+    assertEquals(response.status, StatusCodes.OK);
+    assertEquals(await response.json(), [
+      { line: 1, status: StatusCodes.NO_CONTENT },
+      {
+        line: 2,
+        status: StatusCodes.BAD_REQUEST,
+        error: "Body is not valid JSON",
+      },
+      { line: 4, status: StatusCodes.NO_CONTENT },
+    ]);
+    const forwarded = await Promise.all(
+      fetch.calls.map(async ({ args: [input] }) => {
+        const request = input instanceof Request ? input : new Request(input);
+        return ((await request.json()) as AnyPayload).events[0].name;
+      }),
+    );
+    assertEquals(forwarded.toSorted(), ["first", "second"]);
+  });
+
+  await t.step("max_body_bytes", async () => {
+    const maxBodyBytesMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{ ...config.forward[0], max_body_bytes: 10 }],
+    }, { kv });
+    const result = await maxBodyBytesMatcher.match(
+      createRequest({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+    );
+    assertSuccessful(result);
+
+    using fetch = stubFetch();
+    const response = await result.data.respond();
+    assertEquals(response.status, StatusCodes.REQUEST_TOO_LONG);
+    assertEquals(fetch.calls.length, 0);
+  });
+
+  await t.step("split_events", async (t) => {
+    const createLargeRequest = (): HandlerRequest => {
+      const { info } = createRequest();
+      const payload: AnyPayload = {
+        client_id: "c1",
+        events: Array.from({ length: 30 }, (_, i) => ({ name: `e${i}` })),
+      };
+      const request = new Request(
+        mpCollectUrl({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+          headers: { "content-type": "application/json" },
+        },
+      );
+      return { request, info };
+    };
+
+    await t.step(
+      "rejects payloads with too many events by default",
+      async () => {
+        const result = await matcher.match(createLargeRequest());
+        assertSuccessful(result);
+
+        using fetch = stubFetch();
+        const response = await result.data.respond();
+        assertEquals(response.status, StatusCodes.BAD_REQUEST);
+        assertEquals(fetch.calls.length, 0);
+      },
+    );
+
+    await t.step("splits payloads with too many events", async () => {
+      const splitMatcher = await createCollectRequestMatcherFromConfig({
+        ...config,
+        forward: [{ ...config.forward[0], split_events: true }],
+      }, { kv });
+      const result = await splitMatcher.match(createLargeRequest());
+      assertSuccessful(result);
+
+      using fetch = stubFetch();
+      const response = await result.data.respond();
+      assertResponseOk(response);
+
+      const forwarded: AnyPayload[] = await Promise.all(
+        fetch.calls.map(({ args: [input] }) =>
+          (input instanceof Request ? input : new Request(input)).json()
+        ),
+      );
+      assertEquals(forwarded.map((p) => p.events.length), [25, 5]);
+      assertEquals(
+        forwarded.flatMap((p) => p.events.map((e) => e.name)),
+        Array.from({ length: 30 }, (_, i) => `e${i}`),
+      );
+      assertEquals(forwarded[0].client_id, forwarded[1].client_id);
+    });
+  });
+
+  await t.step("urls", async () => {
+    const urlsMatcher = await createCollectRequestMatcherFromConfig({
+      ...config,
+      forward: [{
+        ...config.forward[0],
+        urls: {
+          params: ["page_location"],
+          query_params: "strip",
+          keep_fragment: false,
+          collapse_ids: true,
+        },
+        pii: {
+          email: "redact",
+          phone: "redact",
+          ip: "redact",
+          credit_card: "redact",
+          jwt: "redact",
+        },
+      }],
+    }, { kv });
+    const { info } = createRequest();
+    const request = new Request(
+      mpCollectUrl({ measurement_id: "a_in", api_secret: "a_in_sec1" }),
+      {
+        method: "POST",
+        body: JSON.stringify({
+          client_id: "test",
+          events: [{
+            name: "page_view",
+            params: {
+              page_location:
+                "https://example.com/users/123?email=bob@example.com#top",
+            },
+          }],
+        }),
+        headers: { "content-type": "application/json" },
+      },
+    );
+
+    const result = await urlsMatcher.match({ request, info });
+    assertSuccessful(result);
+
+    using fetch = stubFetch();
+    const response = await result.data.respond();
+    assertResponseOk(response);
+
+    const [forwardedRequest] = fetch.calls.map(({ args: [input] }) =>
+      input instanceof Request ? input : new Request(input)
+    );
+    const forwarded: AnyPayload = await forwardedRequest.json();
+    assertEquals(
+      forwarded.events[0].params?.page_location,
+      "https://example.com/users/:id",
+    );
+  });
+
+  await t.step("file_sink", async (t) => {
+    const fileSinkMatcher = (directory: string, only: boolean) =>
+      createCollectRequestMatcherFromConfig({
+        ...config,
+        forward: [{
+          ...config.forward[0],
+          allow_gtag: true,
+          file_sink: {
+            directory,
+            rotation: "daily",
+            max_bytes: 1000,
+            gzip: false,
+            only,
+          },
+        }],
+      }, { kv });
+
+    async function readRecords(
+      directory: string,
+    ): Promise<FileSinkRecord<AnyPayload>[]> {
+      const records = [];
+      for await (const entry of Deno.readDir(directory)) {
+        const text = await Deno.readTextFile(`${directory}/${entry.name}`);
+        records.push(...text.trim().split("\n").map((l) => JSON.parse(l)));
+      }
+      return records;
+    }
+
+    for (const only of [false, true]) {
+      await t.step(
+        `writes payloads ${only ? "instead of" : "after"} forwarding them`,
+        async () => {
+          const directory = await Deno.makeTempDir();
+          try {
+            using _time = new FakeTime(date("2024-01-02T03:04:05Z"));
+            const matcher_ = await fileSinkMatcher(directory, only);
+            const result = await matcher_.match(
+              createRequest({
+                measurement_id: "a_in",
+                api_secret: "a_in_sec1",
+              }),
+            );
+            assertSuccessful(result);
+
+            using fetch = stubFetch();
+            const response = await result.data.respond();
+            assertResponseOk(response);
+
+            assertEquals(fetch.calls.length, only ? 0 : 1);
+            const [record, ...others] = await readRecords(directory);
+            assertEquals(others, []);
+            const { payload, ...meta } = record;
+            assertEquals(meta, {
+              received: "2024-01-02T03:04:05.000Z",
+              measurement_id: "a_in",
+              outcome: null,
+            });
+            // payloads are recorded after anonymisation
+            assertUuid(payload.user_id);
+          } finally {
+            await Deno.remove(directory, { recursive: true });
+          }
+        },
+      );
+    }
+
+    await t.step("records the measurement_id of gtag requests", async () => {
+      const directory = await Deno.makeTempDir();
+      try {
+        const matcher_ = await fileSinkMatcher(directory, true);
+        const result = await matcher_.match({
+          request: new Request(
+            "https://stats.example.com/g/collect?v=2&tid=a_in&cid=123&_p=1",
+            { method: "POST", body: "en=page_view" },
+          ),
+          info: createRequest().info,
+        });
+        assertSuccessful(result);
+
+        const response = await result.data.respond();
+        assertResponseOk(response);
+
+        const records = await readRecords(directory);
+        assertEquals(records.map((r) => r.measurement_id), ["a_in"]);
+      } finally {
+        await Deno.remove(directory, { recursive: true });
+      }
+    });
+  });
+
   await t.step("CORS / OPTIONS requests", async (t) => {
     async function sendOptionsRequest(
       request: HandlerRequest,
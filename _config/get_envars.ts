@@ -1,12 +1,20 @@
 import { type Error, type Result } from "../_misc.ts";
 import { Config } from "./json_schema.ts";
 import { simplifyConfig } from "./simplify.ts";
-import { ConfigValueEnvarName } from "./env_schema.ts";
+import {
+  ConfigValueEnvarName,
+  formatEventNamesEnvar,
+  formatUrlQueryParamsEnvar,
+  formatUserIdComponentsEnvar,
+} from "./env_schema.ts";
 import { formatIsoInterval } from "./lifetimes.ts";
 
 export type GetEnvarsError =
   | Error<"multiple-forward">
-  | Error<"multiple-data-stream">;
+  | Error<"multiple-data-stream">
+  | Error<"multiple-data-stream-out">
+  | Error<"events">
+  | Error<"transforms">;
 
 /** Get the environment variable representation of a config, if possible. */
 export function getEnvars(
@@ -21,6 +29,16 @@ export function getEnvars(
     return { success: false, error: { name: "multiple-data-stream" } };
   }
   const data_stream = forward.data_stream;
+  const out = "out" in data_stream ? data_stream.out : undefined;
+  if (Array.isArray(out)) {
+    return { success: false, error: { name: "multiple-data-stream-out" } };
+  }
+  if (forward.events) {
+    return { success: false, error: { name: "events" } };
+  }
+  if (forward.transforms) {
+    return { success: false, error: { name: "transforms" } };
+  }
 
   // Lifetimes with from dates are kept as objects for JSON output, but we
   // need a string, so we format them as an ISO interval.
@@ -28,28 +46,111 @@ export function getEnvars(
     ? formatIsoInterval(config.forward[0].user_id.lifetime)
     : forward.user_id?.lifetime;
 
+  // Components are a single list when represented as an envar, so we output
+  // all of them if any differ from the defaults.
+  const components = forward.user_id?.components;
+  const componentsEnvar = components &&
+      (components.ip !== undefined || components.user_agent !== undefined ||
+        components.accept_language !== undefined ||
+        components.headers !== undefined)
+    ? formatUserIdComponentsEnvar(config.forward[0].user_id.components!)
+    : undefined;
+
+  const destination = typeof forward.destination === "string"
+    ? { url: forward.destination, type: undefined, event_names: undefined }
+    : forward.destination;
+  const bots = typeof forward.bots === "string"
+    ? { action: forward.bots, http_clients: undefined }
+    : forward.bots;
+
   const env: Partial<Record<ConfigValueEnvarName, string>> = {
     ANONYSTAT_USER_ID_LIFETIME: lifetime,
     ANONYSTAT_USER_ID_EXISTING: forward.user_id?.existing,
+    ANONYSTAT_CLIENT_ID_EXISTING: forward.user_id?.client_id,
+    ANONYSTAT_USER_ID_COMPONENTS: componentsEnvar,
+    ANONYSTAT_USER_ID_IPV4_PREFIX: stringOrUndefined(components?.ipv4_prefix),
+    ANONYSTAT_USER_ID_IPV6_PREFIX: stringOrUndefined(components?.ipv6_prefix),
     ANONYSTAT_USER_ID_SCRAMBLING_SECRET: forward.user_id?.scrambling_secret ??
       undefined,
     ANONYSTAT_ALLOW_DEBUG: stringOrUndefined(forward.allow_debug),
-    ANONYSTAT_DESTINATION: forward.destination,
+    ANONYSTAT_ALLOW_GTAG: stringOrUndefined(forward.allow_gtag),
+    ANONYSTAT_CONTENT_TYPES: stringOrUndefined(forward.content_types),
+    ANONYSTAT_MAX_BODY_BYTES: stringOrUndefined(forward.max_body_bytes),
+    ANONYSTAT_SPLIT_EVENTS: stringOrUndefined(forward.split_events),
+    ANONYSTAT_VALIDATION: forward.validation,
+    ANONYSTAT_RECOMMENDED_EVENTS: stringOrUndefined(forward.recommended_events),
+    // A single out data stream's destination is the only one used
+    ANONYSTAT_DESTINATION: out?.destination ?? destination?.url,
+    ANONYSTAT_DESTINATION_TYPE: destination?.type,
+    ANONYSTAT_DESTINATION_EVENT_NAMES: destination?.event_names &&
+      formatEventNamesEnvar(destination.event_names),
     ANONYSTAT_LISTEN_HOSTNAME: simplified.listen?.hostname,
     ANONYSTAT_LISTEN_PORT: stringOrUndefined(simplified.listen?.port),
+    ANONYSTAT_LISTEN_TRUSTED_PROXIES: stringOrUndefined(
+      simplified.listen?.trusted_proxies?.addresses,
+    ),
+    ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS: stringOrUndefined(
+      simplified.listen?.trusted_proxies?.hops,
+    ),
+    ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER: simplified.listen?.trusted_proxies
+      ?.header,
     ANONYSTAT_CORS_ALLOW_ORIGIN: stringOrUndefined(forward.cors?.allow_origin),
     ANONYSTAT_CORS_MAX_AGE: stringOrUndefined(forward.cors?.max_age),
+    ANONYSTAT_QUEUE: forward.queue ? "true" : undefined,
+    ANONYSTAT_QUEUE_RETRIES: stringOrUndefined(forward.queue?.retries),
+    ANONYSTAT_RETRY: forward.retry ? "true" : undefined,
+    ANONYSTAT_RETRY_MAX_ATTEMPTS: stringOrUndefined(
+      forward.retry?.max_attempts,
+    ),
+    ANONYSTAT_RETRY_INITIAL_DELAY: stringOrUndefined(
+      forward.retry?.initial_delay,
+    ),
+    ANONYSTAT_RETRY_MAX_DELAY: stringOrUndefined(forward.retry?.max_delay),
+    ANONYSTAT_RETRY_ON: stringOrUndefined(forward.retry?.on),
+    ANONYSTAT_UPSTREAM_TIMEOUT: stringOrUndefined(forward.upstream_timeout),
+    ANONYSTAT_FILE_SINK_DIRECTORY: forward.file_sink?.directory,
+    ANONYSTAT_FILE_SINK_ROTATION: forward.file_sink?.rotation,
+    ANONYSTAT_FILE_SINK_MAX_BYTES: stringOrUndefined(
+      forward.file_sink?.max_bytes,
+    ),
+    ANONYSTAT_FILE_SINK_GZIP: stringOrUndefined(forward.file_sink?.gzip),
+    ANONYSTAT_FILE_SINK_ONLY: stringOrUndefined(forward.file_sink?.only),
+    ANONYSTAT_CONSENT_AD_USER_DATA_DENIED: forward.consent?.ad_user_data_denied,
+    ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED: forward.consent
+      ?.ad_personalization_denied,
+    ANONYSTAT_CONSENT_GPC: forward.consent?.gpc,
+    ANONYSTAT_CONSENT_DNT: forward.consent?.dnt,
+    ANONYSTAT_PII: forward.pii ? "true" : undefined,
+    ANONYSTAT_PII_EMAIL: forward.pii?.email,
+    ANONYSTAT_PII_PHONE: forward.pii?.phone,
+    ANONYSTAT_PII_IP: forward.pii?.ip,
+    ANONYSTAT_PII_CREDIT_CARD: forward.pii?.credit_card,
+    ANONYSTAT_PII_JWT: forward.pii?.jwt,
+    ANONYSTAT_URLS: forward.urls ? "true" : undefined,
+    ANONYSTAT_URLS_PARAMS: stringOrUndefined(forward.urls?.params),
+    ANONYSTAT_URLS_QUERY_PARAMS: forward.urls?.query_params &&
+      formatUrlQueryParamsEnvar(forward.urls.query_params),
+    ANONYSTAT_URLS_KEEP_FRAGMENT: stringOrUndefined(
+      forward.urls?.keep_fragment,
+    ),
+    ANONYSTAT_URLS_COLLAPSE_IDS: stringOrUndefined(forward.urls?.collapse_ids),
+    ANONYSTAT_BOTS: bots?.action,
+    ANONYSTAT_BOTS_HTTP_CLIENTS: stringOrUndefined(bots?.http_clients),
   };
 
+  const dsIn = "in" in data_stream ? data_stream.in : data_stream;
+  env.ANONYSTAT_DATA_STREAM_ALLOW_EVENTS = dsIn.allow_events?.join(",");
+  env.ANONYSTAT_DATA_STREAM_DENY_EVENTS = dsIn.deny_events?.join(",");
+  env.ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS = dsIn.disallowed_events;
+
   if ("measurement_id" in data_stream) {
     env.ANONYSTAT_DATA_STREAM_MEASUREMENT_ID = data_stream.measurement_id;
     env.ANONYSTAT_DATA_STREAM_API_SECRET = data_stream.api_secret;
   } else {
     env.ANONYSTAT_DATA_STREAM_IN_MEASUREMENT_ID = data_stream.in.measurement_id;
     env.ANONYSTAT_DATA_STREAM_IN_API_SECRET = data_stream.in.api_secret;
-    env.ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID =
-      data_stream.out.measurement_id;
-    env.ANONYSTAT_DATA_STREAM_OUT_API_SECRET = data_stream.out.api_secret;
+    env.ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID = out?.measurement_id;
+    env.ANONYSTAT_DATA_STREAM_OUT_API_SECRET = out?.api_secret;
   }
 
   return { success: true, data: env };
@@ -1,4 +1,4 @@
-import { assertSuccessful } from "../_testing.ts";
+import { assertSuccessful, assertUnsuccessful } from "../_testing.ts";
 import { assertEquals } from "../dev_deps.ts";
 import { ConfigValueEnvarName, configValueEnvarNames } from "./env_schema.ts";
 import { getEnvars } from "./get_envars.ts";
@@ -18,20 +18,83 @@ function getConfig({ identicalInOut }: { identicalInOut: boolean }): Config {
             allow_origin: ["https://example.com"],
             max_age: 3600,
           },
+          allow_events: ["page_view", "ads_*"],
+          deny_events: [/^ads_test_/],
+          disallowed_events: "reject",
         },
-        out: { api_secret: c, measurement_id: d },
+        out: [{ api_secret: c, measurement_id: d }],
       }],
       allow_debug: true,
-      destination: "https://example.com/mp/collect",
+      fan_out_policy: "all",
+      content_types: ["text/plain", "application/x-www-form-urlencoded"],
+      allow_gtag: true,
+      split_events: true,
+      validation: "drop-invalid",
+      recommended_events: true,
+      destination: {
+        type: "plausible",
+        url: "https://example.com/api/event",
+        event_names: { page_view: "view" },
+      },
+      queue: { retries: 2 },
+      retry: {
+        max_attempts: 5,
+        initial_delay: 0.5,
+        max_delay: 10,
+        on: ["timeout"],
+      },
+      upstream_timeout: 2.5,
+      max_body_bytes: 65536,
+      file_sink: {
+        directory: "/var/lib/anonystat",
+        rotation: "size",
+        max_bytes: 1000000,
+        gzip: true,
+        only: true,
+      },
+      consent: {
+        ad_user_data_denied: "anonymise",
+        ad_personalization_denied: "drop",
+        gpc: "reject",
+        dnt: "drop",
+      },
+      pii: {
+        email: "hash",
+        phone: "keep",
+        ip: "drop_param",
+        credit_card: "drop_event",
+        jwt: "keep",
+      },
+      urls: {
+        params: ["shared_url"],
+        query_params: ["lang"],
+        keep_fragment: true,
+        collapse_ids: true,
+      },
+      bots: { action: "drop", http_clients: true },
       user_id: {
         existing: "keep",
+        client_id: "scramble",
         lifetime: { count: 1, unit: "weeks" },
         scrambling_secret: "foo",
+        components: {
+          ip: true,
+          user_agent: false,
+          accept_language: true,
+          headers: ["sec-ch-ua-platform"],
+          ipv4_prefix: 24,
+          ipv6_prefix: 48,
+        },
       },
     }],
     listen: {
       hostname: "example",
       port: 1234,
+      trusted_proxies: {
+        addresses: ["10.0.0.0/8"],
+        hops: 2,
+        header: "forwarded",
+      },
     },
   };
 }
@@ -74,4 +137,24 @@ Deno.test("getEnvars()", async (t) => {
       assertEquals(getEnvarNamesWithValues(result.data), expectedEnvars);
     });
   });
+
+  await t.step("cannot represent event definitions", () => {
+    const config = getConfig({ identicalInOut: true });
+    config.forward[0].events = { sign_up: {} };
+
+    const result = getEnvars(config);
+
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "events");
+  });
+
+  await t.step("cannot represent transforms", () => {
+    const config = getConfig({ identicalInOut: true });
+    config.forward[0].transforms = [{ actions: [{ action: "drop-event" }] }];
+
+    const result = getEnvars(config);
+
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "transforms");
+  });
 });
@@ -1,10 +1,13 @@
 import { oneOrMore } from "../_zod.ts";
-import { ExistingIdPolicy, TimeUnit } from "../anonymisation.ts";
+import { ConsentAction, ExistingIdPolicy, TimeUnit } from "../anonymisation.ts";
 import { GA4MP_URL } from "../constants.ts";
 import { z } from "../deps.ts";
 import {
   DestinationUrl,
+  EventNamePattern,
+  HeaderName,
   Host,
+  IpNetworkString,
   NonEmptyString,
   Port,
   ScramblerKey,
@@ -21,6 +24,30 @@ import {
   WildcardSchema,
 } from "./cors_schemas.ts";
 import { Wildcard } from "../_cors.ts";
+import { X_FORWARDED_FOR_HEADER } from "../_client_address.ts";
+import {
+  DEFAULT_FORWARD_QUEUE_RETRIES,
+  MAX_FORWARD_QUEUE_RETRIES,
+} from "../queue.ts";
+import { RetryableErrorName } from "../retry.ts";
+import { FanOutPolicy } from "../fan_out.ts";
+import { ValidationMode } from "../validation.ts";
+import { EventDefinitions } from "../custom_events.ts";
+import { TransformRule } from "../transforms.ts";
+import { DisallowedEventsAction } from "../event_filter.ts";
+import { BotAction } from "../bots.ts";
+import { BackendType, DEFAULT_BACKEND_URLS } from "../backends.ts";
+import {
+  DEFAULT_ROTATING_FILE_MAX_BYTES,
+  FileSinkRotation,
+} from "../file_sink.ts";
+import { PiiAction } from "../pii.ts";
+import { ParameterName } from "../payload_schemas.ts";
+import {
+  DEFAULT_REQUEST_CONTENT_TYPES,
+  RequestContentType,
+} from "../default.ts";
+import { DEFAULT_URL_PARAMS, QueryParamsPolicy } from "../url_sanitiser.ts";
 
 export const DEFAULT_CORS_MAX_AGE = 5 * 60;
 
@@ -54,19 +81,35 @@ export const DataStreamCredentials = z.object({
 
 export const InDataStreamCredentials = DataStreamCredentials.extend({
   cors: Cors.optional(),
+  /** The events that can be sent to this data stream. Default is all events. */
+  allow_events: z.array(EventNamePattern).optional(),
+  /** The events that can't be sent to this data stream. */
+  deny_events: z.array(EventNamePattern).optional(),
+  /** What to do with payloads that have events that are not allowed. Default
+   * is `drop`. */
+  disallowed_events: DisallowedEventsAction.optional(),
+});
+export type InDataStreamCredentials = z.infer<typeof InDataStreamCredentials>;
+
+export const OutDataStreamCredentials = DataStreamCredentials.extend({
+  /** Overrides the forward destination for this data stream. */
+  destination: DestinationUrl.optional(),
 });
+export type OutDataStreamCredentials = z.infer<
+  typeof OutDataStreamCredentials
+>;
 
 export const DataStreamInOut = z.object({
   in: InDataStreamCredentials,
-  out: DataStreamCredentials,
+  out: oneOrMore(OutDataStreamCredentials),
 });
 export type DataStreamInOut = z.infer<typeof DataStreamInOut>;
 
 export const DataStreamInOutShorthand = InDataStreamCredentials.transform((
-  { cors, ...ds },
+  { api_secret, measurement_id, ...inOptions },
 ): DataStreamInOut => ({
-  in: { ...ds, ...(cors && { cors }) },
-  out: { ...ds },
+  in: { api_secret, measurement_id, ...inOptions },
+  out: [{ api_secret, measurement_id }],
 })).or(
   DataStreamInOut,
 );
@@ -74,28 +117,207 @@ export const DataStreamInOutShorthand = InDataStreamCredentials.transform((
 export const DEFAULT_LIFETIME_UNIT: TimeUnit = "months";
 export const DEFAULT_EXISTING_POLICY: ExistingIdPolicy =
   ExistingIdPolicy.Enum.scramble;
+export const DEFAULT_CLIENT_ID_POLICY: ExistingIdPolicy =
+  ExistingIdPolicy.Enum.keep;
+export const DEFAULT_IPV4_PREFIX = 32;
+export const DEFAULT_IPV6_PREFIX = 128;
+export const UserIdComponentsConfig = z.object({
+  ip: z.boolean().default(true),
+  user_agent: z.boolean().default(true),
+  accept_language: z.boolean().default(true),
+  headers: HeaderName.array().default([]),
+  ipv4_prefix: z.number().int().min(0).max(32).default(DEFAULT_IPV4_PREFIX),
+  ipv6_prefix: z.number().int().min(0).max(128).default(DEFAULT_IPV6_PREFIX),
+}).refine(
+  (components) =>
+    components.ip || components.user_agent || components.accept_language ||
+    components.headers.length > 0,
+  { message: "At least one component must be used" },
+);
+export type UserIdComponentsConfig = z.infer<typeof UserIdComponentsConfig>;
+
 export const UserIdConfig = z.object({
   scrambling_secret: ScramblerKey.nullable().default(null),
   lifetime: LifetimeObject.or(EvaluatedDisambiguatedLifetimeExpression).default(
     { unit: DEFAULT_LIFETIME_UNIT },
   ),
   existing: ExistingIdPolicy.default(DEFAULT_EXISTING_POLICY),
+  client_id: ExistingIdPolicy.default(DEFAULT_CLIENT_ID_POLICY),
+  components: UserIdComponentsConfig.optional(),
 });
 
+export const DEFAULT_CONSENT_ACTION: ConsentAction = ConsentAction.Enum.forward;
+export const ConsentConfig = z.object({
+  ad_user_data_denied: ConsentAction.default(DEFAULT_CONSENT_ACTION),
+  ad_personalization_denied: ConsentAction.default(DEFAULT_CONSENT_ACTION),
+  gpc: ConsentAction.default(DEFAULT_CONSENT_ACTION),
+  dnt: ConsentAction.default(DEFAULT_CONSENT_ACTION),
+});
+export type ConsentConfig = z.infer<typeof ConsentConfig>;
+
+export const DEFAULT_PII_ACTION: PiiAction = PiiAction.Enum.redact;
+export const PiiConfig = z.object({
+  email: PiiAction.default(DEFAULT_PII_ACTION),
+  phone: PiiAction.default(DEFAULT_PII_ACTION),
+  ip: PiiAction.default(DEFAULT_PII_ACTION),
+  credit_card: PiiAction.default(DEFAULT_PII_ACTION),
+  jwt: PiiAction.default(DEFAULT_PII_ACTION),
+});
+export type PiiConfig = z.infer<typeof PiiConfig>;
+
+export { DEFAULT_URL_PARAMS };
+export const DEFAULT_URL_QUERY_PARAMS: QueryParamsPolicy =
+  QueryParamsPolicy.Enum.strip;
+export const UrlsConfig = z.object({
+  params: oneOrMore(ParameterName).default([...DEFAULT_URL_PARAMS]),
+  /** A policy, or the names of query parameters to keep. */
+  query_params: z.union([QueryParamsPolicy, z.string().min(1).array()])
+    .default(DEFAULT_URL_QUERY_PARAMS),
+  keep_fragment: z.boolean().default(false),
+  collapse_ids: z.boolean().default(false),
+});
+export type UrlsConfig = z.infer<typeof UrlsConfig>;
+
+export const DEFAULT_QUEUE_RETRIES = DEFAULT_FORWARD_QUEUE_RETRIES;
+export const QueueConfig = z.object({
+  retries: z.number().int().min(0).max(MAX_FORWARD_QUEUE_RETRIES).default(
+    DEFAULT_QUEUE_RETRIES,
+  ),
+});
+export type QueueConfig = z.infer<typeof QueueConfig>;
+
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_INITIAL_DELAY = 0.2;
+export const DEFAULT_RETRY_MAX_DELAY = 2;
+export const DEFAULT_RETRY_ON: readonly RetryableErrorName[] = [
+  "proxy-io-error",
+  "proxy-response-status",
+];
+export const RetryConfig = z.object({
+  max_attempts: z.number().int().min(1).default(DEFAULT_RETRY_MAX_ATTEMPTS),
+  /** Seconds */
+  initial_delay: z.number().nonnegative().default(DEFAULT_RETRY_INITIAL_DELAY),
+  /** Seconds */
+  max_delay: z.number().nonnegative().default(DEFAULT_RETRY_MAX_DELAY),
+  on: oneOrMore(RetryableErrorName).default([...DEFAULT_RETRY_ON]),
+});
+export type RetryConfig = z.infer<typeof RetryConfig>;
+
+/** GA4 event names, and the names to send them to a backend with. */
+export const EventNames = z.record(z.string().min(1), z.string().min(1));
+
+export const DEFAULT_DESTINATION_TYPE: BackendType = "ga4";
+/** The service events are forwarded to. URL strings are GA4 MP URLs. */
+export const DestinationConfig = z.union([
+  DestinationUrl.transform((url) => ({
+    type: DEFAULT_DESTINATION_TYPE,
+    url,
+    event_names: {},
+  })),
+  z.object({
+    type: BackendType.default(DEFAULT_DESTINATION_TYPE),
+    url: DestinationUrl.optional(),
+    event_names: EventNames.default({}),
+  }),
+]).transform(
+  (value, ctx) => {
+    const url = value.url ?? DEFAULT_BACKEND_URLS[value.type];
+    if (url === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["url"],
+        message: `url is required for ${value.type} destinations`,
+      });
+      return z.NEVER;
+    }
+    return { type: value.type, url, event_names: value.event_names };
+  },
+);
+export type DestinationConfig = z.infer<typeof DestinationConfig>;
+
+export const BotsConfig = z.union([
+  BotAction.transform((action) => ({ action, http_clients: false })),
+  z.object({
+    action: BotAction,
+    /** Detect HTTP libraries and command-line clients as bots. */
+    http_clients: z.boolean().default(false),
+  }),
+]);
+export type BotsConfig = z.infer<typeof BotsConfig>;
+
+export const DEFAULT_FILE_SINK_ROTATION: FileSinkRotation = "daily";
+export const DEFAULT_FILE_SINK_MAX_BYTES = DEFAULT_ROTATING_FILE_MAX_BYTES;
+export const FileSinkConfig = z.object({
+  directory: z.string().min(1),
+  rotation: FileSinkRotation.default(DEFAULT_FILE_SINK_ROTATION),
+  max_bytes: z.number().int().positive().default(DEFAULT_FILE_SINK_MAX_BYTES),
+  gzip: z.boolean().default(false),
+  only: z.boolean().default(false),
+});
+export type FileSinkConfig = z.infer<typeof FileSinkConfig>;
+
+export { DEFAULT_REQUEST_CONTENT_TYPES };
+
+export const DEFAULT_FAN_OUT_POLICY: FanOutPolicy = "all";
+export const DEFAULT_VALIDATION_MODE: ValidationMode = "strict";
+
 export const ForwarderConfig = z.object({
   data_stream: oneOrMore(DataStreamInOutShorthand),
-  destination: DestinationUrl.default(GA4MP_URL),
+  destination: DestinationConfig.default(GA4MP_URL),
   allow_debug: z.boolean().default(false),
+  /** Accept requests from gtag.js at /g/collect, without an api_secret. */
+  allow_gtag: z.boolean().default(false),
+  /** The content types request bodies can be sent in. */
+  content_types: oneOrMore(RequestContentType).default([
+    ...DEFAULT_REQUEST_CONTENT_TYPES,
+  ]),
+  /** The maximum size of request bodies, before decompression. */
+  max_body_bytes: z.number().int().positive().optional(),
+  /** Accept payloads with more events than GA4 allows, and split them into
+   * payloads with at most 25 events when forwarding them. */
+  split_events: z.boolean().default(false),
+  /** Whether invalid payloads are rejected, or have their invalid parts
+   * removed. */
+  validation: ValidationMode.default(DEFAULT_VALIDATION_MODE),
+  /** Validate the params of GA4 recommended events, like `purchase`. */
+  recommended_events: z.boolean().default(false),
+  /** The events that the data streams accept, with definitions of their
+   * params. Events that are not defined are invalid. */
+  events: EventDefinitions.optional(),
+  /** Changes made to the events of payloads, in order. */
+  transforms: z.array(TransformRule).optional(),
   user_id: UserIdConfig.default({}),
   cors: Cors.optional(),
+  queue: QueueConfig.optional(),
+  retry: RetryConfig.optional(),
+  /** Seconds */
+  upstream_timeout: z.number().positive().optional(),
+  fan_out_policy: FanOutPolicy.default(DEFAULT_FAN_OUT_POLICY),
+  file_sink: FileSinkConfig.optional(),
+  consent: ConsentConfig.optional(),
+  pii: PiiConfig.optional(),
+  urls: UrlsConfig.optional(),
+  /** What to do with payloads from requests that look like they're from bots.
+   * Default is to forward them like any other. */
+  bots: BotsConfig.optional(),
 });
 export type ForwarderConfig = z.infer<typeof ForwarderConfig>;
 
+export const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+export const DEFAULT_TRUSTED_PROXY_HEADER = X_FORWARDED_FOR_HEADER;
+export const TrustedProxiesConfig = z.object({
+  addresses: oneOrMore(IpNetworkString),
+  hops: z.number().int().min(1).default(DEFAULT_TRUSTED_PROXY_HOPS),
+  header: HeaderName.default(DEFAULT_TRUSTED_PROXY_HEADER),
+});
+export type TrustedProxiesConfig = z.infer<typeof TrustedProxiesConfig>;
+
 export const DEFAULT_PORT = 8000;
 export const DEFAULT_HOSTNAME = "127.0.0.1";
 export const ListenConfig = z.object({
   port: Port.default(DEFAULT_PORT),
   hostname: Host.default(DEFAULT_HOSTNAME),
+  trusted_proxies: TrustedProxiesConfig.optional(),
 });
 
 export const Config = z.object({
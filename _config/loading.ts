@@ -8,15 +8,26 @@ import {
   EmptyStringAsUndefined,
 } from "./env_schema.ts";
 import {
+  BotsConfig,
   Config,
   ConfigInput,
+  ConsentConfig,
   Cors,
   DataStreamCredentials,
   DataStreamInOut,
+  FileSinkConfig,
   formatAllowOriginJson,
+  InDataStreamCredentials,
   ListenConfig,
+  PiiConfig,
+  QueueConfig,
+  RetryConfig,
+  TrustedProxiesConfig,
+  UrlsConfig,
+  UserIdComponentsConfig,
   UserIdConfig,
 } from "./json_schema.ts";
+import { formatEventNamePattern } from "./values_schema.ts";
 
 /** The symbolic names of locations a config can be loaded from. */
 export const ConfigSource = z.enum(["env", "json", "file"]);
@@ -255,11 +266,24 @@ function loadConfigEnv(rawEnv: EnvMap): Result<Config, LoadConfigError> {
   }
   const env = envResult.data;
 
-  const data_stream_in: z.input<typeof DataStreamCredentials> = {
+  const data_stream_in: z.input<typeof InDataStreamCredentials> = {
     measurement_id: env.ANONYSTAT_DATA_STREAM_IN_MEASUREMENT_ID ||
       env.ANONYSTAT_DATA_STREAM_MEASUREMENT_ID || "",
     api_secret: env.ANONYSTAT_DATA_STREAM_IN_API_SECRET ||
       env.ANONYSTAT_DATA_STREAM_API_SECRET || "",
+    ...(env.ANONYSTAT_DATA_STREAM_ALLOW_EVENTS !== undefined && {
+      allow_events: env.ANONYSTAT_DATA_STREAM_ALLOW_EVENTS.map(
+        formatEventNamePattern,
+      ),
+    }),
+    ...(env.ANONYSTAT_DATA_STREAM_DENY_EVENTS !== undefined && {
+      deny_events: env.ANONYSTAT_DATA_STREAM_DENY_EVENTS.map(
+        formatEventNamePattern,
+      ),
+    }),
+    ...(env.ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS !== undefined && {
+      disallowed_events: env.ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS,
+    }),
   };
   const data_stream_out: z.input<typeof DataStreamCredentials> = {
     measurement_id: env.ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID ||
@@ -282,9 +306,94 @@ function loadConfigEnv(rawEnv: EnvMap): Result<Config, LoadConfigError> {
     cors = undefined;
   }
 
+  // Setting retries implies the queue is used, unless it's explicitly disabled.
+  const queue: z.input<typeof QueueConfig> | undefined =
+    (env.ANONYSTAT_QUEUE ?? env.ANONYSTAT_QUEUE_RETRIES !== undefined)
+      ? { retries: env.ANONYSTAT_QUEUE_RETRIES }
+      : undefined;
+
+  // Setting any retry option implies retrying is enabled, unless it's
+  // explicitly disabled.
+  const retryOptions: z.input<typeof RetryConfig> = {
+    max_attempts: env.ANONYSTAT_RETRY_MAX_ATTEMPTS,
+    initial_delay: env.ANONYSTAT_RETRY_INITIAL_DELAY,
+    max_delay: env.ANONYSTAT_RETRY_MAX_DELAY,
+    on: env.ANONYSTAT_RETRY_ON,
+  };
+  const retry = (env.ANONYSTAT_RETRY ??
+      Object.values(retryOptions).some((v) => v !== undefined))
+    ? retryOptions
+    : undefined;
+
+  const file_sink: z.input<typeof FileSinkConfig> = {
+    // directory is required, so an empty value is reported as invalid if only
+    // other file sink options are set.
+    directory: env.ANONYSTAT_FILE_SINK_DIRECTORY ?? "",
+    rotation: env.ANONYSTAT_FILE_SINK_ROTATION,
+    max_bytes: env.ANONYSTAT_FILE_SINK_MAX_BYTES,
+    gzip: env.ANONYSTAT_FILE_SINK_GZIP,
+    only: env.ANONYSTAT_FILE_SINK_ONLY,
+  };
+  const hasFileSink = Object.values(file_sink).some((v) =>
+    v !== undefined && v !== ""
+  );
+
+  const consent: z.input<typeof ConsentConfig> = {
+    ad_user_data_denied: env.ANONYSTAT_CONSENT_AD_USER_DATA_DENIED,
+    ad_personalization_denied: env.ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED,
+    gpc: env.ANONYSTAT_CONSENT_GPC,
+    dnt: env.ANONYSTAT_CONSENT_DNT,
+  };
+  const hasConsent = Object.values(consent).some((v) => v !== undefined);
+
+  // Setting any PII action implies scrubbing is enabled, unless it's explicitly
+  // disabled.
+  const piiActions: z.input<typeof PiiConfig> = {
+    email: env.ANONYSTAT_PII_EMAIL,
+    phone: env.ANONYSTAT_PII_PHONE,
+    ip: env.ANONYSTAT_PII_IP,
+    credit_card: env.ANONYSTAT_PII_CREDIT_CARD,
+    jwt: env.ANONYSTAT_PII_JWT,
+  };
+  const pii = (env.ANONYSTAT_PII ??
+      Object.values(piiActions).some((v) => v !== undefined))
+    ? piiActions
+    : undefined;
+
+  // Setting any URL option implies sanitising is enabled, unless it's explicitly
+  // disabled.
+  const urlsOptions: z.input<typeof UrlsConfig> = {
+    params: env.ANONYSTAT_URLS_PARAMS,
+    query_params: env.ANONYSTAT_URLS_QUERY_PARAMS,
+    keep_fragment: env.ANONYSTAT_URLS_KEEP_FRAGMENT,
+    collapse_ids: env.ANONYSTAT_URLS_COLLAPSE_IDS,
+  };
+  const urls = (env.ANONYSTAT_URLS ??
+      Object.values(urlsOptions).some((v) => v !== undefined))
+    ? urlsOptions
+    : undefined;
+
+  const bots: z.input<typeof BotsConfig> | undefined = env.ANONYSTAT_BOTS && {
+    action: env.ANONYSTAT_BOTS,
+    http_clients: env.ANONYSTAT_BOTS_HTTP_CLIENTS,
+  };
+
+  const trusted_proxies: z.input<typeof TrustedProxiesConfig> = {
+    // addresses is required, so an empty list is reported as invalid if only
+    // hops or header are set.
+    addresses: env.ANONYSTAT_LISTEN_TRUSTED_PROXIES ?? [],
+    hops: env.ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS,
+    header: env.ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER,
+  };
+  const hasTrustedProxies =
+    env.ANONYSTAT_LISTEN_TRUSTED_PROXIES !== undefined ||
+    env.ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS !== undefined ||
+    env.ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER !== undefined;
+
   const listen: z.input<typeof ListenConfig> = {
     port: env.ANONYSTAT_LISTEN_PORT,
     hostname: env.ANONYSTAT_LISTEN_HOSTNAME || undefined,
+    ...(hasTrustedProxies && { trusted_proxies }),
   };
 
   const lifetime = env.ANONYSTAT_USER_ID_LIFETIME
@@ -298,10 +407,24 @@ function loadConfigEnv(rawEnv: EnvMap): Result<Config, LoadConfigError> {
     delete lifetime.from;
   }
 
+  let components: z.input<typeof UserIdComponentsConfig> | undefined = {
+    ...env.ANONYSTAT_USER_ID_COMPONENTS,
+    ipv4_prefix: env.ANONYSTAT_USER_ID_IPV4_PREFIX,
+    ipv6_prefix: env.ANONYSTAT_USER_ID_IPV6_PREFIX,
+  };
+  if (
+    env.ANONYSTAT_USER_ID_COMPONENTS === undefined &&
+    components.ipv4_prefix === undefined && components.ipv6_prefix === undefined
+  ) {
+    components = undefined;
+  }
+
   const user_id: z.input<typeof UserIdConfig> = {
     lifetime,
     existing: env.ANONYSTAT_USER_ID_EXISTING,
+    client_id: env.ANONYSTAT_CLIENT_ID_EXISTING,
     scrambling_secret: env.ANONYSTAT_USER_ID_SCRAMBLING_SECRET,
+    ...(components && { components }),
   };
 
   const configInput: ConfigInput = {
@@ -309,10 +432,34 @@ function loadConfigEnv(rawEnv: EnvMap): Result<Config, LoadConfigError> {
       data_stream,
       user_id,
       allow_debug: env.ANONYSTAT_ALLOW_DEBUG,
-      destination: env.ANONYSTAT_DESTINATION || undefined,
+      allow_gtag: env.ANONYSTAT_ALLOW_GTAG,
+      content_types: env.ANONYSTAT_CONTENT_TYPES,
+      ...(env.ANONYSTAT_MAX_BODY_BYTES !== undefined &&
+        { max_body_bytes: env.ANONYSTAT_MAX_BODY_BYTES }),
+      split_events: env.ANONYSTAT_SPLIT_EVENTS,
+      validation: env.ANONYSTAT_VALIDATION,
+      recommended_events: env.ANONYSTAT_RECOMMENDED_EVENTS,
+      destination: (env.ANONYSTAT_DESTINATION_TYPE ||
+          env.ANONYSTAT_DESTINATION_EVENT_NAMES)
+        ? {
+          type: env.ANONYSTAT_DESTINATION_TYPE,
+          url: env.ANONYSTAT_DESTINATION || undefined,
+          event_names: env.ANONYSTAT_DESTINATION_EVENT_NAMES,
+        }
+        : env.ANONYSTAT_DESTINATION || undefined,
       ...(cors ? { cors } : {}),
+      ...(queue && { queue }),
+      ...(retry && { retry }),
+      ...(env.ANONYSTAT_UPSTREAM_TIMEOUT !== undefined &&
+        { upstream_timeout: env.ANONYSTAT_UPSTREAM_TIMEOUT }),
+      ...(hasFileSink && { file_sink }),
+      ...(hasConsent && { consent }),
+      ...(pii && { pii }),
+      ...(urls && { urls }),
+      ...(bots && { bots }),
     },
-    listen: (listen.port === undefined && listen.hostname === undefined)
+    listen: (listen.port === undefined && listen.hostname === undefined &&
+        listen.trusted_proxies === undefined)
       ? undefined
       : listen,
   };
@@ -46,16 +46,27 @@ Deno.test("loadConfig()", async (t) => {
           measurement_id: "abc123",
           api_secret: "hunter2",
         },
-        out: {
+        out: [{
           measurement_id: "abc123",
           api_secret: "hunter2",
-        },
+        }],
       }],
-      destination: "https://www.google-analytics.com/mp/collect",
+      destination: {
+        type: "ga4",
+        url: "https://www.google-analytics.com/mp/collect",
+        event_names: {},
+      },
       allow_debug: false,
+      fan_out_policy: "all",
+      content_types: ["application/json"],
+      allow_gtag: false,
+      split_events: false,
+      validation: "strict",
+      recommended_events: false,
       user_id: {
         scrambling_secret: null,
         existing: "scramble",
+        client_id: "keep",
         lifetime: {
           count: 1,
           unit: "months",
@@ -74,30 +85,93 @@ Deno.test("loadConfig()", async (t) => {
         in: {
           measurement_id: "mIdIn",
           api_secret: "secretIn",
+          allow_events: ["page_view", "ads_*"],
+          deny_events: [/^ads_test_/],
+          disallowed_events: "reject",
         },
-        out: {
+        out: [{
           measurement_id: "mIdOut",
           api_secret: "secretOut",
-        },
+        }],
       }],
-      destination: "https://example.com/mp/collect",
+      destination: {
+        type: "umami",
+        url: "https://example.com/api/send",
+        event_names: { page_view: "view", sign_up: "signup" },
+      },
       allow_debug: true,
+      fan_out_policy: "all",
+      content_types: ["application/json", "text/plain"],
+      allow_gtag: true,
+      split_events: true,
+      validation: "drop-invalid",
+      recommended_events: true,
       user_id: {
         scrambling_secret: "hunter2",
         existing: "keep",
+        client_id: "scramble",
         lifetime: {
           count: 2,
           unit: "weeks",
         },
+        components: {
+          ip: true,
+          user_agent: true,
+          accept_language: false,
+          headers: ["sec-ch-ua-platform"],
+          ipv4_prefix: 24,
+          ipv6_prefix: 48,
+        },
       },
       cors: {
         allow_origin: ["https://example.com"],
         max_age: 10 * 60,
       },
+      queue: { retries: 2 },
+      retry: {
+        max_attempts: 5,
+        initial_delay: 0.5,
+        max_delay: 10,
+        on: ["proxy-io-error", "timeout"],
+      },
+      upstream_timeout: 2.5,
+      max_body_bytes: 65536,
+      file_sink: {
+        directory: "/var/lib/anonystat",
+        rotation: "size",
+        max_bytes: 1000000,
+        gzip: true,
+        only: true,
+      },
+      consent: {
+        ad_user_data_denied: "anonymise",
+        ad_personalization_denied: "forward",
+        gpc: "drop",
+        dnt: "reject",
+      },
+      pii: {
+        email: "hash",
+        phone: "redact",
+        ip: "keep",
+        credit_card: "drop_param",
+        jwt: "drop_event",
+      },
+      urls: {
+        params: ["page_location", "shared_url"],
+        query_params: ["utm_source", "lang"],
+        keep_fragment: true,
+        collapse_ids: true,
+      },
+      bots: { action: "tag", http_clients: true },
     }],
     listen: {
       hostname: "1.2.3.4",
       port: 9001,
+      trusted_proxies: {
+        addresses: ["10.0.0.0/8", "fd00::/8"],
+        hops: 2,
+        header: "cf-connecting-ip",
+      },
     },
   });
 
@@ -117,44 +191,156 @@ Deno.test("loadConfig()", async (t) => {
       const configLoad = await loadConfig({
         env: envMap<Record<ConfigValueEnvarName, string>>({
           ANONYSTAT_ALLOW_DEBUG: "true",
+          ANONYSTAT_ALLOW_GTAG: "true",
+          ANONYSTAT_CONTENT_TYPES: "application/json, text/plain",
           ANONYSTAT_DATA_STREAM_IN_API_SECRET: "secretIn",
           ANONYSTAT_DATA_STREAM_OUT_API_SECRET: "secretOut",
           ANONYSTAT_DATA_STREAM_API_SECRET: "overridden, not used",
           ANONYSTAT_DATA_STREAM_IN_MEASUREMENT_ID: "mIdIn",
           ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID: "mIdOut",
           ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "overridden, not used",
-          ANONYSTAT_DESTINATION: "https://example.com/mp/collect",
+          ANONYSTAT_DATA_STREAM_ALLOW_EVENTS: "page_view, ads_*",
+          ANONYSTAT_DATA_STREAM_DENY_EVENTS: "/^ads_test_/",
+          ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS: "reject",
+          ANONYSTAT_DESTINATION: "https://example.com/api/send",
+          ANONYSTAT_DESTINATION_TYPE: "umami",
+          ANONYSTAT_DESTINATION_EVENT_NAMES: "page_view=view, sign_up=signup",
           ANONYSTAT_LISTEN_HOSTNAME: "1.2.3.4",
           ANONYSTAT_LISTEN_PORT: "9001",
+          ANONYSTAT_LISTEN_TRUSTED_PROXIES: "10.0.0.0/8, fd00::/8",
+          ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS: "2",
+          ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER: "CF-Connecting-IP",
           ANONYSTAT_USER_ID_EXISTING: "keep",
+          ANONYSTAT_CLIENT_ID_EXISTING: "scramble",
+          ANONYSTAT_USER_ID_COMPONENTS:
+            "ip, user_agent, header:Sec-CH-UA-Platform",
+          ANONYSTAT_USER_ID_IPV4_PREFIX: "24",
+          ANONYSTAT_USER_ID_IPV6_PREFIX: "48",
           ANONYSTAT_USER_ID_LIFETIME: "2 weeks",
           ANONYSTAT_USER_ID_SCRAMBLING_SECRET: "hunter2",
           ANONYSTAT_CORS_ALLOW_ORIGIN: "example.com",
           ANONYSTAT_CORS_MAX_AGE: "10 minutes",
+          ANONYSTAT_QUEUE: "true",
+          ANONYSTAT_QUEUE_RETRIES: "2",
+          ANONYSTAT_RETRY: "true",
+          ANONYSTAT_RETRY_MAX_ATTEMPTS: "5",
+          ANONYSTAT_RETRY_INITIAL_DELAY: "0.5",
+          ANONYSTAT_RETRY_MAX_DELAY: "10",
+          ANONYSTAT_RETRY_ON: "proxy-io-error, timeout",
+          ANONYSTAT_UPSTREAM_TIMEOUT: "2.5",
+          ANONYSTAT_MAX_BODY_BYTES: "65536",
+          ANONYSTAT_SPLIT_EVENTS: "true",
+          ANONYSTAT_VALIDATION: "drop-invalid",
+          ANONYSTAT_RECOMMENDED_EVENTS: "true",
+          ANONYSTAT_FILE_SINK_DIRECTORY: "/var/lib/anonystat",
+          ANONYSTAT_FILE_SINK_ROTATION: "size",
+          ANONYSTAT_FILE_SINK_MAX_BYTES: "1000000",
+          ANONYSTAT_FILE_SINK_GZIP: "true",
+          ANONYSTAT_FILE_SINK_ONLY: "true",
+          ANONYSTAT_CONSENT_AD_USER_DATA_DENIED: "anonymise",
+          ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED: "forward",
+          ANONYSTAT_CONSENT_GPC: "drop",
+          ANONYSTAT_CONSENT_DNT: "reject",
+          ANONYSTAT_PII: "true",
+          ANONYSTAT_PII_EMAIL: "hash",
+          ANONYSTAT_PII_PHONE: "redact",
+          ANONYSTAT_PII_IP: "keep",
+          ANONYSTAT_PII_CREDIT_CARD: "drop_param",
+          ANONYSTAT_PII_JWT: "drop_event",
+          ANONYSTAT_URLS: "true",
+          ANONYSTAT_URLS_PARAMS: "page_location,shared_url",
+          ANONYSTAT_URLS_QUERY_PARAMS: "utm_source,lang",
+          ANONYSTAT_URLS_KEEP_FRAGMENT: "true",
+          ANONYSTAT_URLS_COLLAPSE_IDS: "true",
+          ANONYSTAT_BOTS: "tag",
+          ANONYSTAT_BOTS_HTTP_CLIENTS: "true",
         }),
       });
       assertSuccessful(configLoad);
       assertEquals(configLoad.data, fullConfig());
     });
 
+    await t.step("bots http_clients requires an action", async () => {
+      const configLoad = await loadConfig({
+        env: envMap({
+          ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+          ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+          ANONYSTAT_BOTS_HTTP_CLIENTS: "true",
+        }),
+      });
+      assertUnsuccessful(configLoad);
+      assert(configLoad.error.name === "config-envars-invalid");
+      assertEquals(configLoad.error.envarErrors.ANONYSTAT_BOTS, [
+        "Required because ANONYSTAT_BOTS_HTTP_CLIENTS is set",
+      ]);
+    });
+
     await t.step("empty envars are undefined", async () => {
       const configLoad = await loadConfig({
         env: envMap<Record<ConfigValueEnvarName, string>>({
           ANONYSTAT_ALLOW_DEBUG: "",
+          ANONYSTAT_ALLOW_GTAG: "",
+          ANONYSTAT_CONTENT_TYPES: "",
           ANONYSTAT_DATA_STREAM_IN_API_SECRET: "",
           ANONYSTAT_DATA_STREAM_OUT_API_SECRET: "",
           ANONYSTAT_DATA_STREAM_API_SECRET: "hunter2",
           ANONYSTAT_DATA_STREAM_IN_MEASUREMENT_ID: "",
           ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID: "",
           ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "abc123",
+          ANONYSTAT_DATA_STREAM_ALLOW_EVENTS: "",
+          ANONYSTAT_DATA_STREAM_DENY_EVENTS: "",
+          ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS: "",
           ANONYSTAT_DESTINATION: "",
+          ANONYSTAT_DESTINATION_TYPE: "",
+          ANONYSTAT_DESTINATION_EVENT_NAMES: "",
           ANONYSTAT_LISTEN_HOSTNAME: "",
           ANONYSTAT_LISTEN_PORT: "",
+          ANONYSTAT_LISTEN_TRUSTED_PROXIES: "",
+          ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS: "",
+          ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER: "",
           ANONYSTAT_USER_ID_EXISTING: "",
+          ANONYSTAT_CLIENT_ID_EXISTING: "",
+          ANONYSTAT_USER_ID_COMPONENTS: "",
+          ANONYSTAT_USER_ID_IPV4_PREFIX: "",
+          ANONYSTAT_USER_ID_IPV6_PREFIX: "",
           ANONYSTAT_USER_ID_LIFETIME: "",
           ANONYSTAT_USER_ID_SCRAMBLING_SECRET: "",
           ANONYSTAT_CORS_ALLOW_ORIGIN: "",
           ANONYSTAT_CORS_MAX_AGE: "",
+          ANONYSTAT_QUEUE: "",
+          ANONYSTAT_QUEUE_RETRIES: "",
+          ANONYSTAT_RETRY: "",
+          ANONYSTAT_RETRY_MAX_ATTEMPTS: "",
+          ANONYSTAT_RETRY_INITIAL_DELAY: "",
+          ANONYSTAT_RETRY_MAX_DELAY: "",
+          ANONYSTAT_RETRY_ON: "",
+          ANONYSTAT_UPSTREAM_TIMEOUT: "",
+          ANONYSTAT_MAX_BODY_BYTES: "",
+          ANONYSTAT_SPLIT_EVENTS: "",
+          ANONYSTAT_VALIDATION: "",
+          ANONYSTAT_RECOMMENDED_EVENTS: "",
+          ANONYSTAT_FILE_SINK_DIRECTORY: "",
+          ANONYSTAT_FILE_SINK_ROTATION: "",
+          ANONYSTAT_FILE_SINK_MAX_BYTES: "",
+          ANONYSTAT_FILE_SINK_GZIP: "",
+          ANONYSTAT_FILE_SINK_ONLY: "",
+          ANONYSTAT_CONSENT_AD_USER_DATA_DENIED: "",
+          ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED: "",
+          ANONYSTAT_CONSENT_GPC: "",
+          ANONYSTAT_CONSENT_DNT: "",
+          ANONYSTAT_PII: "",
+          ANONYSTAT_PII_EMAIL: "",
+          ANONYSTAT_PII_PHONE: "",
+          ANONYSTAT_PII_IP: "",
+          ANONYSTAT_PII_CREDIT_CARD: "",
+          ANONYSTAT_PII_JWT: "",
+          ANONYSTAT_URLS: "",
+          ANONYSTAT_URLS_PARAMS: "",
+          ANONYSTAT_URLS_QUERY_PARAMS: "",
+          ANONYSTAT_URLS_KEEP_FRAGMENT: "",
+          ANONYSTAT_URLS_COLLAPSE_IDS: "",
+          ANONYSTAT_BOTS: "",
+          ANONYSTAT_BOTS_HTTP_CLIENTS: "",
         }),
       });
       assertSuccessful(configLoad);
@@ -180,6 +366,373 @@ Deno.test("loadConfig()", async (t) => {
       },
     );
 
+    await t.step("ANONYSTAT_USER_ID_COMPONENTS", async (t) => {
+      await t.step("unlisted components are not used", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_USER_ID_COMPONENTS: "user_agent",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].user_id.components, {
+          ip: false,
+          user_agent: true,
+          accept_language: false,
+          headers: [],
+          ipv4_prefix: 32,
+          ipv6_prefix: 128,
+        });
+      });
+
+      await t.step("cannot contain unknown components", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_USER_ID_COMPONENTS: "ip,cookie",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+
+      await t.step("must contain a component", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_USER_ID_COMPONENTS: ",",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_RETRY", async (t) => {
+      await t.step("retry options enable retrying", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_RETRY_MAX_ATTEMPTS: "2",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].retry, {
+          max_attempts: 2,
+          initial_delay: 0.2,
+          max_delay: 2,
+          on: ["proxy-io-error", "proxy-response-status"],
+        });
+      });
+
+      await t.step("false disables retrying", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_RETRY: "false",
+            ANONYSTAT_RETRY_MAX_ATTEMPTS: "2",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].retry, undefined);
+      });
+
+      await t.step("cannot retry unknown errors", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_RETRY_ON: "timeout,aborted",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_DESTINATION_TYPE", async (t) => {
+      await t.step("uses the backend's default URL", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_DESTINATION_TYPE: "plausible",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].destination, {
+          type: "plausible",
+          url: "https://plausible.io/api/event",
+          event_names: {},
+        });
+      });
+
+      await t.step("requires a URL for matomo", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "1",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "token",
+            ANONYSTAT_DESTINATION_TYPE: "matomo",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_DESTINATION_EVENT_NAMES", async (t) => {
+      await t.step("rejects invalid mappings", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_DESTINATION_EVENT_NAMES: "page_view",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_CONSENT_GPC", async (t) => {
+      await t.step("uses default actions for other signals", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_CONSENT_GPC: "drop",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].consent, {
+          ad_user_data_denied: "forward",
+          ad_personalization_denied: "forward",
+          gpc: "drop",
+          dnt: "forward",
+        });
+      });
+
+      await t.step("rejects unknown actions", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_CONSENT_GPC: "ignore",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_PII", async (t) => {
+      await t.step("redacts all PII when enabled", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_PII: "true",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].pii, {
+          email: "redact",
+          phone: "redact",
+          ip: "redact",
+          credit_card: "redact",
+          jwt: "redact",
+        });
+      });
+
+      await t.step("is enabled by setting an action", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_PII_IP: "keep",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].pii?.ip, "keep");
+        assertEquals(configLoad.data.forward[0].pii?.email, "redact");
+      });
+
+      await t.step("is disabled when false", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_PII: "false",
+            ANONYSTAT_PII_IP: "keep",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].pii, undefined);
+      });
+
+      await t.step("rejects unknown actions", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_PII_EMAIL: "encrypt",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_CONTENT_TYPES", async (t) => {
+      await t.step("accepts JSON by default", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].content_types, [
+          "application/json",
+        ]);
+      });
+
+      await t.step("rejects unknown content types", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_CONTENT_TYPES: "text/plain,text/html",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_URLS", async (t) => {
+      await t.step("strips query and fragment when enabled", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_URLS: "true",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].urls, {
+          params: ["page_location", "page_referrer", "link_url"],
+          query_params: "strip",
+          keep_fragment: false,
+          collapse_ids: false,
+        });
+      });
+
+      await t.step("is enabled by setting an option", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_URLS_QUERY_PARAMS: "keep",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].urls?.query_params, "keep");
+      });
+
+      await t.step("is disabled when false", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_URLS: "false",
+            ANONYSTAT_URLS_COLLAPSE_IDS: "true",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].urls, undefined);
+      });
+
+      await t.step("rejects invalid param names", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_URLS_PARAMS: "page-location",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_FILE_SINK_DIRECTORY", async (t) => {
+      await t.step("uses default file sink options", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_FILE_SINK_DIRECTORY: "/tmp/events",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.forward[0].file_sink, {
+          directory: "/tmp/events",
+          rotation: "daily",
+          max_bytes: 100 * 1024 * 1024,
+          gzip: false,
+          only: false,
+        });
+      });
+
+      await t.step("is required by other file sink options", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_FILE_SINK_GZIP: "true",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
+    await t.step("ANONYSTAT_LISTEN_TRUSTED_PROXIES", async (t) => {
+      await t.step("uses default hops and header", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_LISTEN_TRUSTED_PROXIES: "127.0.0.1",
+          }),
+        });
+        assertSuccessful(configLoad);
+        assertEquals(configLoad.data.listen.trusted_proxies, {
+          addresses: ["127.0.0.1"],
+          hops: 1,
+          header: "x-forwarded-for",
+        });
+      });
+
+      await t.step("cannot contain invalid networks", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_LISTEN_TRUSTED_PROXIES: "10.0.0.0/33",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+
+      await t.step("is required by hops and header", async () => {
+        const configLoad = await loadConfig({
+          env: envMap({
+            ANONYSTAT_DATA_STREAM_MEASUREMENT_ID: "foo",
+            ANONYSTAT_DATA_STREAM_API_SECRET: "bar",
+            ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS: "2",
+          }),
+        });
+        assertUnsuccessful(configLoad);
+      });
+    });
+
     await t.step("ANONYSTAT_CORS_ALLOW_ORIGIN", async (t) => {
       await t.step("can be wildcard", async () => {
         const configLoad = await loadConfig({
@@ -299,30 +852,88 @@ Deno.test("loadConfig()", async (t) => {
             in: {
               measurement_id: "mIdIn",
               api_secret: "secretIn",
+              allow_events: ["page_view", "ads_*"],
+              deny_events: ["/^ads_test_/"],
+              disallowed_events: "reject",
             },
             out: {
               measurement_id: "mIdOut",
               api_secret: "secretOut",
             },
           },
-          destination: "https://example.com/mp/collect",
+          destination: {
+            type: "umami",
+            url: "https://example.com/api/send",
+            event_names: { page_view: "view", sign_up: "signup" },
+          },
           allow_debug: true,
+          content_types: ["application/json", "text/plain"],
+          allow_gtag: true,
+          split_events: true,
+          validation: "drop-invalid",
+          recommended_events: true,
           user_id: {
             scrambling_secret: "hunter2",
             existing: "keep",
+            client_id: "scramble",
             lifetime: {
               count: 2,
               unit: "weeks",
             },
+            components: {
+              accept_language: false,
+              headers: ["Sec-CH-UA-Platform"],
+              ipv4_prefix: 24,
+              ipv6_prefix: 48,
+            },
           },
           cors: {
             allow_origin: ["example.com"],
             max_age: "10 minutes",
           },
+          queue: { retries: 2 },
+          retry: {
+            max_attempts: 5,
+            initial_delay: 0.5,
+            max_delay: 10,
+            on: ["proxy-io-error", "timeout"],
+          },
+          upstream_timeout: 2.5,
+          max_body_bytes: 65536,
+          file_sink: {
+            directory: "/var/lib/anonystat",
+            rotation: "size",
+            max_bytes: 1000000,
+            gzip: true,
+            only: true,
+          },
+          consent: {
+            ad_user_data_denied: "anonymise",
+            gpc: "drop",
+            dnt: "reject",
+          },
+          pii: {
+            email: "hash",
+            ip: "keep",
+            credit_card: "drop_param",
+            jwt: "drop_event",
+          },
+          urls: {
+            params: ["page_location", "shared_url"],
+            query_params: ["utm_source", "lang"],
+            keep_fragment: true,
+            collapse_ids: true,
+          },
+          bots: { action: "tag", http_clients: true },
         },
         listen: {
           hostname: "1.2.3.4",
           port: 9001,
+          trusted_proxies: {
+            addresses: ["10.0.0.0/8", "fd00::/8"],
+            hops: 2,
+            header: "CF-Connecting-IP",
+          },
         },
       };
       const configLoad = await loadConfig({
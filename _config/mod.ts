@@ -1,5 +1,17 @@
 export type { DataStreamInOut, ForwarderConfig } from "./json_schema.ts";
-export { Config } from "./json_schema.ts";
+export {
+  BotsConfig,
+  Config,
+  ConsentConfig,
+  DestinationConfig,
+  FileSinkConfig,
+  PiiConfig,
+  QueueConfig,
+  RetryConfig,
+  TrustedProxiesConfig,
+  UrlsConfig,
+  UserIdComponentsConfig,
+} from "./json_schema.ts";
 
 export type { EnvMap, LoadConfigError, LoadConfigOptions } from "./loading.ts";
 export {
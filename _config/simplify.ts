@@ -1,18 +1,50 @@
 import { Wildcard } from "../_cors.ts";
-import { GA4MP_URL } from "../constants.ts";
+import { DEFAULT_BACKEND_URLS } from "../backends.ts";
 import { equal, z } from "../deps.ts";
 import { formatSlashDelimitedRegexString } from "./cors_schemas.ts";
+import { formatEventNamePattern } from "./values_schema.ts";
+import { DisallowedEventsAction } from "../event_filter.ts";
 import {
   Config,
+  ConsentConfig,
   Cors,
   DataStreamInOut,
   DataStreamInOutShorthand,
+  DEFAULT_CLIENT_ID_POLICY,
+  DEFAULT_CONSENT_ACTION,
   DEFAULT_CORS_MAX_AGE,
+  DEFAULT_DESTINATION_TYPE,
   DEFAULT_EXISTING_POLICY,
+  DEFAULT_FAN_OUT_POLICY,
+  DEFAULT_FILE_SINK_MAX_BYTES,
+  DEFAULT_FILE_SINK_ROTATION,
   DEFAULT_HOSTNAME,
+  DEFAULT_IPV4_PREFIX,
+  DEFAULT_IPV6_PREFIX,
   DEFAULT_LIFETIME_UNIT,
+  DEFAULT_PII_ACTION,
   DEFAULT_PORT,
+  DEFAULT_QUEUE_RETRIES,
+  DEFAULT_REQUEST_CONTENT_TYPES,
+  DEFAULT_RETRY_INITIAL_DELAY,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY,
+  DEFAULT_RETRY_ON,
+  DEFAULT_TRUSTED_PROXY_HEADER,
+  DEFAULT_TRUSTED_PROXY_HOPS,
+  DEFAULT_URL_PARAMS,
+  DEFAULT_URL_QUERY_PARAMS,
+  DEFAULT_VALIDATION_MODE,
+  DestinationConfig,
+  FileSinkConfig,
   ForwarderConfig,
+  InDataStreamCredentials,
+  OutDataStreamCredentials,
+  PiiConfig,
+  RetryConfig,
+  TrustedProxiesConfig,
+  UrlsConfig,
+  UserIdComponentsConfig,
   UserIdConfig,
 } from "./json_schema.ts";
 import {
@@ -25,6 +57,19 @@ function omitDefault<T>(value: T, default_: T): T | undefined {
   return value === default_ ? undefined : value;
 }
 
+function simplifyDestination(
+  value: DestinationConfig,
+): z.input<typeof DestinationConfig> | undefined {
+  const url = omitDefault(value.url, DEFAULT_BACKEND_URLS[value.type]);
+  const hasEventNames = Object.keys(value.event_names).length > 0;
+  if (value.type === DEFAULT_DESTINATION_TYPE && !hasEventNames) return url;
+  return {
+    type: value.type,
+    ...(url !== undefined && { url }),
+    ...(hasEventNames && { event_names: value.event_names }),
+  };
+}
+
 function simplifyCors(
   value: Cors = {},
   base: Cors = {},
@@ -58,19 +103,51 @@ function simplifyCors(
     : result;
 }
 
+function simplifyOutDataStreamConfig(
+  value: OutDataStreamCredentials,
+  base: { destination: string },
+): z.input<typeof OutDataStreamCredentials> {
+  const destination = omitDefault(value.destination, base.destination);
+  return {
+    api_secret: value.api_secret,
+    measurement_id: value.measurement_id,
+    ...(destination && { destination }),
+  };
+}
+
+function simplifyEventFilter(
+  value: InDataStreamCredentials,
+): Partial<z.input<typeof InDataStreamCredentials>> {
+  const disallowed_events = omitDefault(
+    value.disallowed_events,
+    DisallowedEventsAction.Enum.drop,
+  );
+  return {
+    ...(value.allow_events &&
+      { allow_events: value.allow_events.map(formatEventNamePattern) }),
+    ...(value.deny_events &&
+      { deny_events: value.deny_events.map(formatEventNamePattern) }),
+    ...(disallowed_events && { disallowed_events }),
+  };
+}
+
 function simplifyDataStreamConfig(
   value: z.infer<typeof DataStreamInOut>,
-  base: { cors?: Cors },
+  base: { cors?: Cors; destination: string },
 ): z.input<typeof DataStreamInOutShorthand> {
   const cors = simplifyCors(value.in.cors, base.cors);
+  const eventFilter = simplifyEventFilter(value.in);
+  const out = value.out.map((o) => simplifyOutDataStreamConfig(o, base));
   if (
-    value.in.api_secret === value.out.api_secret &&
-    value.in.measurement_id === value.out.measurement_id
+    out.length === 1 && out[0].destination === undefined &&
+    value.in.api_secret === out[0].api_secret &&
+    value.in.measurement_id === out[0].measurement_id
   ) {
     return {
       api_secret: value.in.api_secret,
       measurement_id: value.in.measurement_id,
       ...(cors && { cors }),
+      ...eventFilter,
     };
   }
   return {
@@ -78,8 +155,9 @@ function simplifyDataStreamConfig(
       api_secret: value.in.api_secret,
       measurement_id: value.in.measurement_id,
       ...(cors && { cors }),
+      ...eventFilter,
     },
-    out: { ...value.out },
+    out: out.length === 1 ? out[0] : out,
   };
 }
 
@@ -103,18 +181,111 @@ function simplifyLifetimeObject(
   return `${count || DEFAULT_LIFETIME_COUNT} ${unit}`;
 }
 
+function simplifyUserIdComponents(
+  value: UserIdComponentsConfig,
+): z.input<typeof UserIdComponentsConfig> | undefined {
+  const { ip, user_agent, accept_language, headers } = value;
+  const { ipv4_prefix, ipv6_prefix } = value;
+  const result: z.input<typeof UserIdComponentsConfig> = {
+    ...(!ip && { ip }),
+    ...(!user_agent && { user_agent }),
+    ...(!accept_language && { accept_language }),
+    ...(headers.length > 0 && { headers }),
+    ...(ipv4_prefix !== DEFAULT_IPV4_PREFIX && { ipv4_prefix }),
+    ...(ipv6_prefix !== DEFAULT_IPV6_PREFIX && { ipv6_prefix }),
+  };
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
 function simplifyUserIdConfig(
   value: z.infer<typeof UserIdConfig>,
 ): z.input<typeof UserIdConfig> | undefined {
   const lifetime = simplifyLifetimeObject(value.lifetime);
 
   const existing = omitDefault(value.existing, DEFAULT_EXISTING_POLICY);
-  if (lifetime || value.scrambling_secret || existing) {
-    return { existing, lifetime, scrambling_secret: value.scrambling_secret };
+  const client_id = omitDefault(value.client_id, DEFAULT_CLIENT_ID_POLICY);
+  const components = value.components &&
+    simplifyUserIdComponents(value.components);
+  if (
+    lifetime || value.scrambling_secret || existing || client_id || components
+  ) {
+    return {
+      existing,
+      lifetime,
+      scrambling_secret: value.scrambling_secret,
+      ...(client_id !== undefined && { client_id }),
+      ...(components && { components }),
+    };
   }
   return undefined;
 }
 
+function simplifyRetryConfig(
+  value: RetryConfig,
+): z.input<typeof RetryConfig> {
+  const { max_attempts, initial_delay, max_delay } = value;
+  return {
+    ...(max_attempts !== DEFAULT_RETRY_MAX_ATTEMPTS && { max_attempts }),
+    ...(initial_delay !== DEFAULT_RETRY_INITIAL_DELAY && { initial_delay }),
+    ...(max_delay !== DEFAULT_RETRY_MAX_DELAY && { max_delay }),
+    ...(!equal(value.on, DEFAULT_RETRY_ON) && {
+      on: value.on.length === 1 ? value.on[0] : value.on,
+    }),
+  };
+}
+
+function simplifyFileSinkConfig(
+  value: FileSinkConfig,
+): z.input<typeof FileSinkConfig> {
+  const { directory, rotation, max_bytes, gzip, only } = value;
+  return {
+    directory,
+    ...(rotation !== DEFAULT_FILE_SINK_ROTATION && { rotation }),
+    ...(max_bytes !== DEFAULT_FILE_SINK_MAX_BYTES && { max_bytes }),
+    ...(gzip && { gzip }),
+    ...(only && { only }),
+  };
+}
+
+function simplifyConsentConfig(
+  value: ConsentConfig,
+): z.input<typeof ConsentConfig> | undefined {
+  const { ad_user_data_denied, ad_personalization_denied, gpc, dnt } = value;
+  const consent: z.input<typeof ConsentConfig> = {
+    ...(ad_user_data_denied !== DEFAULT_CONSENT_ACTION &&
+      { ad_user_data_denied }),
+    ...(ad_personalization_denied !== DEFAULT_CONSENT_ACTION &&
+      { ad_personalization_denied }),
+    ...(gpc !== DEFAULT_CONSENT_ACTION && { gpc }),
+    ...(dnt !== DEFAULT_CONSENT_ACTION && { dnt }),
+  };
+  // A consent config with only default actions has no effect
+  return Object.keys(consent).length > 0 ? consent : undefined;
+}
+
+function simplifyPiiConfig(value: PiiConfig): z.input<typeof PiiConfig> {
+  const { email, phone, ip, credit_card, jwt } = value;
+  return {
+    ...(email !== DEFAULT_PII_ACTION && { email }),
+    ...(phone !== DEFAULT_PII_ACTION && { phone }),
+    ...(ip !== DEFAULT_PII_ACTION && { ip }),
+    ...(credit_card !== DEFAULT_PII_ACTION && { credit_card }),
+    ...(jwt !== DEFAULT_PII_ACTION && { jwt }),
+  };
+}
+
+function simplifyUrlsConfig(value: UrlsConfig): z.input<typeof UrlsConfig> {
+  const { query_params, keep_fragment, collapse_ids } = value;
+  return {
+    ...(!equal(value.params, DEFAULT_URL_PARAMS) && {
+      params: value.params.length === 1 ? value.params[0] : value.params,
+    }),
+    ...(query_params !== DEFAULT_URL_QUERY_PARAMS && { query_params }),
+    ...(keep_fragment && { keep_fragment }),
+    ...(collapse_ids && { collapse_ids }),
+  };
+}
+
 function mergeOverrides<T extends unknown>(
   base: T | undefined,
   overrides: Array<T | undefined>,
@@ -166,14 +337,72 @@ function simplifyForwarderConfig(
 
   const cors = simplifyCors(mergedCors);
   const data_stream = value.data_stream.map((ds) =>
-    simplifyDataStreamConfig(ds, { cors: mergedCors })
+    simplifyDataStreamConfig(ds, {
+      cors: mergedCors,
+      destination: value.destination.url,
+    })
+  );
+  const allow_gtag = omitDefault(value.allow_gtag, false);
+  const split_events = omitDefault(value.split_events, false);
+  const validation = omitDefault(value.validation, DEFAULT_VALIDATION_MODE);
+  const recommended_events = omitDefault(value.recommended_events, false);
+  const fan_out_policy = omitDefault(
+    value.fan_out_policy,
+    DEFAULT_FAN_OUT_POLICY,
   );
+  const content_types =
+    equal(value.content_types, DEFAULT_REQUEST_CONTENT_TYPES)
+      ? undefined
+      : value.content_types.length === 1
+      ? value.content_types[0]
+      : value.content_types;
+  const consent = value.consent && simplifyConsentConfig(value.consent);
   return {
     data_stream: data_stream.length === 1 ? data_stream[0] : data_stream,
     user_id: value.user_id ? simplifyUserIdConfig(value.user_id) : undefined,
     allow_debug: omitDefault(value.allow_debug, false),
-    destination: omitDefault(value.destination, GA4MP_URL),
+    ...(allow_gtag !== undefined && { allow_gtag }),
+    ...(split_events !== undefined && { split_events }),
+    ...(validation !== undefined && { validation }),
+    ...(recommended_events !== undefined && { recommended_events }),
+    destination: simplifyDestination(value.destination),
+    ...(fan_out_policy !== undefined && { fan_out_policy }),
+    ...(content_types !== undefined && { content_types }),
+    ...(value.max_body_bytes !== undefined &&
+      { max_body_bytes: value.max_body_bytes }),
     ...(cors && { cors }),
+    ...(value.queue && {
+      queue: {
+        ...(value.queue.retries !== DEFAULT_QUEUE_RETRIES &&
+          { retries: value.queue.retries }),
+      },
+    }),
+    ...(value.retry && { retry: simplifyRetryConfig(value.retry) }),
+    ...(value.upstream_timeout !== undefined &&
+      { upstream_timeout: value.upstream_timeout }),
+    ...(value.file_sink &&
+      { file_sink: simplifyFileSinkConfig(value.file_sink) }),
+    ...(consent !== undefined && { consent }),
+    ...(value.pii && { pii: simplifyPiiConfig(value.pii) }),
+    ...(value.urls && { urls: simplifyUrlsConfig(value.urls) }),
+    ...(value.bots && {
+      bots: value.bots.http_clients ? value.bots : value.bots.action,
+    }),
+    ...(value.events && { events: value.events }),
+    ...(value.transforms && { transforms: value.transforms }),
+  };
+}
+
+function simplifyTrustedProxies(
+  value: TrustedProxiesConfig,
+): z.input<typeof TrustedProxiesConfig> {
+  const { hops, header } = value;
+  return {
+    addresses: value.addresses.length === 1
+      ? value.addresses[0]
+      : value.addresses,
+    ...(hops !== DEFAULT_TRUSTED_PROXY_HOPS && { hops }),
+    ...(header !== DEFAULT_TRUSTED_PROXY_HEADER && { header }),
   };
 }
 
@@ -182,10 +411,15 @@ function simplifyListen(
 ): z.input<typeof Config>["listen"] {
   const hostname = omitDefault(value.hostname, DEFAULT_HOSTNAME);
   const port = omitDefault(value.port, DEFAULT_PORT);
-  if (hostname === undefined && port === undefined) {
+  const trusted_proxies = value.trusted_proxies &&
+    simplifyTrustedProxies(value.trusted_proxies);
+  if (
+    hostname === undefined && port === undefined &&
+    trusted_proxies === undefined
+  ) {
     return undefined;
   }
-  return { hostname, port };
+  return { hostname, port, ...(trusted_proxies && { trusted_proxies }) };
 }
 
 /** Get a simplified representation of a config.
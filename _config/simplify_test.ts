@@ -3,6 +3,7 @@ import { GA4MP_URL } from "../constants.ts";
 import { assertEquals } from "../dev_deps.ts";
 import {
   Config,
+  DEFAULT_CLIENT_ID_POLICY,
   DEFAULT_EXISTING_POLICY,
   DEFAULT_HOSTNAME,
   DEFAULT_LIFETIME_UNIT,
@@ -16,10 +17,11 @@ Deno.test("simplifyConfig()", async (t) => {
       forward: [{
         data_stream: [{
           in: { measurement_id: "a", api_secret: "b" },
-          out: { measurement_id: "c", api_secret: "d" },
+          out: [{ measurement_id: "c", api_secret: "d" }],
         }],
         user_id: {
           existing: "keep",
+          client_id: "scramble",
           lifetime: {
             unit: "days",
             count: 2,
@@ -28,7 +30,48 @@ Deno.test("simplifyConfig()", async (t) => {
           scrambling_secret: "foo",
         },
         allow_debug: true,
-        destination: "https://example.com/",
+        fan_out_policy: "all",
+        content_types: ["text/plain"],
+        allow_gtag: true,
+        split_events: true,
+        validation: "drop-invalid",
+        recommended_events: true,
+        max_body_bytes: 65536,
+        destination: {
+          type: "ga4",
+          url: "https://example.com/",
+          event_names: {},
+        },
+        consent: {
+          ad_user_data_denied: "anonymise",
+          ad_personalization_denied: "forward",
+          gpc: "forward",
+          dnt: "drop",
+        },
+        pii: {
+          email: "redact",
+          phone: "redact",
+          ip: "keep",
+          credit_card: "redact",
+          jwt: "redact",
+        },
+        urls: {
+          params: ["page_location", "page_referrer", "link_url"],
+          query_params: ["lang"],
+          keep_fragment: false,
+          collapse_ids: true,
+        },
+        bots: { action: "tag", http_clients: false },
+        events: {
+          sign_up: {
+            properties: { method: { type: "string", enum: ["email"] } },
+            required: ["method"],
+          },
+        },
+        transforms: [{
+          match: { event: "login" },
+          actions: [{ action: "set", field: "name", value: "sign_in" }],
+        }],
       }],
       listen: { hostname: "example", port: 1234 },
     };
@@ -40,6 +83,7 @@ Deno.test("simplifyConfig()", async (t) => {
         },
         user_id: {
           existing: "keep",
+          client_id: "scramble",
           lifetime: {
             unit: "days",
             count: 2,
@@ -48,7 +92,27 @@ Deno.test("simplifyConfig()", async (t) => {
           scrambling_secret: "foo",
         },
         allow_debug: true,
+        allow_gtag: true,
+        split_events: true,
+        validation: "drop-invalid",
+        recommended_events: true,
+        content_types: "text/plain",
+        max_body_bytes: 65536,
         destination: "https://example.com/",
+        consent: { ad_user_data_denied: "anonymise", dnt: "drop" },
+        pii: { ip: "keep" },
+        urls: { query_params: ["lang"], collapse_ids: true },
+        bots: "tag",
+        events: {
+          sign_up: {
+            properties: { method: { type: "string", enum: ["email"] } },
+            required: ["method"],
+          },
+        },
+        transforms: [{
+          match: { event: "login" },
+          actions: [{ action: "set", field: "name", value: "sign_in" }],
+        }],
       },
       listen: { hostname: "example", port: 1234 },
     });
@@ -59,10 +123,11 @@ Deno.test("simplifyConfig()", async (t) => {
       forward: [{
         data_stream: [{
           in: { measurement_id: "a", api_secret: "b" },
-          out: { measurement_id: "a", api_secret: "b" },
+          out: [{ measurement_id: "a", api_secret: "b" }],
         }],
         user_id: {
           existing: DEFAULT_EXISTING_POLICY,
+          client_id: DEFAULT_CLIENT_ID_POLICY,
           lifetime: {
             unit: DEFAULT_LIFETIME_UNIT,
             count: 1,
@@ -71,7 +136,19 @@ Deno.test("simplifyConfig()", async (t) => {
           scrambling_secret: null,
         },
         allow_debug: false,
-        destination: GA4MP_URL,
+        fan_out_policy: "all",
+        content_types: ["application/json"],
+        allow_gtag: false,
+        split_events: false,
+        validation: "strict",
+        recommended_events: false,
+        destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
+        consent: {
+          ad_user_data_denied: "forward",
+          ad_personalization_denied: "forward",
+          gpc: "forward",
+          dnt: "forward",
+        },
       }],
       listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
     };
@@ -80,6 +157,185 @@ Deno.test("simplifyConfig()", async (t) => {
     });
   });
 
+  await t.step("keeps pii with default actions", async () => {
+    const config: Config = {
+      forward: [{
+        data_stream: [{
+          in: { measurement_id: "a", api_secret: "b" },
+          out: [{ measurement_id: "a", api_secret: "b" }],
+        }],
+        user_id: {
+          existing: DEFAULT_EXISTING_POLICY,
+          client_id: DEFAULT_CLIENT_ID_POLICY,
+          lifetime: {
+            unit: DEFAULT_LIFETIME_UNIT,
+            count: 1,
+            from: new Date(0),
+          },
+          scrambling_secret: null,
+        },
+        allow_debug: false,
+        fan_out_policy: "all",
+        content_types: ["application/json"],
+        allow_gtag: false,
+        split_events: false,
+        validation: "strict",
+        recommended_events: false,
+        destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
+        pii: {
+          email: "redact",
+          phone: "redact",
+          ip: "redact",
+          credit_card: "redact",
+          jwt: "redact",
+        },
+      }],
+      listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
+    };
+    // An empty pii section enables scrubbing with the default actions
+    await assertEquals(removeUndefined(simplifyConfig(config)), {
+      forward: {
+        data_stream: { measurement_id: "a", api_secret: "b" },
+        pii: {},
+      },
+    });
+  });
+
+  await t.step("data stream outs", async (t) => {
+    const dataStreamConfig = (
+      out: Config["forward"][0]["data_stream"][0]["out"],
+    ): Config => ({
+      forward: [{
+        data_stream: [{ in: { measurement_id: "a", api_secret: "b" }, out }],
+        user_id: {
+          existing: DEFAULT_EXISTING_POLICY,
+          client_id: DEFAULT_CLIENT_ID_POLICY,
+          lifetime: {
+            unit: DEFAULT_LIFETIME_UNIT,
+            count: 1,
+            from: new Date(0),
+          },
+          scrambling_secret: null,
+        },
+        allow_debug: false,
+        fan_out_policy: "any",
+        content_types: ["application/json"],
+        allow_gtag: false,
+        split_events: false,
+        validation: "strict",
+        recommended_events: false,
+        destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
+      }],
+      listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
+    });
+
+    await t.step("keeps multiple outs", async () => {
+      const config = dataStreamConfig([
+        { measurement_id: "a", api_secret: "b" },
+        {
+          measurement_id: "c",
+          api_secret: "d",
+          destination: "https://example.com/mp/collect",
+        },
+      ]);
+      await assertEquals(removeUndefined(simplifyConfig(config)), {
+        forward: {
+          data_stream: {
+            in: { measurement_id: "a", api_secret: "b" },
+            out: [
+              { measurement_id: "a", api_secret: "b" },
+              {
+                measurement_id: "c",
+                api_secret: "d",
+                destination: "https://example.com/mp/collect",
+              },
+            ],
+          },
+          fan_out_policy: "any",
+        },
+      });
+    });
+
+    await t.step("omits out destination equal to forward", async () => {
+      const config = dataStreamConfig([
+        { measurement_id: "a", api_secret: "b", destination: GA4MP_URL },
+      ]);
+      await assertEquals(removeUndefined(simplifyConfig(config)), {
+        forward: {
+          data_stream: { measurement_id: "a", api_secret: "b" },
+          fan_out_policy: "any",
+        },
+      });
+    });
+  });
+
+  await t.step("data stream event filters", async (t) => {
+    const dataStreamConfig = (
+      dsIn: Partial<Config["forward"][0]["data_stream"][0]["in"]>,
+    ): Config => ({
+      forward: [{
+        data_stream: [{
+          in: { measurement_id: "a", api_secret: "b", ...dsIn },
+          out: [{ measurement_id: "a", api_secret: "b" }],
+        }],
+        user_id: {
+          existing: DEFAULT_EXISTING_POLICY,
+          client_id: DEFAULT_CLIENT_ID_POLICY,
+          lifetime: {
+            unit: DEFAULT_LIFETIME_UNIT,
+            count: 1,
+            from: new Date(0),
+          },
+          scrambling_secret: null,
+        },
+        allow_debug: false,
+        fan_out_policy: "all",
+        content_types: ["application/json"],
+        allow_gtag: false,
+        split_events: false,
+        validation: "strict",
+        recommended_events: false,
+        destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
+      }],
+      listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
+    });
+
+    await t.step("formats patterns", async () => {
+      const config = dataStreamConfig({
+        allow_events: ["page_view", "ads_*"],
+        deny_events: [/^ads_test_/],
+        disallowed_events: "reject",
+      });
+      await assertEquals(removeUndefined(simplifyConfig(config)), {
+        forward: {
+          data_stream: {
+            measurement_id: "a",
+            api_secret: "b",
+            allow_events: ["page_view", "ads_*"],
+            deny_events: ["/^ads_test_/"],
+            disallowed_events: "reject",
+          },
+        },
+      });
+    });
+
+    await t.step("omits default disallowed_events", async () => {
+      const config = dataStreamConfig({
+        deny_events: ["debug"],
+        disallowed_events: "drop",
+      });
+      await assertEquals(removeUndefined(simplifyConfig(config)), {
+        forward: {
+          data_stream: {
+            measurement_id: "a",
+            api_secret: "b",
+            deny_events: ["debug"],
+          },
+        },
+      });
+    });
+  });
+
   await t.step("cors", async (t) => {
     await t.step("omits redundant data_stream cors", async () => {
       const config: Config = {
@@ -90,18 +346,19 @@ Deno.test("simplifyConfig()", async (t) => {
               api_secret: "b",
               cors: { allow_origin: ["https://example.com"], max_age: 3600 },
             },
-            out: { measurement_id: "a", api_secret: "b" },
+            out: [{ measurement_id: "a", api_secret: "b" }],
           }, {
             in: {
               measurement_id: "c",
               api_secret: "d",
               cors: { allow_origin: ["https://example.com"], max_age: 3600 },
             },
-            out: { measurement_id: "c", api_secret: "d" },
+            out: [{ measurement_id: "c", api_secret: "d" }],
           }],
           cors: { allow_origin: ["https://example.com"], max_age: 3600 },
           user_id: {
             existing: DEFAULT_EXISTING_POLICY,
+            client_id: DEFAULT_CLIENT_ID_POLICY,
             lifetime: {
               unit: DEFAULT_LIFETIME_UNIT,
               count: 1,
@@ -110,7 +367,13 @@ Deno.test("simplifyConfig()", async (t) => {
             scrambling_secret: null,
           },
           allow_debug: false,
-          destination: GA4MP_URL,
+          fan_out_policy: "all",
+          content_types: ["application/json"],
+          allow_gtag: false,
+          split_events: false,
+          validation: "strict",
+          recommended_events: false,
+          destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
         }],
         listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
       };
@@ -135,18 +398,19 @@ Deno.test("simplifyConfig()", async (t) => {
               api_secret: "b",
               cors: { allow_origin: ["https://a.example.com"], max_age: 120 },
             },
-            out: { measurement_id: "a", api_secret: "b" },
+            out: [{ measurement_id: "a", api_secret: "b" }],
           }, {
             in: {
               measurement_id: "c",
               api_secret: "d",
               cors: { allow_origin: ["https://b.example.com"], max_age: 180 },
             },
-            out: { measurement_id: "c", api_secret: "d" },
+            out: [{ measurement_id: "c", api_secret: "d" }],
           }],
           cors: { allow_origin: ["https://example.com"], max_age: 60 },
           user_id: {
             existing: DEFAULT_EXISTING_POLICY,
+            client_id: DEFAULT_CLIENT_ID_POLICY,
             lifetime: {
               unit: DEFAULT_LIFETIME_UNIT,
               count: 1,
@@ -155,7 +419,13 @@ Deno.test("simplifyConfig()", async (t) => {
             scrambling_secret: null,
           },
           allow_debug: false,
-          destination: GA4MP_URL,
+          fan_out_policy: "all",
+          content_types: ["application/json"],
+          allow_gtag: false,
+          split_events: false,
+          validation: "strict",
+          recommended_events: false,
+          destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
         }],
         listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
       };
@@ -191,7 +461,7 @@ Deno.test("simplifyConfig()", async (t) => {
                   api_secret: "b",
                   cors: { allow_origin: ["https://example.com"], max_age: 120 },
                 },
-                out: { measurement_id: "a", api_secret: "b" },
+                out: [{ measurement_id: "a", api_secret: "b" }],
               }, {
                 in: {
                   measurement_id: "c",
@@ -201,11 +471,12 @@ Deno.test("simplifyConfig()", async (t) => {
                     max_age: 60,
                   },
                 },
-                out: { measurement_id: "c", api_secret: "d" },
+                out: [{ measurement_id: "c", api_secret: "d" }],
               }],
               cors: { allow_origin: ["https://example.com"], max_age: 60 },
               user_id: {
                 existing: DEFAULT_EXISTING_POLICY,
+                client_id: DEFAULT_CLIENT_ID_POLICY,
                 lifetime: {
                   unit: DEFAULT_LIFETIME_UNIT,
                   count: 1,
@@ -214,7 +485,13 @@ Deno.test("simplifyConfig()", async (t) => {
                 scrambling_secret: null,
               },
               allow_debug: false,
-              destination: GA4MP_URL,
+              fan_out_policy: "all",
+              content_types: ["application/json"],
+              allow_gtag: false,
+              split_events: false,
+              validation: "strict",
+              recommended_events: false,
+              destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
             }],
             listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
           };
@@ -246,17 +523,18 @@ Deno.test("simplifyConfig()", async (t) => {
                   measurement_id: "a",
                   api_secret: "b",
                 },
-                out: { measurement_id: "a", api_secret: "b" },
+                out: [{ measurement_id: "a", api_secret: "b" }],
               }, {
                 in: {
                   measurement_id: "c",
                   api_secret: "d",
                 },
-                out: { measurement_id: "c", api_secret: "d" },
+                out: [{ measurement_id: "c", api_secret: "d" }],
               }],
               cors: { allow_origin: ["https://example.com"], max_age: 60 },
               user_id: {
                 existing: DEFAULT_EXISTING_POLICY,
+                client_id: DEFAULT_CLIENT_ID_POLICY,
                 lifetime: {
                   unit: DEFAULT_LIFETIME_UNIT,
                   count: 1,
@@ -265,7 +543,13 @@ Deno.test("simplifyConfig()", async (t) => {
                 scrambling_secret: null,
               },
               allow_debug: false,
-              destination: GA4MP_URL,
+              fan_out_policy: "all",
+              content_types: ["application/json"],
+              allow_gtag: false,
+              split_events: false,
+              validation: "strict",
+              recommended_events: false,
+              destination: { type: "ga4", url: GA4MP_URL, event_names: {} },
             }],
             listen: { hostname: DEFAULT_HOSTNAME, port: DEFAULT_PORT },
           };
@@ -1,4 +1,10 @@
 import { z } from "../deps.ts";
+import { parseIpNetwork } from "../_ip.ts";
+import { EventNamePattern as EventNamePatternValue } from "../event_filter.ts";
+import {
+  formatSlashDelimitedRegexString,
+  SlashDelimitedRegexString,
+} from "./cors_schemas.ts";
 
 export const NonEmptyString = z.string().min(1);
 export const DestinationUrl = z.string().url();
@@ -9,3 +15,27 @@ const DomainName = z.string().regex(
 export const Host = z.string().ip().or(DomainName);
 export const Port = z.number().int().nonnegative();
 export const ScramblerKey = z.string().min(1, { message: "Must not be empty" });
+export const IpNetworkString = z.string().refine(
+  (value) => parseIpNetwork(value) !== undefined,
+  { message: "Not an IP address or CIDR network" },
+);
+export const HeaderName = z.string().regex(/^[!#$%&'*+.^_`|~0-9a-z-]+$/i, {
+  message: "Not a valid HTTP header name",
+}).transform((name) => name.toLowerCase());
+
+/** An event name or glob pattern, or a `/regex/` of event names. */
+export const EventNamePattern = z.string().min(1).transform(
+  (value, ctx): EventNamePatternValue => {
+    if (!value.startsWith("/")) return value;
+    const result = SlashDelimitedRegexString.safeParse(value);
+    if (result.success) return result.data;
+    result.error.issues.forEach((issue) => ctx.addIssue(issue));
+    return z.NEVER;
+  },
+);
+
+export function formatEventNamePattern(pattern: EventNamePatternValue): string {
+  return pattern instanceof RegExp
+    ? formatSlashDelimitedRegexString(pattern)
+    : pattern;
+}
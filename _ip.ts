@@ -0,0 +1,175 @@
+/** An IPv4 or IPv6 address, as its big-endian bytes. */
+export type IpAddress =
+  | { version: 4; bytes: Uint8Array }
+  | { version: 6; bytes: Uint8Array };
+
+/** A range of IP addresses sharing the first `prefixLength` bits of `address`.
+ */
+export type IpNetwork = { address: IpAddress; prefixLength: number };
+
+const IPV4_DECIMAL_OCTET = /^(0|[1-9][0-9]{0,2})$/;
+const IPV6_HEXTET = /^[0-9a-f]{1,4}$/i;
+
+function parseIpv4Bytes(value: string): Uint8Array | undefined {
+  const parts = value.split(".");
+  if (parts.length !== 4) return undefined;
+  const bytes = new Uint8Array(4);
+  for (const [i, part] of parts.entries()) {
+    if (!IPV4_DECIMAL_OCTET.test(part)) return undefined;
+    const octet = parseInt(part);
+    if (octet > 255) return undefined;
+    bytes[i] = octet;
+  }
+  return bytes;
+}
+
+function parseIpv6Hextets(value: string): number[] | undefined {
+  if (value === "") return [];
+  const hextets: number[] = [];
+  const parts = value.split(":");
+  for (const [i, part] of parts.entries()) {
+    // The final 32 bits can be written as an IPv4 address.
+    if (i === parts.length - 1 && part.includes(".")) {
+      const ipv4 = parseIpv4Bytes(part);
+      if (!ipv4) return undefined;
+      hextets.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      continue;
+    }
+    if (!IPV6_HEXTET.test(part)) return undefined;
+    hextets.push(parseInt(part, 16));
+  }
+  return hextets;
+}
+
+function parseIpv6Bytes(value: string): Uint8Array | undefined {
+  // Zone IDs (e.g. fe80::1%eth0) don't affect the address itself.
+  const zoneStart = value.indexOf("%");
+  if (zoneStart >= 0) value = value.substring(0, zoneStart);
+
+  const halves = value.split("::");
+  if (halves.length > 2) return undefined;
+  const head = parseIpv6Hextets(halves[0]);
+  const tail = halves.length === 2 ? parseIpv6Hextets(halves[1]) : [];
+  if (!head || !tail) return undefined;
+
+  const elided = 8 - head.length - tail.length;
+  if (halves.length === 2 ? elided < 1 : elided !== 0) return undefined;
+
+  const hextets = [...head, ...new Array(elided).fill(0), ...tail];
+  const bytes = new Uint8Array(16);
+  for (const [i, hextet] of hextets.entries()) {
+    bytes[i * 2] = hextet >> 8;
+    bytes[i * 2 + 1] = hextet & 0xff;
+  }
+  return bytes;
+}
+
+function isIpv4Mapped(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, 10).every((b) => b === 0) &&
+    bytes[10] === 0xff && bytes[11] === 0xff;
+}
+
+/** Parse an IPv4 or IPv6 address.
+ *
+ * IPv4-mapped IPv6 addresses (`::ffff:1.2.3.4`) are treated as the IPv4
+ * address they contain, as dual-stack sockets report IPv4 clients this way.
+ *
+ * @returns The address, or undefined if `value` is not an IP address.
+ */
+export function parseIpAddress(value: string): IpAddress | undefined {
+  if (value.includes(":")) {
+    const bytes = parseIpv6Bytes(value);
+    if (!bytes) return undefined;
+    if (isIpv4Mapped(bytes)) return { version: 4, bytes: bytes.slice(12) };
+    return { version: 6, bytes };
+  }
+  const bytes = parseIpv4Bytes(value);
+  return bytes && { version: 4, bytes };
+}
+
+/** Format an IP address in its canonical text representation.
+ *
+ * IPv6 addresses are formatted as recommended by RFC 5952 — lowercase, with
+ * the longest run of zero hextets elided.
+ */
+export function formatIpAddress(address: IpAddress): string {
+  if (address.version === 4) return address.bytes.join(".");
+
+  const hextets: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    hextets.push((address.bytes[i] << 8) | address.bytes[i + 1]);
+  }
+
+  // Find the longest run of 2 or more zero hextets to elide.
+  let [bestStart, bestLength] = [-1, 1];
+  for (let start = 0; start < 8;) {
+    let end = start;
+    while (end < 8 && hextets[end] === 0) end++;
+    if (end - start > bestLength) {
+      [bestStart, bestLength] = [start, end - start];
+    }
+    start = end === start ? start + 1 : end;
+  }
+
+  const hex = hextets.map((h) => h.toString(16));
+  if (bestStart < 0) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${
+    hex.slice(bestStart + bestLength).join(":")
+  }`;
+}
+
+function maxPrefixLength(version: IpAddress["version"]): number {
+  return version === 4 ? 32 : 128;
+}
+
+/** Parse a CIDR network, such as `10.0.0.0/8` or `2001:db8::/32`.
+ *
+ * A single address without a `/` suffix is a network containing only that
+ * address.
+ *
+ * @returns The network, or undefined if `value` is not a valid network.
+ */
+export function parseIpNetwork(value: string): IpNetwork | undefined {
+  const [addressText, prefixText, ...rest] = value.split("/");
+  if (rest.length) return undefined;
+  const address = parseIpAddress(addressText);
+  if (!address) return undefined;
+
+  const maxLength = maxPrefixLength(address.version);
+  if (prefixText === undefined) return { address, prefixLength: maxLength };
+  if (!/^(0|[1-9][0-9]*)$/.test(prefixText)) return undefined;
+  let prefixLength = parseInt(prefixText);
+  // IPv4-mapped networks are parsed as IPv4, so their prefix is also adjusted.
+  if (address.version === 4 && addressText.includes(":")) prefixLength -= 96;
+  if (prefixLength < 0 || prefixLength > maxLength) return undefined;
+  return { address, prefixLength };
+}
+
+/** Format a network as a CIDR string. */
+export function formatIpNetwork(network: IpNetwork): string {
+  return `${formatIpAddress(network.address)}/${network.prefixLength}`;
+}
+
+/** Get an address with all but the first `prefixLength` bits set to 0. */
+export function truncateIpAddress(
+  address: IpAddress,
+  prefixLength: number,
+): IpAddress {
+  const bytes = address.bytes.slice();
+  for (let i = 0; i < bytes.length; i++) {
+    const keepBits = Math.min(Math.max(prefixLength - i * 8, 0), 8);
+    bytes[i] &= (0xff << (8 - keepBits)) & 0xff;
+  }
+  return { version: address.version, bytes } as IpAddress;
+}
+
+/** Check if an address is within a network. */
+export function ipNetworkContains(
+  network: IpNetwork,
+  address: IpAddress,
+): boolean {
+  if (network.address.version !== address.version) return false;
+  const truncated = truncateIpAddress(address, network.prefixLength);
+  const base = truncateIpAddress(network.address, network.prefixLength);
+  return truncated.bytes.every((b, i) => b === base.bytes[i]);
+}
@@ -0,0 +1,143 @@
+import {
+  formatIpAddress,
+  formatIpNetwork,
+  IpAddress,
+  ipNetworkContains,
+  parseIpAddress,
+  parseIpNetwork,
+  truncateIpAddress,
+} from "./_ip.ts";
+import { assert, assertEquals } from "./dev_deps.ts";
+
+function ip(value: string): IpAddress {
+  const address = parseIpAddress(value);
+  assert(address, `invalid address: ${value}`);
+  return address;
+}
+
+Deno.test("parseIpAddress()", async (t) => {
+  await t.step("parses IPv4", () => {
+    assertEquals(parseIpAddress("192.168.0.1"), {
+      version: 4,
+      bytes: new Uint8Array([192, 168, 0, 1]),
+    });
+  });
+
+  await t.step("parses IPv6", () => {
+    assertEquals(
+      parseIpAddress("2001:db8::ff00:42:8329"),
+      parseIpAddress("2001:0db8:0000:0000:0000:ff00:0042:8329"),
+    );
+    assertEquals(parseIpAddress("::")?.bytes, new Uint8Array(16));
+    assertEquals(parseIpAddress("::1")?.bytes.at(-1), 1);
+    assertEquals(parseIpAddress("fe80::1%eth0"), parseIpAddress("fe80::1"));
+  });
+
+  await t.step("parses IPv4-mapped IPv6 as IPv4", () => {
+    assertEquals(parseIpAddress("::ffff:1.2.3.4"), parseIpAddress("1.2.3.4"));
+    assertEquals(parseIpAddress("::ffff:102:304"), parseIpAddress("1.2.3.4"));
+  });
+
+  await t.step("rejects invalid addresses", async (t) => {
+    const invalid = [
+      "",
+      "1.2.3",
+      "1.2.3.4.5",
+      "1.2.3.256",
+      "01.2.3.4",
+      "1.2.3.4 ",
+      "example.com",
+      "1:2:3:4:5:6:7",
+      "1:2:3:4:5:6:7:8:9",
+      "1::2::3",
+      "1:2:3:4:5:6:7::8",
+      "12345::",
+      "::g",
+      "[::1]",
+    ];
+    for (const value of invalid) {
+      await t.step(JSON.stringify(value), () => {
+        assertEquals(parseIpAddress(value), undefined);
+      });
+    }
+  });
+});
+
+Deno.test("formatIpAddress()", async (t) => {
+  const examples = [
+    ["1.2.3.4", "1.2.3.4"],
+    ["::", "::"],
+    ["::1", "::1"],
+    ["2001:DB8:0:0:0:0:2:1", "2001:db8::2:1"],
+    ["2001:db8:0:1:1:1:1:1", "2001:db8:0:1:1:1:1:1"],
+    ["2001:0:0:1:0:0:0:1", "2001:0:0:1::1"],
+    ["2001:db8:0:0:1:0:0:1", "2001:db8::1:0:0:1"],
+    ["fe80::", "fe80::"],
+  ];
+  for (const [input, formatted] of examples) {
+    await t.step(`${input} → ${formatted}`, () => {
+      assertEquals(formatIpAddress(ip(input)), formatted);
+    });
+  }
+});
+
+Deno.test("parseIpNetwork()", async (t) => {
+  await t.step("parses CIDR notation", () => {
+    const network = parseIpNetwork("10.0.0.0/8");
+    assert(network);
+    assertEquals(formatIpNetwork(network), "10.0.0.0/8");
+  });
+
+  await t.step("single addresses are a network of one", () => {
+    assertEquals(parseIpNetwork("10.0.0.1")?.prefixLength, 32);
+    assertEquals(parseIpNetwork("::1")?.prefixLength, 128);
+  });
+
+  await t.step("IPv4-mapped networks are IPv4", () => {
+    assertEquals(parseIpNetwork("::ffff:10.0.0.0/104"), {
+      address: ip("10.0.0.0"),
+      prefixLength: 8,
+    });
+  });
+
+  await t.step("rejects invalid networks", async (t) => {
+    const invalid = ["10.0.0.0/", "10.0.0.0/33", "::/129", "10.0.0.0/08", "/8"];
+    for (const value of invalid) {
+      await t.step(value, () => {
+        assertEquals(parseIpNetwork(value), undefined);
+      });
+    }
+  });
+});
+
+Deno.test("truncateIpAddress()", () => {
+  assertEquals(truncateIpAddress(ip("1.2.3.4"), 24), ip("1.2.3.0"));
+  assertEquals(truncateIpAddress(ip("1.2.255.4"), 20), ip("1.2.240.0"));
+  assertEquals(truncateIpAddress(ip("1.2.3.4"), 0), ip("0.0.0.0"));
+  assertEquals(truncateIpAddress(ip("1.2.3.4"), 32), ip("1.2.3.4"));
+  assertEquals(
+    truncateIpAddress(ip("2001:db8:1:2:3:4:5:6"), 48),
+    ip("2001:db8:1::"),
+  );
+});
+
+Deno.test("ipNetworkContains()", async (t) => {
+  const examples: [network: string, address: string, contains: boolean][] = [
+    ["10.0.0.0/8", "10.1.2.3", true],
+    ["10.0.0.0/8", "11.1.2.3", false],
+    ["10.1.2.3", "10.1.2.3", true],
+    ["10.1.2.3", "10.1.2.4", false],
+    ["0.0.0.0/0", "1.2.3.4", true],
+    ["0.0.0.0/0", "::1", false],
+    ["fd00::/8", "fd12:3456::1", true],
+    ["fd00::/8", "fe80::1", false],
+    ["10.0.0.0/8", "::ffff:10.0.0.1", true],
+  ];
+  for (const [network, address, contains] of examples) {
+    await t.step(`${network} contains ${address}: ${contains}`, () => {
+      const net = parseIpNetwork(network);
+      assert(net);
+      assertEquals(ipNetworkContains(net, ip(address)), contains);
+    });
+  }
+});
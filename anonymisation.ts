@@ -1,8 +1,9 @@
 import { MatchedRequestMetaDecorator } from "./rules.ts";
-import { ApprovedCollectRequestMeta } from "./meta.ts";
+import { ApprovedCollectRequestMeta, RequestMeta } from "./meta.ts";
 import { MaybePromise, Result } from "./_misc.ts";
 import {
   GA4MPPayload,
+  PayloadConsentError,
   PayloadParser,
   RequestMatchError,
   UnknownPayload,
@@ -11,6 +12,11 @@ import { AnyPayload } from "./payload_schemas.ts";
 import { assert, generate, z } from "./deps.ts";
 import { differenceUtc } from "./_datetime.ts";
 import { getDefaultKv } from "./storage.ts";
+import {
+  ClientAddressResolver,
+  remoteAddressResolver,
+} from "./_client_address.ts";
+import { formatIpAddress, parseIpAddress, truncateIpAddress } from "./_ip.ts";
 
 type OneOrMore<T> = [T, ...T[]];
 
@@ -31,7 +37,29 @@ export const ROOT_NAMESPACE = "E0C52FDC-DE4C-408A-B03A-70BC4C836F54";
  * approach to other analytics software, such as GoatCounter, Picwik
  */
 export class AnonymisationProvider {
-  constructor(private readonly userIdAssigner: UserIdAssigner) {}
+  private readonly userIdAssigner: UserIdAssigner;
+  private readonly clientIdAssigner: ClientIdAssigner | undefined;
+  private readonly clientAddressResolver: ClientAddressResolver;
+  private readonly consentPolicy: ConsentPolicy | undefined;
+
+  constructor(
+    {
+      userIdAssigner,
+      clientIdAssigner,
+      clientAddressResolver = remoteAddressResolver,
+      consentPolicy,
+    }: {
+      userIdAssigner: UserIdAssigner;
+      clientIdAssigner?: ClientIdAssigner;
+      clientAddressResolver?: ClientAddressResolver;
+      consentPolicy?: ConsentPolicy;
+    },
+  ) {
+    this.userIdAssigner = userIdAssigner;
+    this.clientIdAssigner = clientIdAssigner;
+    this.clientAddressResolver = clientAddressResolver;
+    this.consentPolicy = consentPolicy;
+  }
 
   /** Create components to create anonymous user_id values in payloads.
    *
@@ -41,22 +69,55 @@ export class AnonymisationProvider {
    * given `user_id`.
    *
    * @param options.namespace A value that contributes to the user_id hash.
-   * @param options.userIdAssigner How to handle payloads with an existing user_id.
+   * @param options.existingUserIdPolicy How to handle payloads with an existing
+   * user_id.
+   * @param options.existingClientIdPolicy How to handle the client_id of
+   * payloads. The default is to keep them unmodified.
+   * @param options.clientAddressResolver Determines the IP address of the
+   * client making a request. The default is the connection's remote address.
+   * @param options.userIdComponents The request features that generated IDs
+   * are derived from.
+   * @param options.consent What to do with payloads that users have not
+   * consented to, or requests that opt out of tracking. The default is to
+   * forward all payloads.
    */
   static async create(
-    { secret, lifetime, existingUserIdPolicy, kv }: {
+    {
+      secret,
+      lifetime,
+      existingUserIdPolicy,
+      existingClientIdPolicy,
+      clientAddressResolver,
+      userIdComponents,
+      consent,
+      kv,
+    }: {
       secret?: string;
       lifetime?: Lifetime;
       existingUserIdPolicy?: ExistingIdPolicy;
+      existingClientIdPolicy?: ExistingIdPolicy;
+      clientAddressResolver?: ClientAddressResolver;
+      userIdComponents?: DefaultUserIdComponentsProviderOptions;
+      consent?: ConsentActions;
       kv?: Deno.Kv;
     } = {},
   ): Promise<AnonymisationProvider> {
-    return new AnonymisationProvider(
-      DefaultUserIdAssigner.create({
-        namespaceProvider: await createNamespace({ secret, lifetime, kv }),
+    const namespaceProvider = await createNamespace({ secret, lifetime, kv });
+    const idComponents = new DefaultUserIdComponentsProvider(userIdComponents);
+    return new AnonymisationProvider({
+      userIdAssigner: DefaultUserIdAssigner.create({
+        namespaceProvider,
         existingIdPolicy: existingUserIdPolicy,
+        idComponents,
       }),
-    );
+      clientIdAssigner: DefaultClientIdAssigner.create({
+        namespaceProvider,
+        existingIdPolicy: existingClientIdPolicy,
+        idComponents,
+      }),
+      clientAddressResolver,
+      consentPolicy: consent && new ConsentPolicy(consent),
+    });
   }
 
   createRequestMetaDecorator<
@@ -79,7 +140,7 @@ export class AnonymisationProvider {
       if (!match.success) return match;
 
       const distinguishingFeatures = {
-        requestIp: options.info.remoteAddr.hostname,
+        requestIp: this.clientAddressResolver(options.request, options.info),
         requestUserAgent: options.request.headers.get("user-agent") ?? "",
         requestAcceptLanguage: options.request.headers.get("accept-language") ??
           "",
@@ -107,21 +168,146 @@ export class AnonymisationProvider {
   ): PayloadParser<
     RawPayloadT,
     PayloadT,
-    PayloadParseErrorT,
+    PayloadParseErrorT | PayloadConsentError,
     RequestMetaT
   > {
     return async (payload, options) => {
       const result = await next(payload, options);
       if (!result.success) return result;
+
+      // The client's IP address and hashed personal data identify users.
+      delete result.data.payload.ip_override;
+      delete result.data.payload.user_data;
+
+      const decision = this.consentPolicy?.decide(
+        result.data.payload,
+        options.requestMeta,
+      ) ?? { action: ConsentAction.Enum.forward };
+      switch (decision.action) {
+        case ConsentAction.Enum.drop:
+          return {
+            success: false,
+            error: { name: "payload-dropped", signal: decision.signal },
+          };
+        case ConsentAction.Enum.reject:
+          return {
+            success: false,
+            error: { name: "payload-rejected", signal: decision.signal },
+          };
+        case ConsentAction.Enum.anonymise:
+          // IDs are generated from the request alone, so payloads can't be
+          // linked to IDs provided by the client.
+          delete result.data.payload.user_id;
+          delete result.data.payload.user_properties;
+          await this.userIdAssigner.assignUserId(
+            result.data.payload,
+            options.requestMeta,
+          );
+          await this.clientIdAssigner?.assignClientId(
+            result.data.payload,
+            options.requestMeta,
+            { existingIdPolicy: ExistingIdPolicy.Enum.replace },
+          );
+          return result;
+      }
+
       await this.userIdAssigner.assignUserId(
         result.data.payload,
         options.requestMeta,
       );
+      await this.clientIdAssigner?.assignClientId(
+        result.data.payload,
+        options.requestMeta,
+      );
       return result;
     };
   }
 }
 
+/** What to do with payloads that a consent signal applies to.
+ *
+ * - `forward`: Forward the payload as normal.
+ * - `anonymise`: Remove the payload's `user_id` and `user_properties`, and
+ *    replace its `client_id` with a generated ID.
+ * - `drop`: Don't forward the payload, but respond as if it was forwarded.
+ * - `reject`: Don't forward the payload, and respond with an error.
+ */
+export const ConsentAction = z.enum(["forward", "anonymise", "drop", "reject"]);
+export type ConsentAction = z.infer<typeof ConsentAction>;
+
+/** Signals that a user has not consented to tracking.
+ *
+ * - `ad_user_data_denied`: The payload's `consent.ad_user_data` is DENIED.
+ * - `ad_personalization_denied`: The payload's `consent.ad_personalization` is
+ *    DENIED.
+ * - `gpc`: The request has a `Sec-GPC: 1` (Global Privacy Control) header.
+ * - `dnt`: The request has a `DNT: 1` (Do Not Track) header.
+ */
+export const ConsentSignal = z.enum([
+  "ad_user_data_denied",
+  "ad_personalization_denied",
+  "gpc",
+  "dnt",
+]);
+export type ConsentSignal = z.infer<typeof ConsentSignal>;
+
+/** The action to take for each consent signal. Unset signals are forwarded. */
+export type ConsentActions = Partial<Record<ConsentSignal, ConsentAction>>;
+
+export type ConsentDecision =
+  | { action: "forward"; signal?: undefined }
+  | { action: Exclude<ConsentAction, "forward">; signal: ConsentSignal };
+
+type ConsentPayload = Pick<AnyPayload, "consent">;
+
+/** Decides how to handle payloads from the consent signals that apply to them.
+ *
+ * When several signals apply, the strictest action is taken, from least to
+ * most strict: forward, anonymise, drop, reject.
+ */
+export class ConsentPolicy {
+  private readonly actions: ConsentActions;
+
+  constructor(actions: ConsentActions) {
+    this.actions = { ...actions };
+  }
+
+  getSignals(
+    payload: ConsentPayload,
+    requestMeta: RequestMeta,
+  ): ConsentSignal[] {
+    const signals: ConsentSignal[] = [];
+    if (payload.consent?.ad_user_data === "DENIED") {
+      signals.push(ConsentSignal.Enum.ad_user_data_denied);
+    }
+    if (payload.consent?.ad_personalization === "DENIED") {
+      signals.push(ConsentSignal.Enum.ad_personalization_denied);
+    }
+    if (requestMeta.headers.get("sec-gpc")?.trim() === "1") {
+      signals.push(ConsentSignal.Enum.gpc);
+    }
+    if (requestMeta.headers.get("dnt")?.trim() === "1") {
+      signals.push(ConsentSignal.Enum.dnt);
+    }
+    return signals;
+  }
+
+  decide(payload: ConsentPayload, requestMeta: RequestMeta): ConsentDecision {
+    let decision: ConsentDecision = { action: ConsentAction.Enum.forward };
+    for (const signal of this.getSignals(payload, requestMeta)) {
+      const action = this.actions[signal] ?? ConsentAction.Enum.forward;
+      if (
+        action !== ConsentAction.Enum.forward &&
+        ConsentAction.options.indexOf(action) >
+          ConsentAction.options.indexOf(decision.action)
+      ) {
+        decision = { action, signal };
+      }
+    }
+    return decision;
+  }
+}
+
 interface NamespaceProvider<
   RequestMetaT extends UserDistinctionRequestMeta = UserDistinctionRequestMeta,
 > {
@@ -399,6 +585,7 @@ export type DefaultUserIdAssignerCreateOptions<
 > = {
   namespaceProvider: NamespaceProvider<RequestMetaT>;
   existingIdPolicy?: ExistingIdPolicy;
+  idComponents?: UserIdComponentsProvider<UserIdPayload, RequestMetaT>;
 };
 
 /** Responsible for rewriting a payload's `user_id` with an anonymised version. */
@@ -429,12 +616,15 @@ export class DefaultUserIdAssigner<
   }
 
   static create<RequestMetaT extends UserDistinctionRequestMeta>(
-    { namespaceProvider, existingIdPolicy = ExistingIdPolicy.Enum.scramble }:
-      DefaultUserIdAssignerCreateOptions<RequestMetaT>,
+    {
+      namespaceProvider,
+      existingIdPolicy = ExistingIdPolicy.Enum.scramble,
+      idComponents = new DefaultUserIdComponentsProvider(),
+    }: DefaultUserIdAssignerCreateOptions<RequestMetaT>,
   ): DefaultUserIdAssigner<UserIdPayload, RequestMetaT> {
     return new DefaultUserIdAssigner({
       existingIdPolicy,
-      idComponents: new DefaultUserIdComponentsProvider(),
+      idComponents,
       idEncoder: new UuidV5NamespacedIdEncoder(),
       namespaceProvider: namespaceProvider,
     });
@@ -483,6 +673,119 @@ export class DefaultUserIdAssigner<
   }
 }
 
+type ClientIdPayload = UserIdPayload & { client_id: string };
+
+interface ClientIdAssigner<
+  PayloadT extends ClientIdPayload = ClientIdPayload,
+  RequestMetaT extends UserDistinctionRequestMeta = UserDistinctionRequestMeta,
+> {
+  assignClientId(
+    payload: PayloadT,
+    requestMeta: RequestMetaT,
+    options?: AssignClientIdOptions,
+  ): MaybePromise<void>;
+}
+
+export type AssignClientIdOptions = {
+  /** Overrides the assigner's policy for this payload. */
+  existingIdPolicy?: ExistingIdPolicy;
+};
+
+export type DefaultClientIdAssignerCreateOptions<
+  RequestMetaT extends UserDistinctionRequestMeta,
+> = {
+  namespaceProvider: NamespaceProvider<RequestMetaT>;
+  existingIdPolicy?: ExistingIdPolicy;
+  idComponents?: UserIdComponentsProvider<ClientIdPayload, RequestMetaT>;
+};
+
+/** Responsible for rewriting a payload's `client_id` with an anonymised version.
+ *
+ * Browsers typically generate a persistent `client_id` value, which links all
+ * of a visitor's events together, regardless of how their `user_id` is
+ * anonymised.
+ *
+ * - `keep`: The `client_id` is forwarded unmodified.
+ * - `scramble`: The `client_id` is hashed into the request's ID namespace.
+ * - `replace`: The `client_id` is replaced with the same ID that is generated
+ *    for payloads without a `user_id`.
+ */
+export class DefaultClientIdAssigner<
+  PayloadT extends ClientIdPayload = ClientIdPayload,
+  RequestMetaT extends UserDistinctionRequestMeta = UserDistinctionRequestMeta,
+> implements ClientIdAssigner<PayloadT, RequestMetaT> {
+  private readonly namespaceProvider: NamespaceProvider<RequestMetaT>;
+  private readonly idComponents: UserIdComponentsProvider<
+    PayloadT,
+    RequestMetaT
+  >;
+  private readonly existingIdPolicy: ExistingIdPolicy;
+  private readonly idEncoder: NamespacedIdEncoder;
+
+  constructor(
+    options: {
+      existingIdPolicy: ExistingIdPolicy;
+      idComponents: UserIdComponentsProvider<PayloadT, RequestMetaT>;
+      idEncoder: NamespacedIdEncoder;
+      namespaceProvider: NamespaceProvider<RequestMetaT>;
+    },
+  ) {
+    this.existingIdPolicy = options.existingIdPolicy;
+    this.idComponents = options.idComponents;
+    this.idEncoder = options.idEncoder;
+    this.namespaceProvider = options.namespaceProvider;
+  }
+
+  static create<RequestMetaT extends UserDistinctionRequestMeta>(
+    {
+      namespaceProvider,
+      existingIdPolicy = ExistingIdPolicy.Enum.keep,
+      idComponents = new DefaultUserIdComponentsProvider(),
+    }: DefaultClientIdAssignerCreateOptions<RequestMetaT>,
+  ): DefaultClientIdAssigner<ClientIdPayload, RequestMetaT> {
+    return new DefaultClientIdAssigner({
+      existingIdPolicy,
+      idComponents,
+      idEncoder: new UuidV5NamespacedIdEncoder(),
+      namespaceProvider: namespaceProvider,
+    });
+  }
+
+  async assignClientId(
+    payload: PayloadT,
+    requestMeta: RequestMetaT,
+    { existingIdPolicy = this.existingIdPolicy }: AssignClientIdOptions = {},
+  ): Promise<void> {
+    if (existingIdPolicy === ExistingIdPolicy.Enum.keep) return;
+
+    const namespace = await this.namespaceProvider.getNamespace(requestMeta);
+
+    if (existingIdPolicy === ExistingIdPolicy.Enum.scramble) {
+      // The tag differs from the one used for user_id values, so that a
+      // client_id and user_id with the same value don't scramble to the same ID.
+      payload.client_id = await this.idEncoder.encodeId(
+        namespace,
+        "provided_client_id",
+        payload.client_id,
+      );
+    } else {
+      // Use the same ID that is generated for payloads without a user_id.
+      const idComponents = this.idComponents.getIdComponents(
+        payload,
+        requestMeta,
+      );
+      if (idComponents.length === 0) {
+        throw new Error("No id components provided");
+      }
+      payload.client_id = await this.idEncoder.encodeId(
+        namespace,
+        "generated",
+        ...idComponents,
+      );
+    }
+  }
+}
+
 export interface UserIdComponentsProvider<
   PayloadT extends UserIdPayload = UserIdPayload,
   RequestMetaT extends UserDistinctionRequestMeta = UserDistinctionRequestMeta,
@@ -493,17 +796,78 @@ export interface UserIdComponentsProvider<
   ): string[];
 }
 
+export type DefaultUserIdComponentsProviderOptions = {
+  /** Include the client's IP address. Default: true */
+  ip?: boolean;
+  /** Include the User-Agent header. Default: true */
+  userAgent?: boolean;
+  /** Include the Accept-Language header. Default: true */
+  acceptLanguage?: boolean;
+  /** Names of additional request headers to include. Default: none */
+  headers?: string[];
+  /** The number of leading bits of IPv4 addresses to keep. Default: 32 */
+  ipv4Prefix?: number;
+  /** The number of leading bits of IPv6 addresses to keep. Default: 128 */
+  ipv6Prefix?: number;
+};
+
+/** Derive ID components from configurable features of requests.
+ *
+ * By default the components are the client's IP address, User-Agent and
+ * Accept-Language. IP addresses can be truncated to a network prefix, so that
+ * clients whose address changes within a network (e.g. mobile users in a
+ * carrier's address range) keep the same ID.
+ */
 export class DefaultUserIdComponentsProvider
   implements UserIdComponentsProvider {
+  private readonly ip: boolean;
+  private readonly userAgent: boolean;
+  private readonly acceptLanguage: boolean;
+  private readonly headers: string[];
+  private readonly ipv4Prefix: number;
+  private readonly ipv6Prefix: number;
+
+  constructor(
+    {
+      ip = true,
+      userAgent = true,
+      acceptLanguage = true,
+      headers = [],
+      ipv4Prefix = 32,
+      ipv6Prefix = 128,
+    }: DefaultUserIdComponentsProviderOptions = {},
+  ) {
+    this.ip = ip;
+    this.userAgent = userAgent;
+    this.acceptLanguage = acceptLanguage;
+    this.headers = headers;
+    this.ipv4Prefix = ipv4Prefix;
+    this.ipv6Prefix = ipv6Prefix;
+  }
+
   getIdComponents(
     _payload: UserIdPayload,
     requestMeta: UserDistinctionRequestMeta,
   ): string[] {
-    return [
-      requestMeta.distinguishingFeatures.requestIp,
-      requestMeta.distinguishingFeatures.requestUserAgent,
-      requestMeta.distinguishingFeatures.requestAcceptLanguage,
-    ];
+    const features = requestMeta.distinguishingFeatures;
+    const components: string[] = [];
+    if (this.ip) components.push(this.truncateIp(features.requestIp));
+    if (this.userAgent) components.push(features.requestUserAgent);
+    if (this.acceptLanguage) components.push(features.requestAcceptLanguage);
+    for (const header of this.headers) {
+      components.push(requestMeta.headers.get(header) ?? "");
+    }
+    return components;
+  }
+
+  private truncateIp(requestIp: string): string {
+    const address = parseIpAddress(requestIp);
+    if (!address) return requestIp;
+    const prefix = address.version === 4 ? this.ipv4Prefix : this.ipv6Prefix;
+    // Full-length addresses are used as-is, so that IDs are not affected by
+    // formatting differences.
+    if (prefix >= address.bytes.length * 8) return requestIp;
+    return formatIpAddress(truncateIpAddress(address, prefix));
   }
 }
 
@@ -8,7 +8,10 @@ import {
 } from "./_testing.ts";
 import {
   AnonymisationProvider,
+  ConsentActions,
+  ConsentPolicy,
   DefaultTimeBucket,
+  DefaultUserIdComponentsProvider,
   ExistingIdPolicy,
   Lifetime,
   UserDistinctionRequestMeta,
@@ -54,6 +57,7 @@ Deno.test("RequestMetaDecorator", async (t) => {
     measurement_id: options.measurement_id ?? "c",
     api_secret: options.api_secret ?? "d",
     endpoint: options.endpoint ?? "https://upstream.example.com/mp/collect",
+    in_measurement_id: options.in_measurement_id ?? "a",
   });
 
   await t.step("createRequestMetaDecorator()", async (t) => {
@@ -130,12 +134,15 @@ Deno.test("RequestMetaDecorator", async (t) => {
 
     interface GetParserOptions {
       policy?: ExistingIdPolicy;
+      clientIdPolicy?: ExistingIdPolicy;
       secret?: string;
       lifetime?: Lifetime;
+      consent?: ConsentActions;
     }
 
     interface ParseOptions extends DistinguishedMetaOptions {
       user_id?: string;
+      client_id?: string;
     }
 
     interface RunOptions extends GetParserOptions, ParseOptions {}
@@ -144,8 +151,10 @@ Deno.test("RequestMetaDecorator", async (t) => {
       return (await AnonymisationProvider.create({
         kv,
         existingUserIdPolicy: options.policy,
+        existingClientIdPolicy: options.clientIdPolicy,
         secret: options.secret,
         lifetime: options.lifetime,
+        consent: options.consent,
       })).createPayloadParser(nextParser);
     }
     type Parser = Awaited<ReturnType<typeof getParser>>;
@@ -173,7 +182,7 @@ Deno.test("RequestMetaDecorator", async (t) => {
 
       const result = await parser({
         payload: {
-          client_id: "test",
+          client_id: options.client_id ?? "test",
           user_id: options.user_id,
           events: [],
         },
@@ -244,6 +253,175 @@ Deno.test("RequestMetaDecorator", async (t) => {
       });
     });
 
+    await t.step("option existingClientIdPolicy", async (t) => {
+      await t.step("keep", async () => {
+        const result = await run({ clientIdPolicy: "keep", client_id: "foo" });
+        assertEquals(result.client_id, "foo");
+      });
+
+      await t.step("replace", async () => {
+        const options: RunOptions = {
+          clientIdPolicy: "replace",
+          client_id: "foo",
+          user_id: undefined,
+        };
+        const result1 = await run({ ...options, requestIp: "1.2.3.4" });
+        const result2 = await run({ ...options, requestIp: "4.3.2.1" });
+
+        assertUuid(result1.client_id);
+        // The replacement ID is generated from distinguishing attributes in
+        // the same way as a missing user_id, so they're the same.
+        assertEquals(result1.client_id, result1.user_id);
+        assertNotEquals(result1.client_id, result2.client_id);
+      });
+
+      await t.step("scramble", async () => {
+        const options: RunOptions = {
+          clientIdPolicy: "scramble",
+          client_id: "foo",
+        };
+        const result1 = await run({ ...options, requestIp: "1.2.3.4" });
+        const result2 = await run({ ...options, requestIp: "4.3.2.1" });
+        const result3 = await run({ ...options, client_id: "bar" });
+
+        assertUuid(result1.client_id);
+        // Scrambled ID depends on provided client_id, not distinguishing
+        // attributes, so IDs of requests from different sources are the same.
+        assertEquals(result1.client_id, result2.client_id);
+        assertNotEquals(result1.client_id, result3.client_id);
+      });
+
+      await t.step(
+        "scrambled client_id differs from scrambled user_id",
+        async () => {
+          const result = await run({
+            policy: "scramble",
+            clientIdPolicy: "scramble",
+            user_id: "foo",
+            client_id: "foo",
+          });
+          assertUuid(result.client_id);
+          assertNotEquals(result.client_id, result.user_id);
+        },
+      );
+
+      await t.step("keep is default", async () => {
+        const result = await run({
+          clientIdPolicy: undefined,
+          client_id: "foo",
+        });
+        assertEquals(result.client_id, "foo");
+      });
+    });
+
+    await t.step("removes ip_override and user_data", async () => {
+      const parser = await getParser({ policy: "keep" });
+      const result = await parser({
+        payload: {
+          client_id: "foo",
+          ip_override: "203.0.113.1",
+          user_data: { sha256_email_address: "a".repeat(64) },
+          user_location: { country_id: "US" },
+          events: [],
+        },
+      }, { requestMeta: distinguishedMeta() });
+
+      assertSuccessful(result);
+      assertEquals(result.data.payload.ip_override, undefined);
+      assertEquals(result.data.payload.user_data, undefined);
+      assertEquals(result.data.payload.user_location, { country_id: "US" });
+    });
+
+    await t.step("option consent", async (t) => {
+      const consentPayload = (
+        consent?: AnyPayload["consent"],
+      ): GA4MPPayload<AnyPayload> => ({
+        payload: {
+          client_id: "foo",
+          user_id: "bar",
+          user_properties: { plan: { value: "pro" } },
+          consent,
+          events: [],
+        },
+      });
+      const denied: AnyPayload["consent"] = {
+        ad_user_data: "DENIED",
+        ad_personalization: "GRANTED",
+      };
+
+      await t.step("forwards payloads by default", async () => {
+        const parser = await getParser({ policy: "keep" });
+        const result = await parser(consentPayload(denied), {
+          requestMeta: distinguishedMeta({
+            headers: new Headers({ "Sec-GPC": "1", "DNT": "1" }),
+          }),
+        });
+
+        assertSuccessful(result);
+        assertEquals(result.data.payload.user_id, "bar");
+      });
+
+      await t.step("anonymise removes user data", async () => {
+        const parser = await getParser({
+          policy: "keep",
+          consent: { ad_user_data_denied: "anonymise" },
+        });
+        const result = await parser(consentPayload(denied), {
+          requestMeta: distinguishedMeta(),
+        });
+
+        assertSuccessful(result);
+        assertUuid(result.data.payload.user_id);
+        // The client_id is replaced by the generated ID, like the user_id
+        assertEquals(
+          result.data.payload.client_id,
+          result.data.payload.user_id,
+        );
+        assertEquals(result.data.payload.user_properties, undefined);
+      });
+
+      await t.step("drop fails with payload-dropped", async () => {
+        const parser = await getParser({ consent: { gpc: "drop" } });
+        const result = await parser(consentPayload(), {
+          requestMeta: distinguishedMeta({
+            headers: new Headers({ "Sec-GPC": "1" }),
+          }),
+        });
+
+        assertUnsuccessful(result);
+        assertEquals(result.error, { name: "payload-dropped", signal: "gpc" });
+      });
+
+      await t.step("reject fails with payload-rejected", async () => {
+        const parser = await getParser({ consent: { dnt: "reject" } });
+        const result = await parser(consentPayload(), {
+          requestMeta: distinguishedMeta({
+            headers: new Headers({ "DNT": "1" }),
+          }),
+        });
+
+        assertUnsuccessful(result);
+        assertEquals(result.error, { name: "payload-rejected", signal: "dnt" });
+      });
+
+      await t.step("ignores signals that are not present", async () => {
+        const parser = await getParser({
+          policy: "keep",
+          consent: { ad_user_data_denied: "reject", gpc: "reject" },
+        });
+        const result = await parser(
+          consentPayload({
+            ad_user_data: "GRANTED",
+            ad_personalization: "DENIED",
+          }),
+          { requestMeta: distinguishedMeta() },
+        );
+
+        assertSuccessful(result);
+        assertEquals(result.data.payload.user_id, "bar");
+      });
+    });
+
     await t.step("option secret", async (t) => {
       await t.step("generated ids change when secret changes", async () => {
         const result1 = await run({ secret: "a" });
@@ -519,6 +697,58 @@ Deno.test("RequestMetaDecorator", async (t) => {
   kv.close();
 });
 
+Deno.test("ConsentPolicy", async (t) => {
+  const requestMeta = (headers: HeadersInit = {}): RequestMeta => ({
+    url: new URL("https://example.com/mp/collect"),
+    headers: new Headers(headers),
+  });
+  const denied: AnyPayload["consent"] = {
+    ad_user_data: "DENIED",
+    ad_personalization: "DENIED",
+  };
+
+  await t.step("getSignals()", async (t) => {
+    const policy = new ConsentPolicy({});
+
+    await t.step("detects denied consent", () => {
+      assertEquals(policy.getSignals({ consent: denied }, requestMeta()), [
+        "ad_user_data_denied",
+        "ad_personalization_denied",
+      ]);
+    });
+
+    await t.step("detects opt-out headers", () => {
+      assertEquals(
+        policy.getSignals({}, requestMeta({ "Sec-GPC": "1", "DNT": "1" })),
+        ["gpc", "dnt"],
+      );
+      assertEquals(
+        policy.getSignals({}, requestMeta({ "Sec-GPC": "0", "DNT": "0" })),
+        [],
+      );
+    });
+  });
+
+  await t.step("decide()", async (t) => {
+    await t.step("forwards without signals", () => {
+      const policy = new ConsentPolicy({ gpc: "reject" });
+      assertEquals(policy.decide({}, requestMeta()), { action: "forward" });
+    });
+
+    await t.step("takes the strictest action", () => {
+      const policy = new ConsentPolicy({
+        ad_user_data_denied: "anonymise",
+        ad_personalization_denied: "drop",
+        dnt: "forward",
+      });
+      assertEquals(
+        policy.decide({ consent: denied }, requestMeta({ "DNT": "1" })),
+        { action: "drop", signal: "ad_personalization_denied" },
+      );
+    });
+  });
+});
+
 Deno.test("DefaultTimeBucket", async (t) => {
   const bucket = new DefaultTimeBucket({
     unit: "months",
@@ -546,3 +776,72 @@ Deno.test("DefaultTimeBucket", async (t) => {
     });
   });
 });
+
+Deno.test("DefaultUserIdComponentsProvider", async (t) => {
+  const requestMeta = (
+    { requestIp = "1.2.3.4", headers = {} }: {
+      requestIp?: string;
+      headers?: Record<string, string>;
+    } = {},
+  ): UserDistinctionRequestMeta => ({
+    measurement_id: "a",
+    api_secret: "b",
+    debug: false,
+    headers: new Headers(headers),
+    name: RequestName.collect,
+    url: new URL("https://proxy.example.com/mp/collect"),
+    endpoint: "https://upstream.example.com/mp/collect",
+    in_measurement_id: "a",
+    distinguishingFeatures: {
+      requestIp,
+      requestUserAgent: "Example/1.0",
+      requestAcceptLanguage: "en-GB,en;q=0.8",
+    },
+  });
+
+  await t.step("uses ip, user agent and language by default", () => {
+    const provider = new DefaultUserIdComponentsProvider();
+    assertEquals(provider.getIdComponents({}, requestMeta()), [
+      "1.2.3.4",
+      "Example/1.0",
+      "en-GB,en;q=0.8",
+    ]);
+  });
+
+  await t.step("uses selected components", () => {
+    const provider = new DefaultUserIdComponentsProvider({
+      ip: false,
+      acceptLanguage: false,
+      headers: ["sec-ch-ua-platform", "x-missing"],
+    });
+    const meta = requestMeta({ headers: { "Sec-CH-UA-Platform": '"Linux"' } });
+    assertEquals(provider.getIdComponents({}, meta), [
+      "Example/1.0",
+      '"Linux"',
+      "",
+    ]);
+  });
+
+  await t.step("truncates IP addresses", async (t) => {
+    const provider = new DefaultUserIdComponentsProvider({
+      userAgent: false,
+      acceptLanguage: false,
+      ipv4Prefix: 24,
+      ipv6Prefix: 48,
+    });
+    const examples = [
+      ["1.2.3.4", "1.2.3.0"],
+      ["::ffff:1.2.3.4", "1.2.3.0"],
+      ["2001:db8:1:2:3:4:5:6", "2001:db8:1::"],
+      ["not-an-ip", "not-an-ip"],
+    ];
+    for (const [requestIp, truncated] of examples) {
+      await t.step(requestIp, () => {
+        assertEquals(
+          provider.getIdComponents({}, requestMeta({ requestIp })),
+          [truncated],
+        );
+      });
+    }
+  });
+});
@@ -0,0 +1,459 @@
+/**
+ * Senders that forward GA4 Measurement Protocol payloads to other analytics
+ * services.
+ *
+ * Each backend translates the events of a payload into requests to its own
+ * ingestion API:
+ *
+ * - Plausible Events API: https://plausible.io/docs/events-api
+ * - Umami: https://umami.is/docs/api/sending-stats
+ * - Matomo HTTP Tracking API: https://developer.matomo.org/api-reference/tracking-api
+ * - PostHog: https://posthog.com/docs/api/capture
+ *
+ * The data stream credentials of the destination identify the site in the
+ * backend: the measurement_id is the Plausible domain, Umami website ID, Matomo
+ * idsite or PostHog project API key. The api_secret is only used by Matomo, as
+ * its token_auth.
+ */
+
+import { hasMessage, isTimeout, Result } from "./_misc.ts";
+import { GA4MP_URL } from "./constants.ts";
+import { z } from "./deps.ts";
+import { DestinationSelector, GA4MPDestination } from "./default.ts";
+import { RequestMeta } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import { GA4MPPayload, ProxySender, ProxySendError } from "./types.ts";
+
+/** The analytics services that events can be forwarded to. */
+export const BackendType = z.enum([
+  "ga4",
+  "plausible",
+  "umami",
+  "matomo",
+  "posthog",
+]);
+export type BackendType = z.infer<typeof BackendType>;
+
+/** The ingestion URLs of the hosted services of each backend.
+ *
+ * Matomo has no default, as Matomo Cloud URLs are specific to each account.
+ */
+export const DEFAULT_BACKEND_URLS: Readonly<
+  Record<BackendType, string | undefined>
+> = {
+  ga4: GA4MP_URL,
+  plausible: "https://plausible.io/api/event",
+  umami: "https://cloud.umami.is/api/send",
+  matomo: undefined,
+  posthog: "https://us.i.posthog.com/capture/",
+};
+
+/** The names backends other than PostHog use for page views. */
+const PAGE_VIEW = "pageview";
+
+/** The names each backend uses for GA4 events by default.
+ *
+ * Events without a name here are sent with their GA4 name. A backend's page
+ * view event name is sent as a page view rather than a custom event.
+ */
+export const DEFAULT_BACKEND_EVENT_NAMES: Readonly<
+  Record<BackendType, Readonly<Record<string, string>>>
+> = {
+  ga4: {},
+  plausible: { page_view: PAGE_VIEW },
+  umami: { page_view: PAGE_VIEW },
+  matomo: { page_view: PAGE_VIEW },
+  posthog: { page_view: "$pageview" },
+};
+
+/** Event params that backends send as details of the page, not as custom
+ * properties. */
+const PAGE_PARAMS = new Set([
+  "page_location",
+  "page_referrer",
+  "page_title",
+  "language",
+  "screen_resolution",
+]);
+
+type Page = {
+  url?: string;
+  referrer?: string;
+  title?: string;
+  language?: string;
+  screen?: string;
+};
+
+/** A payload event, translated for a backend. */
+type BackendEvent = {
+  name: string;
+  page: Page;
+  /** The event's params that are not page details. */
+  properties: Record<string, unknown>;
+};
+
+type BackendRequestOptions = {
+  payload: AnyPayload;
+  event: BackendEvent;
+  destination: GA4MPDestination;
+  requestMeta: RequestMeta;
+};
+
+type BackendRequestCreator = (
+  options: BackendRequestOptions,
+) => Request | Promise<Request>;
+
+export type BackendRequestsBuilder<
+  PayloadT extends GA4MPPayload<AnyPayload>,
+  RequestMetaT extends RequestMeta,
+> = (
+  options: { payload: PayloadT; requestMeta: RequestMetaT },
+) => Promise<Request[]>;
+
+export type CreateBackendRequestsBuilderOptions<
+  PayloadT extends GA4MPPayload<AnyPayload>,
+  RequestMetaT extends RequestMeta,
+> = {
+  type: Exclude<BackendType, "ga4">;
+  destinationSelector: DestinationSelector<PayloadT, RequestMetaT>;
+  /** Names to send events with, overriding the backend's default names. */
+  eventNames?: Readonly<Record<string, string>>;
+};
+
+/** Create a function that creates the requests that send a payload's events to
+ * a backend.
+ *
+ * Each event is sent in its own request.
+ */
+export function createBackendRequestsBuilder<
+  PayloadT extends GA4MPPayload<AnyPayload>,
+  RequestMetaT extends RequestMeta,
+>(
+  { type, destinationSelector, eventNames = {} }:
+    CreateBackendRequestsBuilderOptions<PayloadT, RequestMetaT>,
+): BackendRequestsBuilder<PayloadT, RequestMetaT> {
+  const createRequest = backendRequestCreators[type];
+  const names = { ...DEFAULT_BACKEND_EVENT_NAMES[type], ...eventNames };
+
+  return async ({ payload, requestMeta }) => {
+    const destination = destinationSelector({ payload, requestMeta });
+    return await Promise.all(
+      payload.payload.events.map((event) =>
+        createRequest({
+          payload: payload.payload,
+          event: translateEvent(event, names),
+          destination,
+          requestMeta,
+        })
+      ),
+    );
+  };
+}
+
+/** Translate a payload event for a backend.
+ *
+ * The page is taken from the event's params alone, not from request headers
+ * such as Referer, as only params are anonymised before events are forwarded.
+ */
+function translateEvent(
+  { name, params = {} }: AnyPayload["events"][number],
+  names: Readonly<Record<string, string>>,
+): BackendEvent {
+  const properties: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (!PAGE_PARAMS.has(key)) properties[key] = value;
+  }
+  return {
+    name: names[name] ?? name,
+    page: {
+      url: stringParam(params.page_location),
+      referrer: stringParam(params.page_referrer),
+      title: stringParam(params.page_title),
+      language: stringParam(params.language),
+      screen: stringParam(params.screen_resolution),
+    },
+    properties,
+  };
+}
+
+function stringParam(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/** Get the ID that distinguishes the user of a payload. */
+function getDistinctId(payload: AnyPayload): string {
+  return payload.user_id ?? payload.client_id;
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)),
+  );
+}
+
+/** Derive a unique local IPv6 address from an ID.
+ *
+ * Plausible and Umami identify visitors by their IP address and User-Agent.
+ * Rather than reveal users' real IP addresses, we send an address derived from
+ * the anonymised user's ID.
+ */
+export async function getPseudonymousIpAddress(id: string): Promise<string> {
+  const bytes = await sha256(id);
+  bytes[0] = 0xfd; // fd00::/8 unique local address
+  const groups = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+  return groups.join(":");
+}
+
+async function getVisitorHeaders(
+  { payload, requestMeta }: BackendRequestOptions,
+): Promise<Record<string, string>> {
+  const userAgent = requestMeta.headers.get("user-agent");
+  return {
+    "content-type": "application/json",
+    "x-forwarded-for": await getPseudonymousIpAddress(getDistinctId(payload)),
+    ...(userAgent && { "user-agent": userAgent }),
+  };
+}
+
+function withoutUndefined<T>(
+  value: Record<string, T | undefined>,
+): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([_k, v]) => v !== undefined),
+  ) as Record<string, T>;
+}
+
+function hasEntries(value: Record<string, unknown>): boolean {
+  return Object.keys(value).length > 0;
+}
+
+const createPlausibleRequest: BackendRequestCreator = async (options) => {
+  const { event, destination } = options;
+  const domain = destination.measurement_id;
+  const { currency, value, ...props } = event.properties;
+  const body = withoutUndefined({
+    name: event.name,
+    domain,
+    // url is required
+    url: event.page.url ?? `https://${domain}/`,
+    referrer: event.page.referrer,
+    props: hasEntries(props) ? scalarProperties(props) : undefined,
+    // Plausible reports revenue for events with revenue
+    revenue: typeof currency === "string" && typeof value === "number"
+      ? { currency, amount: value }
+      : undefined,
+  });
+  return new Request(destination.endpoint, {
+    method: "POST",
+    headers: await getVisitorHeaders(options),
+    body: JSON.stringify(body),
+  });
+};
+
+/** Get the properties with scalar values, as Plausible props can't hold
+ * objects. */
+function scalarProperties(
+  properties: Record<string, unknown>,
+): Record<string, string | number | boolean> {
+  const props: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (
+      typeof value === "string" || typeof value === "number" ||
+      typeof value === "boolean"
+    ) {
+      props[key] = value;
+    }
+  }
+  return props;
+}
+
+/** The base that relative page URLs are parsed against. */
+const RELATIVE_URL_BASE = "https://relative.invalid";
+
+/** Split a page URL into its hostname and path (with query).
+ *
+ * Page URLs are sent by clients, so they can be relative or not valid at all.
+ * Relative URLs have no hostname, and invalid URLs are treated as `/`.
+ */
+function parsePageUrl(
+  pageUrl: string | undefined,
+): { hostname?: string; path: string } {
+  if (pageUrl === undefined || !URL.canParse(pageUrl, RELATIVE_URL_BASE)) {
+    return { path: "/" };
+  }
+  const isRelative = !URL.canParse(pageUrl);
+  const url = new URL(pageUrl, RELATIVE_URL_BASE);
+  return {
+    hostname: isRelative ? undefined : url.hostname || undefined,
+    path: `${url.pathname}${url.search}`,
+  };
+}
+
+const createUmamiRequest: BackendRequestCreator = async (options) => {
+  const { event, destination } = options;
+  const { hostname, path } = parsePageUrl(event.page.url);
+  const isPageView = event.name === PAGE_VIEW;
+  const body = {
+    type: "event",
+    payload: withoutUndefined({
+      website: destination.measurement_id,
+      hostname,
+      url: path,
+      referrer: event.page.referrer,
+      title: event.page.title,
+      language: event.page.language,
+      screen: event.page.screen,
+      // Umami events without a name are page views
+      name: isPageView ? undefined : event.name,
+      data: !isPageView && hasEntries(event.properties)
+        ? event.properties
+        : undefined,
+    }),
+  };
+  return new Request(destination.endpoint, {
+    method: "POST",
+    headers: await getVisitorHeaders(options),
+    body: JSON.stringify(body),
+  });
+};
+
+const createMatomoRequest: BackendRequestCreator = async (
+  { payload, event, destination, requestMeta },
+) => {
+  const distinctId = getDistinctId(payload);
+  const visitorId = Array.from(
+    (await sha256(distinctId)).slice(0, 8),
+    (b) => b.toString(16).padStart(2, "0"),
+  ).join("");
+  const userAgent = requestMeta.headers.get("user-agent");
+  const { event_category, event_label, value } = event.properties;
+
+  const params = withoutUndefined({
+    idsite: destination.measurement_id,
+    rec: "1",
+    apiv: "1",
+    token_auth: destination.api_secret,
+    uid: distinctId,
+    _id: visitorId,
+    url: event.page.url,
+    urlref: event.page.referrer,
+    lang: event.page.language,
+    res: event.page.screen,
+    ua: userAgent ?? undefined,
+    cdt: payload.timestamp_micros === undefined
+      ? undefined
+      : String(Math.floor(payload.timestamp_micros / 1_000_000)),
+    ...(event.name === PAGE_VIEW ? { action_name: event.page.title ?? "" } : {
+      // Matomo events have a category, action, and optional name and value
+      e_c: typeof event_category === "string" ? event_category : "event",
+      e_a: event.name,
+      e_n: typeof event_label === "string" ? event_label : undefined,
+      e_v: typeof value === "number" ? String(value) : undefined,
+    }),
+  });
+  return new Request(destination.endpoint, {
+    method: "POST",
+    body: new URLSearchParams(params),
+  });
+};
+
+const createPostHogRequest: BackendRequestCreator = (
+  { payload, event, destination },
+) => {
+  const body = withoutUndefined({
+    api_key: destination.measurement_id,
+    event: event.name,
+    distinct_id: getDistinctId(payload),
+    properties: withoutUndefined({
+      ...event.properties,
+      $current_url: event.page.url,
+      $referrer: event.page.referrer,
+      title: event.page.title,
+    }),
+    timestamp: payload.timestamp_micros === undefined
+      ? undefined
+      : new Date(payload.timestamp_micros / 1000).toISOString(),
+  });
+  return new Request(destination.endpoint, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+};
+
+const backendRequestCreators: Readonly<
+  Record<Exclude<BackendType, "ga4">, BackendRequestCreator>
+> = {
+  plausible: createPlausibleRequest,
+  umami: createUmamiRequest,
+  matomo: createMatomoRequest,
+  posthog: createPostHogRequest,
+};
+
+export type CreateRequestsProxySenderOptions<
+  PayloadT extends GA4MPPayload<AnyPayload>,
+  RequestMetaT extends RequestMeta,
+> = {
+  requestsBuilder: BackendRequestsBuilder<PayloadT, RequestMetaT>;
+  /** The number of milliseconds to wait for each request to respond. */
+  timeout?: number;
+};
+
+/** Create a ProxySender that sends the requests created for each payload.
+ *
+ * The requests are sent concurrently. Sending fails with the error of the first
+ * request that fails, if any.
+ */
+export function createRequestsProxySender<
+  PayloadT extends GA4MPPayload<AnyPayload>,
+  RequestMetaT extends RequestMeta,
+>(
+  { requestsBuilder, timeout }: CreateRequestsProxySenderOptions<
+    PayloadT,
+    RequestMetaT
+  >,
+): ProxySender<PayloadT, null, ProxySendError, RequestMetaT> {
+  return async (
+    payload,
+    { requestMeta, signal },
+  ): Promise<Result<null, ProxySendError>> => {
+    const requests = await requestsBuilder({ payload, requestMeta });
+    const results = await Promise.all(
+      requests.map((request) => sendRequest(request, { signal, timeout })),
+    );
+    return results.find((result) => !result.success) ??
+      { success: true, data: null };
+  };
+}
+
+/** Send a request, failing with a ProxySendError if it's not ok. */
+export async function sendRequest(
+  request: Request,
+  { signal, timeout }: { signal?: AbortSignal; timeout?: number },
+): Promise<Result<null, ProxySendError>> {
+  const upstreamSignal = timeout === undefined ? signal : AbortSignal.any([
+    AbortSignal.timeout(timeout),
+    ...(signal ? [signal] : []),
+  ]);
+  let response: Response;
+  try {
+    response = await fetch(new Request(request, { signal: upstreamSignal }));
+  } catch (_e) {
+    const e: unknown = _e;
+    const message: string | undefined = hasMessage(e) ? e.message : undefined;
+    if (upstreamSignal?.aborted) {
+      const name = isTimeout(e) ? "timeout" : "aborted";
+      return { success: false, error: { name, message } };
+    }
+    return { success: false, error: { name: "proxy-io-error", message } };
+  }
+  await response.body?.cancel();
+  if (response.ok) return { success: true, data: null };
+  return {
+    success: false,
+    error: { name: "proxy-response-status", status: response.status },
+  };
+}
@@ -0,0 +1,285 @@
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import {
+  BackendType,
+  createBackendRequestsBuilder,
+  createRequestsProxySender,
+  getPseudonymousIpAddress,
+} from "./backends.ts";
+import { approvedRequestDestinationSelector } from "./default.ts";
+import { assert, StatusCodes } from "./deps.ts";
+import { assertEquals, assertNotEquals, stub } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import { GA4MPPayload } from "./types.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers({
+    "user-agent": "Example/1.0",
+    "referer": "https://example.com/from-header?email=bob@example.com",
+  }),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "site",
+  api_secret: "token",
+  endpoint: "https://backend.example.com/api",
+  in_measurement_id: "site",
+};
+
+const payload: GA4MPPayload<AnyPayload> = {
+  payload: {
+    client_id: "client",
+    user_id: "user",
+    timestamp_micros: 1704164645000000,
+    events: [
+      {
+        name: "page_view",
+        params: {
+          page_location: "https://example.com/page?q=1",
+          page_referrer: "https://other.example.com/",
+          page_title: "Page",
+          language: "en-gb",
+          screen_resolution: "1920x1080",
+        },
+      },
+      {
+        name: "purchase",
+        params: {
+          currency: "GBP",
+          value: 9.99,
+          event_category: "shop",
+          event_label: "basket",
+          items: [{ item_id: "a" }],
+        },
+      },
+    ],
+  },
+};
+
+function createRequestsBuilder(
+  type: Exclude<BackendType, "ga4">,
+  eventNames?: Record<string, string>,
+) {
+  return createBackendRequestsBuilder<
+    GA4MPPayload<AnyPayload>,
+    ApprovedCollectRequestMeta
+  >({
+    type,
+    destinationSelector: approvedRequestDestinationSelector,
+    eventNames,
+  });
+}
+
+Deno.test("getPseudonymousIpAddress()", async (t) => {
+  await t.step("derives a unique local IPv6 address", async () => {
+    const address = await getPseudonymousIpAddress("user");
+    assert(/^fd[0-9a-f]{2}(:[0-9a-f]{1,4}){7}$/.test(address), address);
+    assertEquals(await getPseudonymousIpAddress("user"), address);
+    assertNotEquals(await getPseudonymousIpAddress("other"), address);
+  });
+});
+
+Deno.test("createBackendRequestsBuilder()", async (t) => {
+  await t.step("plausible", async () => {
+    const requests = await createRequestsBuilder("plausible")({
+      payload,
+      requestMeta,
+    });
+
+    assertEquals(requests.length, 2);
+    assertEquals(requests[0].url, "https://backend.example.com/api");
+    assertEquals(requests[0].method, "POST");
+    assertEquals(requests[0].headers.get("user-agent"), "Example/1.0");
+    assertEquals(
+      requests[0].headers.get("x-forwarded-for"),
+      await getPseudonymousIpAddress("user"),
+    );
+    assertEquals(await requests[0].json(), {
+      name: "pageview",
+      domain: "site",
+      url: "https://example.com/page?q=1",
+      referrer: "https://other.example.com/",
+    });
+    assertEquals(await requests[1].json(), {
+      name: "purchase",
+      domain: "site",
+      // The Referer header is not anonymised, so it's not used
+      url: "https://site/",
+      props: { event_category: "shop", event_label: "basket" },
+      revenue: { currency: "GBP", amount: 9.99 },
+    });
+  });
+
+  await t.step("umami", async () => {
+    const requests = await createRequestsBuilder("umami")({
+      payload,
+      requestMeta,
+    });
+
+    assertEquals(requests[0].headers.get("user-agent"), "Example/1.0");
+    assertEquals(await requests[0].json(), {
+      type: "event",
+      payload: {
+        website: "site",
+        hostname: "example.com",
+        url: "/page?q=1",
+        referrer: "https://other.example.com/",
+        title: "Page",
+        language: "en-gb",
+        screen: "1920x1080",
+      },
+    });
+    assertEquals(await requests[1].json(), {
+      type: "event",
+      payload: {
+        website: "site",
+        url: "/",
+        name: "purchase",
+        data: {
+          currency: "GBP",
+          value: 9.99,
+          event_category: "shop",
+          event_label: "basket",
+          items: [{ item_id: "a" }],
+        },
+      },
+    });
+  });
+
+  await t.step("umami accepts relative and invalid page URLs", async () => {
+    const requestsBuilder = createRequestsBuilder("umami");
+    for (
+      const [page_location, url] of [
+        ["/relative/path?q=1", "/relative/path?q=1"],
+        ["relative", "/relative"],
+        ["http://[invalid", "/"],
+      ]
+    ) {
+      const [request] = await requestsBuilder({
+        payload: {
+          payload: {
+            client_id: "client",
+            events: [{ name: "page_view", params: { page_location } }],
+          },
+        },
+        requestMeta,
+      });
+
+      assertEquals(
+        await request.json(),
+        { type: "event", payload: { website: "site", url } },
+        page_location,
+      );
+    }
+  });
+
+  await t.step("matomo", async () => {
+    const requests = await createRequestsBuilder("matomo")({
+      payload,
+      requestMeta,
+    });
+
+    const [pageView, purchase] = await Promise.all(
+      requests.map(async (r) => new URLSearchParams(await r.text())),
+    );
+    assertEquals(pageView.get("idsite"), "site");
+    assertEquals(pageView.get("token_auth"), "token");
+    assertEquals(pageView.get("rec"), "1");
+    assertEquals(pageView.get("uid"), "user");
+    assert(/^[0-9a-f]{16}$/.test(pageView.get("_id") ?? ""));
+    assertEquals(pageView.get("url"), "https://example.com/page?q=1");
+    assertEquals(pageView.get("urlref"), "https://other.example.com/");
+    assertEquals(pageView.get("action_name"), "Page");
+    assertEquals(pageView.get("ua"), "Example/1.0");
+    assertEquals(pageView.get("cdt"), "1704164645");
+    assertEquals(pageView.get("e_a"), null);
+
+    assertEquals(purchase.get("_id"), pageView.get("_id"));
+    assertEquals(purchase.get("url"), null);
+    assertEquals(purchase.get("action_name"), null);
+    assertEquals(purchase.get("e_c"), "shop");
+    assertEquals(purchase.get("e_a"), "purchase");
+    assertEquals(purchase.get("e_n"), "basket");
+    assertEquals(purchase.get("e_v"), "9.99");
+  });
+
+  await t.step("posthog", async () => {
+    const requests = await createRequestsBuilder("posthog")({
+      payload,
+      requestMeta,
+    });
+
+    // PostHog is not sent the user's IP address or User-Agent
+    assertEquals(requests[0].headers.get("x-forwarded-for"), null);
+    assertEquals(requests[0].headers.get("user-agent"), null);
+    assertEquals(await requests[0].json(), {
+      api_key: "site",
+      event: "$pageview",
+      distinct_id: "user",
+      properties: {
+        $current_url: "https://example.com/page?q=1",
+        $referrer: "https://other.example.com/",
+        title: "Page",
+      },
+      timestamp: "2024-01-02T03:04:05.000Z",
+    });
+    assertEquals((await requests[1].json()).event, "purchase");
+  });
+
+  await t.step("uses configured event names", async () => {
+    const requests = await createRequestsBuilder("plausible", {
+      page_view: "view",
+      purchase: "Purchase",
+    })({ payload, requestMeta });
+
+    assertEquals(
+      await Promise.all(requests.map(async (r) => (await r.json()).name)),
+      ["view", "Purchase"],
+    );
+  });
+});
+
+Deno.test("createRequestsProxySender()", async (t) => {
+  const sender = createRequestsProxySender({
+    requestsBuilder: createRequestsBuilder("plausible"),
+  });
+
+  await t.step("sends each request", async () => {
+    using fetchStub = stub(globalThis, "fetch", () => {
+      return Promise.resolve(
+        new Response(null, { status: StatusCodes.ACCEPTED }),
+      );
+    });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(fetchStub.calls.length, 2);
+  });
+
+  await t.step("fails if a request fails", async () => {
+    const statuses = [StatusCodes.ACCEPTED, StatusCodes.BAD_REQUEST];
+    using _fetchStub = stub(globalThis, "fetch", () => {
+      return Promise.resolve(new Response(null, { status: statuses.shift() }));
+    });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertUnsuccessful(result);
+    assertEquals(result.error, {
+      name: "proxy-response-status",
+      status: StatusCodes.BAD_REQUEST,
+    });
+  });
+
+  await t.step("fails with proxy-io-error when fetch fails", async () => {
+    using _fetchStub = stub(globalThis, "fetch", () => {
+      throw new TypeError("network error");
+    });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "proxy-io-error");
+  });
+});
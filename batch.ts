@@ -0,0 +1,173 @@
+import {
+  DefaultRequestForwarder,
+  readRequestText,
+  RequestBodyLimits,
+} from "./default.ts";
+import { StatusCodes } from "./deps.ts";
+import { CollectRequestMeta, RequestName } from "./meta.ts";
+import {
+  ForwardAndRespondOptions,
+  RequestForwarder,
+  RequestReadError,
+  UnknownPayload,
+} from "./types.ts";
+
+/** The default number of payloads of a batch that are forwarded at once. */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/** The outcome of forwarding one line of a batch request. */
+export type BatchLineResult = {
+  /** The 1-based line number of the payload in the request body. */
+  line: number;
+  /** The HTTP status a request with only this payload would have got. */
+  status: number;
+  /** The error message of the response, if the payload was not forwarded. */
+  error?: string;
+};
+
+export type BatchRequestForwarderOptions = RequestBodyLimits & {
+  /** The maximum number of payloads forwarded at once. Default is
+   * {@linkcode DEFAULT_BATCH_CONCURRENCY}. */
+  concurrency?: number;
+};
+
+/** Handles batch requests that contain a newline-delimited JSON payload per
+ * line.
+ *
+ * Each payload is parsed, sent and responded to independently with the
+ * `inner` forwarder's {@linkcode ProxyOptions}, so payloads of a batch are
+ * handled just like payloads of individual requests. The response is a JSON
+ * array with a {@linkcode BatchLineResult} for each non-empty line. Requests
+ * for other endpoints are handled by `inner`.
+ */
+export class BatchRequestForwarder<
+  PayloadT extends UnknownPayload,
+  ProxyResultT,
+  RequestMetaT extends CollectRequestMeta,
+  PayloadParseErrorT,
+  ProxySendErrorT,
+> implements RequestForwarder<RequestMetaT> {
+  readonly concurrency: number;
+  readonly limits: RequestBodyLimits;
+
+  constructor(
+    readonly inner: DefaultRequestForwarder<
+      UnknownPayload,
+      PayloadT,
+      ProxyResultT,
+      RequestMetaT,
+      RequestReadError,
+      PayloadParseErrorT,
+      ProxySendErrorT
+    >,
+    {
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      ...limits
+    }: BatchRequestForwarderOptions = {},
+  ) {
+    if (!(Number.isInteger(concurrency) && concurrency > 0)) {
+      throw new Error(
+        `concurrency must be a positive integer: ${concurrency}`,
+      );
+    }
+    this.concurrency = concurrency;
+    this.limits = limits;
+  }
+
+  async forwardAndRespond(
+    options: ForwardAndRespondOptions<RequestMetaT>,
+  ): Promise<Response> {
+    const { request, requestMeta } = options;
+    if (requestMeta.name !== RequestName.batch) {
+      return await this.inner.forwardAndRespond(options);
+    }
+    const { responseWriter } = this.inner.proxy;
+
+    if (request.method !== "POST") {
+      return await responseWriter({
+        success: false,
+        error: { name: "incorrect-request-method" },
+      }, { requestMeta });
+    }
+    const body = await readRequestText(request, this.limits);
+    if (!body.success) {
+      return await responseWriter(body, { requestMeta });
+    }
+
+    const lines = body.data.split(/\r?\n/)
+      .map((text, i) => ({ line: i + 1, text }))
+      .filter(({ text }) => text.trim());
+
+    const results = await mapConcurrently(
+      lines,
+      this.concurrency,
+      async ({ line, text }): Promise<BatchLineResult> => {
+        const response = await this.forwardLine(text, options);
+        return {
+          line,
+          status: response.status,
+          ...(!response.ok && { error: await response.text() }),
+        };
+      },
+    );
+    return Response.json(results, { status: StatusCodes.OK });
+  }
+
+  private async forwardLine(
+    text: string,
+    { request, requestMeta }: ForwardAndRespondOptions<RequestMetaT>,
+  ): Promise<Response> {
+    const { payloadParser, proxySender, responseWriter } = this.inner.proxy;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch (_e) {
+      return await responseWriter({
+        success: false,
+        error: { name: "body-not-valid-json" },
+      }, { requestMeta });
+    }
+
+    const parseResult = await payloadParser({ payload }, { requestMeta });
+    if (!parseResult.success) {
+      return await responseWriter(parseResult, { requestMeta });
+    }
+
+    const proxyResult = await proxySender(
+      parseResult.data,
+      { requestMeta, signal: request.signal },
+    );
+    if (!proxyResult.success) {
+      return await responseWriter(proxyResult, { requestMeta });
+    }
+
+    return await responseWriter({
+      success: true,
+      data: { payload: parseResult.data, proxyResult: proxyResult.data },
+    }, { requestMeta });
+  }
+}
+
+/** Map items with an async function, running at most `concurrency` at once.
+ *
+ * Results are in the same order as the items.
+ */
+async function mapConcurrently<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+  return results;
+}
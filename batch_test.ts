@@ -0,0 +1,193 @@
+import { Result } from "./_misc.ts";
+import {
+  BatchRequestForwarder,
+  BatchRequestForwarderOptions,
+} from "./batch.ts";
+import { defaultProxyOptions, DefaultRequestForwarder } from "./default.ts";
+import { StatusCodes } from "./deps.ts";
+import { assertEquals, assertThrows } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import { GA4MPPayload, ProxySendError } from "./types.ts";
+
+function createRequestMeta(
+  name: RequestName = RequestName.batch,
+): ApprovedCollectRequestMeta {
+  return {
+    url: new URL("https://example.com/mp/batch"),
+    headers: new Headers(),
+    name,
+    debug: false,
+    measurement_id: "in",
+    api_secret: "inSec",
+    endpoint: "https://example.com/mp/collect",
+    in_measurement_id: "in",
+  };
+}
+
+const info: Deno.ServeHandlerInfo = {
+  completed: Promise.resolve(),
+  remoteAddr: { hostname: "127.0.0.1", port: 1234, transport: "tcp" },
+};
+
+const payload = (name: string) =>
+  JSON.stringify({ client_id: "c1", events: [{ name }] });
+
+/** Create a forwarder whose sender fails for events named "fail", and records
+ * the events it sends and the most it sent at once. */
+function createForwarder(
+  options: BatchRequestForwarderOptions = {},
+) {
+  const sent: string[] = [];
+  const stats = { active: 0, maxActive: 0 };
+  const proxySender = async (
+    { payload }: GA4MPPayload<AnyPayload>,
+  ): Promise<Result<null, ProxySendError>> => {
+    stats.active++;
+    stats.maxActive = Math.max(stats.maxActive, stats.active);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    stats.active--;
+
+    const name = payload.events[0].name;
+    if (name === "fail") {
+      return {
+        success: false,
+        error: { name: "proxy-response-status", status: 500 },
+      };
+    }
+    sent.push(name);
+    return { success: true, data: null };
+  };
+  const forwarder = new BatchRequestForwarder(
+    new DefaultRequestForwarder({ ...defaultProxyOptions, proxySender }),
+    options,
+  );
+  return { forwarder, sent, stats };
+}
+
+function createBatchRequest(
+  body: string,
+  init: RequestInit = {},
+): Request {
+  return new Request("https://example.com/mp/batch", {
+    method: "POST",
+    body,
+    ...init,
+  });
+}
+
+Deno.test("BatchRequestForwarder", async (t) => {
+  await t.step("rejects invalid concurrency", () => {
+    for (const concurrency of [0, -1, 1.5]) {
+      assertThrows(() => createForwarder({ concurrency }));
+    }
+  });
+
+  await t.step("forwards each line independently", async () => {
+    const { forwarder, sent } = createForwarder();
+    const body = [
+      payload("first"),
+      "",
+      "not json",
+      JSON.stringify({ events: [] }),
+      payload("fail"),
+      `${payload("last")}\r`,
+      "",
+    ].join("\n");
+
+    const response = await forwarder.forwardAndRespond({
+      request: createBatchRequest(body),
+      requestMeta: createRequestMeta(),
+      info,
+    });
+
+    assertEquals(response.status, StatusCodes.OK);
+    assertEquals(response.headers.get("content-type"), "application/json");
+    assertEquals(await response.json(), [
+      { line: 1, status: StatusCodes.NO_CONTENT },
+      {
+        line: 3,
+        status: StatusCodes.BAD_REQUEST,
+        error: "Body is not valid JSON",
+      },
+      {
+        line: 4,
+        status: StatusCodes.BAD_REQUEST,
+        error: "Request body is not a valid GA4 Measurement Protocol payload",
+      },
+      {
+        line: 5,
+        status: StatusCodes.BAD_GATEWAY,
+        error: "Unable to forward payload",
+      },
+      { line: 6, status: StatusCodes.NO_CONTENT },
+    ]);
+    assertEquals(sent.toSorted(), ["first", "last"]);
+  });
+
+  await t.step("limits how many payloads are forwarded at once", async () => {
+    const { forwarder, sent, stats } = createForwarder({ concurrency: 2 });
+    const names = Array.from({ length: 10 }, (_, i) => `e${i}`);
+
+    const response = await forwarder.forwardAndRespond({
+      request: createBatchRequest(names.map(payload).join("\n")),
+      requestMeta: createRequestMeta(),
+      info,
+    });
+
+    assertEquals(response.status, StatusCodes.OK);
+    assertEquals(
+      (await response.json()).map((r: { line: number }) => r.line),
+      names.map((_, i) => i + 1),
+    );
+    assertEquals(sent.toSorted(), names.toSorted());
+    assertEquals(stats.maxActive, 2);
+  });
+
+  await t.step("responds to an empty batch with no results", async () => {
+    const { forwarder } = createForwarder();
+    const response = await forwarder.forwardAndRespond({
+      request: createBatchRequest("\n\n"),
+      requestMeta: createRequestMeta(),
+      info,
+    });
+    assertEquals(response.status, StatusCodes.OK);
+    assertEquals(await response.json(), []);
+  });
+
+  await t.step("rejects requests with methods other than POST", async () => {
+    const { forwarder } = createForwarder();
+    const response = await forwarder.forwardAndRespond({
+      request: new Request("https://example.com/mp/batch"),
+      requestMeta: createRequestMeta(),
+      info,
+    });
+    assertEquals(response.status, StatusCodes.METHOD_NOT_ALLOWED);
+  });
+
+  await t.step("rejects bodies larger than maxBodyBytes", async () => {
+    const { forwarder, sent } = createForwarder({ maxBodyBytes: 10 });
+    const response = await forwarder.forwardAndRespond({
+      request: createBatchRequest(payload("first")),
+      requestMeta: createRequestMeta(),
+      info,
+    });
+    assertEquals(response.status, StatusCodes.REQUEST_TOO_LONG);
+    assertEquals(sent, []);
+  });
+
+  await t.step("forwards other requests with the inner forwarder", async () => {
+    const { forwarder, sent } = createForwarder();
+    const response = await forwarder.forwardAndRespond({
+      request: new Request("https://example.com/mp/collect", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: payload("single"),
+      }),
+      requestMeta: createRequestMeta(RequestName.collect),
+      info,
+    });
+    assertEquals(response.status, StatusCodes.NO_CONTENT);
+    assertEquals(sent, ["single"]);
+  });
+});
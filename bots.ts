@@ -0,0 +1,230 @@
+import { z } from "./deps.ts";
+import { RequestMeta } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import {
+  GA4MPPayload,
+  PayloadBotError,
+  PayloadParser,
+  UnknownPayload,
+} from "./types.ts";
+
+/** What to do with payloads from requests that look like they're from bots.
+ *
+ * - `drop`: Don't forward the payload, but respond as if it was forwarded.
+ * - `tag`: Forward the payload with a `traffic_type` param of `bot` on each of
+ *   its events, so that they can be filtered in reports.
+ */
+export const BotAction = z.enum(["drop", "tag"]);
+export type BotAction = z.infer<typeof BotAction>;
+
+/** The signs that a request is from a bot.
+ *
+ * - `user_agent`: The User-Agent is empty, or is that of a crawler, monitoring
+ *   service or (if enabled) HTTP library.
+ * - `headless`: The User-Agent or client hints are those of a headless browser.
+ * - `accept_language`: The Accept-Language header is empty. Browsers always
+ *   send it.
+ */
+export const BotSignal = z.enum(["user_agent", "headless", "accept_language"]);
+export type BotSignal = z.infer<typeof BotSignal>;
+
+/** The `traffic_type` param value that events from bots are tagged with. */
+export const BOT_TRAFFIC_TYPE = "bot";
+
+/** Patterns of the User-Agents of crawlers and monitoring services.
+ *
+ * Crawlers are matched by the names they identify themselves with, not by a
+ * generic "bot" pattern, as that also matches devices like Cubot phones. Add
+ * patterns for others when they're found in forwarded traffic.
+ */
+export const BOT_USER_AGENT_PATTERNS: readonly RegExp[] = [
+  // Crawlers
+  /\bgooglebot\b/i,
+  /\b(?:ads|store)bot-google\b/i,
+  /\bbingbot\b/i,
+  /\bmsnbot\b/i,
+  /\bduckduckbot\b/i,
+  /\bapplebot\b/i,
+  /\byandex\w*bot\b/i,
+  /\bahrefsbot\b/i,
+  /\bsemrushbot\b/i,
+  /\bmj12bot\b/i,
+  /\bdotbot\b/i,
+  /\bpetalbot\b/i,
+  /\bseznambot\b/i,
+  /\bamazonbot\b/i,
+  /\bgptbot\b/i,
+  /\bclaudebot\b/i,
+  /\bccbot\b/i,
+  /\btwitterbot\b/i,
+  /\blinkedinbot\b/i,
+  /\bslackbot\b/i,
+  /\bdiscordbot\b/i,
+  /\btelegrambot\b/i,
+  /\bpinterestbot\b/i,
+  /\bredditbot\b/i,
+  /crawl/i,
+  /spider/i,
+  /slurp/i,
+  /archiver/i,
+  /scrap(?:er|y)/i,
+  /facebookexternalhit/i,
+  /google-inspectiontool/i,
+  /mediapartners-google/i,
+  /feedfetcher/i,
+  /baiduspider/i,
+  /ia_archiver/i,
+  // Monitoring and performance testing
+  /lighthouse/i,
+  /pagespeed/i,
+  /pingdom/i,
+  /uptimerobot/i,
+  /statuscake/i,
+  /gtmetrix/i,
+  /site24x7/i,
+];
+
+/** Patterns of the User-Agents of HTTP libraries and command-line clients.
+ *
+ * These are not matched by default, as the Measurement Protocol is a
+ * server-side API, and servers legitimately send events with these clients.
+ */
+export const HTTP_CLIENT_USER_AGENT_PATTERNS: readonly RegExp[] = [
+  /^curl\//i,
+  /^wget\//i,
+  /^httpie\//i,
+  /python-requests/i,
+  /python-urllib/i,
+  /python-httpx/i,
+  /aiohttp/i,
+  /^go-http-client/i,
+  /^java\//i,
+  /okhttp/i,
+  /apache-httpclient/i,
+  /^axios\//i,
+  /node-fetch/i,
+  /^undici/i,
+  /libwww-perl/i,
+  /^ruby/i,
+  /^php/i,
+];
+
+/** Patterns of the User-Agents and Sec-CH-UA client hints of headless browsers
+ * and browser automation tools. */
+export const HEADLESS_BROWSER_PATTERNS: readonly RegExp[] = [
+  /headless/i,
+  /phantomjs/i,
+  /slimerjs/i,
+];
+
+export type BotFilterOptions = {
+  action: BotAction;
+  /** Default is {@linkcode BOT_USER_AGENT_PATTERNS}. */
+  userAgentPatterns?: readonly RegExp[];
+  /** Also detect the User-Agents of HTTP libraries and command-line clients,
+   * from {@linkcode HTTP_CLIENT_USER_AGENT_PATTERNS}. Default is false. */
+  httpClients?: boolean;
+};
+
+/** Detects requests from bots, and drops or tags their payloads.
+ *
+ * Requests are detected from their headers alone: the User-Agent, the
+ * Sec-CH-UA client hint and Accept-Language. Bots that send the same headers as
+ * browsers are not detected.
+ */
+export class BotFilter {
+  readonly action: BotAction;
+  readonly userAgentPatterns: readonly RegExp[];
+
+  constructor(
+    {
+      action,
+      userAgentPatterns = BOT_USER_AGENT_PATTERNS,
+      httpClients = false,
+    }: BotFilterOptions,
+  ) {
+    this.action = action;
+    this.userAgentPatterns = httpClients
+      ? [...userAgentPatterns, ...HTTP_CLIENT_USER_AGENT_PATTERNS]
+      : userAgentPatterns;
+  }
+
+  /** Get the first sign that a request with these headers is from a bot.
+   *
+   * @returns undefined if the request does not look like it's from a bot.
+   */
+  detect(headers: Headers): BotSignal | undefined {
+    const userAgent = headers.get("user-agent")?.trim() ?? "";
+    const clientHints = headers.get("sec-ch-ua") ?? "";
+    if (
+      HEADLESS_BROWSER_PATTERNS.some((pattern) =>
+        pattern.test(userAgent) || pattern.test(clientHints)
+      )
+    ) return BotSignal.Enum.headless;
+    if (
+      !userAgent ||
+      this.userAgentPatterns.some((pattern) => pattern.test(userAgent))
+    ) return BotSignal.Enum.user_agent;
+    if (!headers.get("accept-language")?.trim()) {
+      return BotSignal.Enum.accept_language;
+    }
+    return undefined;
+  }
+
+  /** Wrap a PayloadParser to drop or tag payloads from bots.
+   *
+   * Dropped payloads fail with a `payload-from-bot` error before they're
+   * parsed, so that they're responded to as if they were forwarded, even if
+   * they're not valid. Tagged payloads are also tagged before they're parsed,
+   * so that the `traffic_type` param counts towards the limit on event params
+   * when they're validated.
+   */
+  createPayloadParser<
+    RawPayloadT extends UnknownPayload,
+    PayloadT extends GA4MPPayload<AnyPayload>,
+    PayloadParseErrorT,
+    RequestMetaT extends RequestMeta,
+  >(
+    next: PayloadParser<
+      RawPayloadT,
+      PayloadT,
+      PayloadParseErrorT,
+      RequestMetaT
+    >,
+  ): PayloadParser<
+    RawPayloadT,
+    PayloadT,
+    PayloadParseErrorT | PayloadBotError,
+    RequestMetaT
+  > {
+    return async (payload, options) => {
+      const signal = this.detect(options.requestMeta.headers);
+      if (signal && this.action === BotAction.Enum.drop) {
+        return {
+          success: false,
+          error: { name: "payload-from-bot", signal },
+        };
+      }
+      if (signal) tagEvents(payload.payload);
+      return await next(payload, options);
+    };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Set the `traffic_type` param of the events of an unparsed payload.
+ *
+ * Events that are not objects, or have params that are not, are left for
+ * validation to reject.
+ */
+function tagEvents(payload: unknown): void {
+  if (!isRecord(payload) || !Array.isArray(payload.events)) return;
+  for (const event of payload.events) {
+    if (!isRecord(event)) continue;
+    const params = event.params ??= {};
+    if (isRecord(params)) params.traffic_type = BOT_TRAFFIC_TYPE;
+  }
+}
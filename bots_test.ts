@@ -0,0 +1,229 @@
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { BotFilter, BotSignal } from "./bots.ts";
+import { defaultPayloadParser } from "./default.ts";
+import { assertEquals } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+
+const CHROME_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 " +
+  "(KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36";
+
+function createRequestMeta(
+  headers: HeadersInit,
+): ApprovedCollectRequestMeta {
+  return {
+    url: new URL("https://example.com/mp/collect"),
+    headers: new Headers(headers),
+    name: RequestName.collect,
+    debug: false,
+    measurement_id: "site",
+    api_secret: "token",
+    endpoint: "https://backend.example.com/mp/collect",
+    in_measurement_id: "site",
+  };
+}
+
+const browserHeaders = {
+  "User-Agent": CHROME_USER_AGENT,
+  "Accept-Language": "en-GB,en;q=0.8",
+};
+
+Deno.test("BotFilter", async (t) => {
+  await t.step("detect()", async (t) => {
+    const filter = new BotFilter({ action: "drop" });
+    const detect = (headers: HeadersInit) =>
+      filter.detect(new Headers(headers));
+
+    await t.step("does not detect browsers", () => {
+      assertEquals(detect(browserHeaders), undefined);
+    });
+
+    await t.step("detects bot User-Agents", () => {
+      for (
+        const userAgent of [
+          "",
+          "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+          "Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)",
+          "facebookexternalhit/1.1",
+          "Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)",
+          "Mozilla/5.0 (compatible; YandexMobileBot/3.0; +http://yandex.com/bots)",
+        ]
+      ) {
+        assertEquals(
+          detect({ ...browserHeaders, "User-Agent": userAgent }),
+          BotSignal.Enum.user_agent,
+          userAgent,
+        );
+      }
+    });
+
+    await t.step("does not detect devices with bot-like names", () => {
+      for (
+        const userAgent of [
+          "Mozilla/5.0 (Linux; Android 10; CUBOT NOTE 20) AppleWebKit/537.36 " +
+          "(KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36",
+          "Mozilla/5.0 (Linux; Android 9; CUBOT_X19) AppleWebKit/537.36 " +
+          "(KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36",
+        ]
+      ) {
+        assertEquals(
+          detect({ ...browserHeaders, "User-Agent": userAgent }),
+          undefined,
+          userAgent,
+        );
+      }
+    });
+
+    await t.step("detects HTTP clients only if enabled", () => {
+      const httpClientFilter = new BotFilter({
+        action: "drop",
+        httpClients: true,
+      });
+      for (
+        const userAgent of [
+          "curl/8.5.0",
+          "python-requests/2.31.0",
+          "Go-http-client/1.1",
+          "okhttp/4.12.0",
+        ]
+      ) {
+        const headers = { ...browserHeaders, "User-Agent": userAgent };
+        assertEquals(detect(headers), undefined, userAgent);
+        assertEquals(
+          httpClientFilter.detect(new Headers(headers)),
+          BotSignal.Enum.user_agent,
+          userAgent,
+        );
+      }
+    });
+
+    await t.step("detects headless browsers", () => {
+      assertEquals(
+        detect({
+          ...browserHeaders,
+          "User-Agent": CHROME_USER_AGENT.replace("Chrome/", "HeadlessChrome/"),
+        }),
+        BotSignal.Enum.headless,
+      );
+      assertEquals(
+        detect({
+          ...browserHeaders,
+          "Sec-CH-UA": '"Chromium";v="126", "HeadlessChrome";v="126"',
+        }),
+        BotSignal.Enum.headless,
+      );
+    });
+
+    await t.step("detects empty Accept-Language", () => {
+      assertEquals(
+        detect({ "User-Agent": CHROME_USER_AGENT }),
+        BotSignal.Enum.accept_language,
+      );
+      assertEquals(
+        detect({ ...browserHeaders, "Accept-Language": " " }),
+        BotSignal.Enum.accept_language,
+      );
+    });
+
+    await t.step("uses userAgentPatterns", () => {
+      const filter = new BotFilter({
+        action: "drop",
+        userAgentPatterns: [/^Example\//],
+      });
+      assertEquals(
+        filter.detect(
+          new Headers({ ...browserHeaders, "User-Agent": "Example/1.0" }),
+        ),
+        BotSignal.Enum.user_agent,
+      );
+      assertEquals(
+        filter.detect(
+          new Headers({ ...browserHeaders, "User-Agent": "Googlebot/2.1" }),
+        ),
+        undefined,
+      );
+    });
+  });
+
+  await t.step("createPayloadParser()", async (t) => {
+    const payload = {
+      client_id: "c1",
+      events: [{ name: "page_view" }, { name: "a", params: { x: 1 } }],
+    };
+    const botRequestMeta = createRequestMeta({
+      ...browserHeaders,
+      "User-Agent": "Googlebot/2.1",
+    });
+
+    await t.step("drops payloads from bots", async () => {
+      const parser = new BotFilter({ action: "drop" })
+        .createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({ payload: structuredClone(payload) }, {
+        requestMeta: botRequestMeta,
+      });
+
+      assertUnsuccessful(result);
+      assertEquals(result.error, {
+        name: "payload-from-bot",
+        signal: BotSignal.Enum.user_agent,
+      });
+    });
+
+    await t.step("drops invalid payloads from bots", async () => {
+      const parser = new BotFilter({ action: "drop" })
+        .createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({ payload: { events: "x" } }, {
+        requestMeta: botRequestMeta,
+      });
+
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "payload-from-bot");
+    });
+
+    await t.step("tags the events of payloads from bots", async () => {
+      const parser = new BotFilter({ action: "tag" })
+        .createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({ payload: structuredClone(payload) }, {
+        requestMeta: botRequestMeta,
+      });
+
+      assertSuccessful(result);
+      assertEquals(result.data.payload.events, [
+        { name: "page_view", params: { traffic_type: "bot" } },
+        { name: "a", params: { x: 1, traffic_type: "bot" } },
+      ]);
+    });
+
+    await t.step("validates the tags of payloads from bots", async () => {
+      const parser = new BotFilter({ action: "tag" })
+        .createPayloadParser(defaultPayloadParser);
+      const params = Object.fromEntries(
+        Array.from({ length: 25 }, (_, i) => [`p${i}`, i]),
+      );
+
+      const result = await parser({
+        payload: { client_id: "c1", events: [{ name: "a", params }] },
+      }, { requestMeta: botRequestMeta });
+
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "invalid-ga4mp-payload");
+    });
+
+    await t.step("passes payloads from browsers", async () => {
+      for (const action of ["drop", "tag"] as const) {
+        const parser = new BotFilter({ action })
+          .createPayloadParser(defaultPayloadParser);
+
+        const result = await parser({ payload: structuredClone(payload) }, {
+          requestMeta: createRequestMeta(browserHeaders),
+        });
+
+        assertSuccessful(result);
+        assertEquals(result.data.payload.events, payload.events);
+      }
+    });
+  });
+});
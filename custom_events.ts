@@ -0,0 +1,201 @@
+/**
+ * Schemas for events defined in config, with JSON-Schema-style definitions of
+ * their params.
+ */
+
+import { z } from "./deps.ts";
+import { AnyEvent, EventName, ParameterName } from "./payload_schemas.ts";
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "u");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const Length = z.number().int().nonnegative();
+
+export const StringParamDefinition = z.object({
+  type: z.literal("string"),
+  description: z.string().optional(),
+  enum: z.array(z.string()).nonempty().optional(),
+  minLength: Length.optional(),
+  maxLength: Length.optional(),
+  /** A regular expression that values must contain a match of. */
+  pattern: z.string().refine(isValidRegExp, {
+    message: "Must be a valid regular expression",
+  }).optional(),
+}).strict();
+
+export const NumberParamDefinition = z.object({
+  type: z.enum(["number", "integer"]),
+  description: z.string().optional(),
+  enum: z.array(z.number()).nonempty().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+}).strict();
+
+/** The `items` param of ecommerce events. */
+export const ArrayParamDefinition = z.object({
+  type: z.literal("array"),
+  description: z.string().optional(),
+  minItems: Length.optional(),
+  maxItems: Length.optional(),
+}).strict();
+
+export const ParamDefinition = z.discriminatedUnion("type", [
+  StringParamDefinition,
+  NumberParamDefinition,
+  ArrayParamDefinition,
+]);
+export type ParamDefinition = z.infer<typeof ParamDefinition>;
+
+/** The definition of an event's params, like a JSON Schema of an object. */
+export const EventDefinition = z.object({
+  description: z.string().optional(),
+  properties: z.record(ParameterName, ParamDefinition).optional(),
+  /** The params that events must have. */
+  required: z.array(ParameterName).optional(),
+  /** Whether events can have params that are not in `properties`. Default is
+   * true. */
+  additionalProperties: z.boolean().optional(),
+}).strict().superRefine((definition, ctx) => {
+  for (const [i, name] of (definition.required ?? []).entries()) {
+    if (!Object.hasOwn(definition.properties ?? {}, name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["required", i],
+        message: `${name} is not defined in properties`,
+      });
+    }
+  }
+});
+export type EventDefinition = z.infer<typeof EventDefinition>;
+
+/** Event definitions, keyed by event name. */
+export const EventDefinitions = z.record(EventName, EventDefinition);
+export type EventDefinitions = z.infer<typeof EventDefinitions>;
+
+function createParamSchema(definition: ParamDefinition): z.ZodTypeAny {
+  switch (definition.type) {
+    case "string": {
+      let schema = z.string();
+      if (definition.minLength !== undefined) {
+        schema = schema.min(definition.minLength);
+      }
+      if (definition.maxLength !== undefined) {
+        schema = schema.max(definition.maxLength);
+      }
+      if (definition.pattern !== undefined) {
+        schema = schema.regex(new RegExp(definition.pattern, "u"));
+      }
+      const values = definition.enum;
+      return values ? schema.refine(isOneOf(values), notOneOf(values)) : schema;
+    }
+    case "number":
+    case "integer": {
+      let schema = z.number();
+      if (definition.type === "integer") schema = schema.int();
+      if (definition.minimum !== undefined) {
+        schema = schema.gte(definition.minimum);
+      }
+      if (definition.maximum !== undefined) {
+        schema = schema.lte(definition.maximum);
+      }
+      const values = definition.enum;
+      return values ? schema.refine(isOneOf(values), notOneOf(values)) : schema;
+    }
+    case "array": {
+      let schema = z.array(z.unknown());
+      if (definition.minItems !== undefined) {
+        schema = schema.min(definition.minItems);
+      }
+      if (definition.maxItems !== undefined) {
+        schema = schema.max(definition.maxItems);
+      }
+      return schema;
+    }
+  }
+}
+
+function isOneOf<T>(values: readonly T[]): (value: T) => boolean {
+  return (value) => values.includes(value);
+}
+
+function notOneOf<T>(values: readonly T[]): { message: string } {
+  return {
+    message: `Must be one of: ${
+      values.map((v) => JSON.stringify(v)).join(", ")
+    }`,
+  };
+}
+
+/** Create a schema for the params of events with a definition.
+ *
+ * Undefined params are allowed unless `additionalProperties` is false. They are
+ * checked separately, so that each has its own issue.
+ */
+function createParamsSchema(definition: EventDefinition) {
+  const required = new Set(definition.required);
+  return z.object(Object.fromEntries(
+    Object.entries(definition.properties ?? {}).map(([name, param]) => {
+      const schema = createParamSchema(param);
+      return [name, required.has(name) ? schema : schema.optional()];
+    }),
+  )).passthrough();
+}
+
+export type CreateCustomEventSchemaOptions = {
+  events: EventDefinitions;
+  /** The schema that events are validated with before their definition.
+   * Default is {@linkcode AnyEvent}. */
+  eventSchema?: z.ZodType<z.infer<typeof AnyEvent>, z.ZodTypeDef, unknown>;
+};
+
+/** Create a schema for events that only accepts events that have a definition.
+ *
+ * Events are validated with `eventSchema`, then with the definition of the
+ * event with their name. Events without a definition are invalid.
+ */
+export function createCustomEventSchema(
+  { events, eventSchema = AnyEvent }: CreateCustomEventSchemaOptions,
+) {
+  const definitions = new Map(
+    Object.entries(events).map(([name, definition]) => [
+      name,
+      { definition, params: createParamsSchema(definition) },
+    ]),
+  );
+  return eventSchema.superRefine((event, ctx) => {
+    const defined = definitions.get(event.name);
+    if (!defined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["name"],
+        message: `${event.name} is not a defined event`,
+      });
+      return;
+    }
+
+    const params = event.params ?? {};
+    const result = defined.params.safeParse(params);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
+      }
+    }
+    if (defined.definition.additionalProperties === false) {
+      const properties = defined.definition.properties ?? {};
+      for (const name of Object.keys(params)) {
+        if (Object.hasOwn(properties, name)) continue;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["params", name],
+          message: `${name} is not a defined param of ${event.name}`,
+        });
+      }
+    }
+  });
+}
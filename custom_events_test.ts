@@ -0,0 +1,142 @@
+import { assertEquals } from "./dev_deps.ts";
+import {
+  createCustomEventSchema,
+  EventDefinition,
+  EventDefinitions,
+} from "./custom_events.ts";
+import { RecommendedEvent } from "./recommended_events.ts";
+import { SchemaAssertions } from "./_testing/schemas.ts";
+
+Deno.test("EventDefinitions", async (t) => {
+  const sa = new SchemaAssertions(EventDefinitions);
+
+  await t.step("parses valid definitions", () => {
+    sa.assertParsesAll({
+      inputs: [
+        {},
+        { sign_up: {} },
+        {
+          sign_up: {
+            description: "A user created an account",
+            properties: {
+              method: { type: "string", enum: ["email", "google"] },
+              referrer: { type: "string", maxLength: 20, pattern: "^[a-z]+$" },
+              age: { type: "integer", minimum: 18 },
+              score: { type: "number", enum: [0.5, 1] },
+              items: { type: "array", maxItems: 1 },
+            },
+            required: ["method"],
+            additionalProperties: false,
+          },
+        },
+      ],
+    });
+  });
+
+  await t.step("rejects invalid definitions", () => {
+    sa.assertRejectsAll({
+      rawInputs: [
+        // reserved event name
+        { session_start: {} },
+        { sign_up: { properties: { method: { type: "boolean" } } } },
+        { sign_up: { properties: { ga_method: { type: "string" } } } },
+        { sign_up: { properties: { m: { type: "string", minimum: 1 } } } },
+        { sign_up: { properties: { m: { type: "string", pattern: "(" } } } },
+        { sign_up: { properties: { m: { type: "string", enum: [] } } } },
+        // required params must be defined
+        { sign_up: { required: ["method"] } },
+        { sign_up: { unknown: true } },
+      ],
+    });
+  });
+});
+
+Deno.test("createCustomEventSchema()", async (t) => {
+  const signUp: EventDefinition = {
+    properties: {
+      method: { type: "string", enum: ["email", "google"] },
+      referrer: { type: "string", minLength: 2, maxLength: 5, pattern: "^a" },
+      age: { type: "integer", minimum: 18, maximum: 130 },
+      score: { type: "number", enum: [0.5, 1] },
+      items: { type: "array", maxItems: 1 },
+    },
+    required: ["method"],
+  };
+  const sa = new SchemaAssertions(
+    createCustomEventSchema({
+      events: {
+        sign_up: signUp,
+        login: {},
+        closed: { ...signUp, additionalProperties: false },
+      },
+    }),
+  );
+
+  await t.step("parses defined events", () => {
+    sa.assertParsesAll({
+      inputs: [
+        { name: "login" },
+        { name: "login", params: { anything: "x" } },
+        { name: "sign_up", params: { method: "email" } },
+        {
+          name: "sign_up",
+          params: {
+            method: "google",
+            referrer: "abc",
+            age: 18,
+            score: 0.5,
+            items: [{ item_id: "a" }],
+            custom: 1,
+          },
+        },
+        { name: "closed", params: { method: "email", age: 130 } },
+      ],
+    });
+  });
+
+  await t.step("rejects events that don't match their definition", () => {
+    sa.assertRejectsAll({
+      inputs: [
+        { name: "unknown" },
+        { name: "sign_up" },
+        { name: "sign_up", params: { method: "phone" } },
+        { name: "sign_up", params: { method: "email", referrer: "a" } },
+        { name: "sign_up", params: { method: "email", referrer: "abcdef" } },
+        { name: "sign_up", params: { method: "email", referrer: "bcd" } },
+        { name: "sign_up", params: { method: "email", age: 17 } },
+        { name: "sign_up", params: { method: "email", age: 18.5 } },
+        { name: "sign_up", params: { method: "email", age: "18" } },
+        { name: "sign_up", params: { method: "email", score: 0.7 } },
+        {
+          name: "sign_up",
+          params: { method: "email", items: [{ a: "1" }, { b: "2" }] },
+        },
+        { name: "closed", params: { method: "email", custom: 1 } },
+        // events are also validated like AnyEvent
+        { name: "login", params: { ga_foo: 1 } },
+      ],
+    });
+  });
+
+  await t.step("reports issues at the paths of params", () => {
+    const result = sa.schema.safeParse({
+      name: "closed",
+      params: { method: "phone", custom: 1 },
+    });
+    assertEquals(
+      !result.success && result.error.issues.map(({ path }) => path),
+      [["params", "method"], ["params", "custom"]],
+    );
+  });
+
+  await t.step("validates events with eventSchema first", () => {
+    const sa = new SchemaAssertions(
+      createCustomEventSchema({
+        events: { purchase: {} },
+        eventSchema: RecommendedEvent,
+      }),
+    );
+
+    sa.assertRejects({ name: "purchase", params: { currency: "usd" } });
+  });
+});
@@ -4,10 +4,12 @@ import {
   SyncReturn,
   unreachableAtCompileTime,
 } from "./_misc.ts";
-import { StatusCodes, z } from "./deps.ts";
+import { createBrotliDecompress, Duplex, StatusCodes, z } from "./deps.ts";
 import { AnyPayload } from "./payload_schemas.ts";
 import {
   ForwardAndRespondOptions,
+  PayloadBotError,
+  PayloadConsentError,
   PayloadParseError,
   ProxyOptions,
   ProxySender,
@@ -62,48 +64,188 @@ export const matchDefaultGA4MPUrls: SyncReturn<
   if (url.pathname === "/mp/collect") name = RequestName.collect;
   else if (url.pathname === "/debug/mp/collect") {
     name = RequestName.debugCollect;
-  } else return { url, headers, name: null };
+  } else if (url.pathname === "/mp/pixel.gif") name = RequestName.pixel;
+  else if (url.pathname === "/g/collect") name = RequestName.gtag;
+  else if (url.pathname === "/mp/batch") name = RequestName.batch;
+  else return { url, headers, name: null };
 
   return {
     url,
     headers,
     name,
-    measurement_id: url.searchParams.get("measurement_id"),
+    // gtag.js identifies data streams by their tag ID
+    measurement_id: url.searchParams.get(
+      name === RequestName.gtag ? "tid" : "measurement_id",
+    ),
     api_secret: url.searchParams.get("api_secret"),
     debug: name === RequestName.debugCollect,
   };
 };
 
+/** The content types that request bodies can be read from.
+ *
+ * - `application/json`: The body is a JSON payload.
+ * - `text/plain`: The body is a JSON payload. This is what
+ *   `navigator.sendBeacon()` sends strings as, and browsers can send it
+ *   cross-origin without a CORS preflight request.
+ * - `application/x-www-form-urlencoded`: The body's `payload` field is a JSON
+ *   payload. Like `text/plain`, this does not need a CORS preflight request.
+ */
+export const RequestContentType = z.enum([
+  "application/json",
+  "text/plain",
+  "application/x-www-form-urlencoded",
+]);
+export type RequestContentType = z.infer<typeof RequestContentType>;
+
+export const DEFAULT_REQUEST_CONTENT_TYPES: readonly RequestContentType[] = [
+  RequestContentType.Enum["application/json"],
+];
+
+/** The field of form-encoded request bodies that holds the JSON payload. */
+export const FORM_PAYLOAD_FIELD = "payload";
+
+/** The `Content-Encoding`s that request bodies can be compressed with. */
+export const RequestContentEncoding = z.enum(["gzip", "deflate", "br"]);
+export type RequestContentEncoding = z.infer<typeof RequestContentEncoding>;
+
+type DecompressionStreamCreator = () => ReadableWritablePair<
+  Uint8Array,
+  BufferSource
+>;
+
+const decompressionStreamCreators: Record<
+  RequestContentEncoding,
+  DecompressionStreamCreator
+> = {
+  gzip: () => new DecompressionStream("gzip"),
+  deflate: () => new DecompressionStream("deflate"),
+  // DecompressionStream can't decompress brotli, but node:zlib can.
+  br: () => Duplex.toWeb(createBrotliDecompress()),
+};
+
+/** The default limit on the size of request bodies after decompression.
+ *
+ * GA4 MP accepts payloads of up to 130kB, so this leaves plenty of room.
+ */
+export const DEFAULT_MAX_DECOMPRESSED_BODY_BYTES = 1024 * 1024;
+
+export type RequestReaderOptions = {
+  /** The content types to accept request bodies in. Default is
+   * {@linkcode DEFAULT_REQUEST_CONTENT_TYPES}. */
+  contentTypes?: Iterable<RequestContentType>;
+  /** Bodies of more than this many bytes fail with `body-too-large`. The
+   * limit applies to the bytes received, before any decompression. Default is
+   * no limit. */
+  maxBodyBytes?: number;
+  /** Compressed bodies that decompress to more than this many bytes fail with
+   * `body-too-large`, to protect against zip bombs. Default is
+   * {@linkcode DEFAULT_MAX_DECOMPRESSED_BODY_BYTES}. */
+  maxDecompressedBytes?: number;
+};
+
+/** Create a RequestReader that reads JSON payloads from POST request bodies.
+ *
+ * Requests with content types other than `contentTypes` fail with
+ * `incorrect-content-type`. Bodies compressed with a
+ * {@linkcode RequestContentEncoding} are decompressed, other encodings fail
+ * with `unsupported-content-encoding`.
+ */
+export function createRequestReader(
+  {
+    contentTypes = DEFAULT_REQUEST_CONTENT_TYPES,
+    maxBodyBytes,
+    maxDecompressedBytes = DEFAULT_MAX_DECOMPRESSED_BODY_BYTES,
+  }: RequestReaderOptions = {},
+): RequestReader<UnknownPayload, RequestReadError, RequestMeta> {
+  const acceptedContentTypes: ReadonlySet<RequestContentType> = new Set(
+    contentTypes,
+  );
+  return async (
+    request: Request,
+    _options,
+  ): Promise<Result<UnknownPayload, RequestReadError>> => {
+    if (request.method !== "POST") {
+      return { success: false, error: { name: "incorrect-request-method" } };
+    }
+    const contentType = getRequestContentType(request);
+    if (!contentType || !acceptedContentTypes.has(contentType)) {
+      return { success: false, error: { name: "incorrect-content-type" } };
+    }
+    const encoding = getRequestContentEncoding(request);
+    if (!encoding.success) return encoding;
+
+    let bodyJSON;
+    try {
+      bodyJSON = await readBodyJson(request, contentType, {
+        encoding: encoding.data,
+        maxBodyBytes,
+        maxDecompressedBytes,
+      });
+    } catch (e) {
+      if (e instanceof SyntaxError) {
+        return { success: false, error: { name: "body-not-valid-json" } };
+      }
+      if (e instanceof BodyTooLarge) {
+        return { success: false, error: { name: "body-too-large" } };
+      }
+      return { success: false, error: { name: "request-io-error" } };
+    }
+    return { success: true, data: { payload: bodyJSON } };
+  };
+}
+
 export const defaultRequestReader: RequestReader<
   UnknownPayload,
   RequestReadError,
   RequestMeta
-> = async (
+> = createRequestReader();
+
+export type RequestBodyLimits = Pick<
+  RequestReaderOptions,
+  "maxBodyBytes" | "maxDecompressedBytes"
+>;
+
+/** Read a request body as text, in the same way as
+ * {@linkcode createRequestReader}.
+ *
+ * Compressed bodies are decompressed, and bodies exceeding the limits fail
+ * with `body-too-large`.
+ */
+export async function readRequestText(
   request: Request,
-  _options,
-): Promise<Result<UnknownPayload, RequestReadError>> => {
-  if (request.method !== "POST") {
-    return { success: false, error: { name: "incorrect-request-method" } };
-  }
-  if (!isJsonRequest(request)) {
-    return { success: false, error: { name: "incorrect-content-type" } };
-  }
-  let bodyJSON;
+  {
+    maxBodyBytes,
+    maxDecompressedBytes = DEFAULT_MAX_DECOMPRESSED_BODY_BYTES,
+  }: RequestBodyLimits = {},
+): Promise<Result<string, RequestReadError>> {
+  const encoding = getRequestContentEncoding(request);
+  if (!encoding.success) return encoding;
   try {
-    bodyJSON = await request.json();
+    const text = (encoding.data !== undefined || maxBodyBytes !== undefined)
+      ? await readLimitedBody(request, {
+        encoding: encoding.data,
+        maxBodyBytes,
+        maxDecompressedBytes,
+      })
+      : await request.text();
+    return { success: true, data: text };
   } catch (e) {
-    if (e instanceof SyntaxError) {
-      return { success: false, error: { name: "body-not-valid-json" } };
+    if (e instanceof BodyTooLarge) {
+      return { success: false, error: { name: "body-too-large" } };
     }
     return { success: false, error: { name: "request-io-error" } };
   }
-  return { success: true, data: { payload: bodyJSON } };
-};
+}
 
 type DefaultResponseWriter = ResponseWriter<
   GA4MPPayload<unknown>,
   unknown,
-  RequestReadError | PayloadParseError | ProxySendError,
+  | RequestReadError
+  | PayloadParseError
+  | PayloadConsentError
+  | PayloadBotError
+  | ProxySendError,
   RequestMeta & Partial<DebugRequestMeta>
 >;
 
@@ -123,10 +265,19 @@ export const defaultResponseWriter: DefaultResponseWriter = (
     case "incorrect-content-type":
       return errorResponse(
         StatusCodes.NOT_ACCEPTABLE,
-        "Body must be application/json; charset=utf-8",
+        "Body must be JSON in an accepted content type, with charset=utf-8",
+      );
+    case "unsupported-content-encoding":
+      return errorResponse(
+        StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+        `Content-Encoding must be one of: ${
+          RequestContentEncoding.options.join(", ")
+        }`,
       );
     case "body-not-valid-json":
       return errorResponse(StatusCodes.BAD_REQUEST, "Body is not valid JSON");
+    case "body-too-large":
+      return errorResponse(StatusCodes.REQUEST_TOO_LONG, "Body is too large");
     case "request-io-error":
       return errorResponse(StatusCodes.BAD_REQUEST, "Could not read request");
     case "invalid-ga4mp-payload":
@@ -142,6 +293,18 @@ export const defaultResponseWriter: DefaultResponseWriter = (
         StatusCodes.BAD_REQUEST,
         "Request body is not a valid GA4 Measurement Protocol payload",
       );
+    case "payload-dropped":
+      // Clients are not told that payloads were dropped, so that they can't
+      // tell whether consent signals are honoured or events are filtered.
+      return new Response(null, { status: StatusCodes.NO_CONTENT });
+    case "payload-from-bot":
+      // Bots are not told that they were detected, so that they can't adapt.
+      return new Response(null, { status: StatusCodes.NO_CONTENT });
+    case "payload-rejected":
+      return errorResponse(
+        StatusCodes.BAD_REQUEST,
+        "Payload rejected by consent policy",
+      );
     case "timeout":
       return errorResponse(
         StatusCodes.GATEWAY_TIMEOUT,
@@ -171,12 +334,12 @@ export const defaultResponseWriter: DefaultResponseWriter = (
   }
 };
 
-type DestinationSelectorOptions<
+export type DestinationSelectorOptions<
   RawPayloadT extends UnknownPayload,
   RequestMetaT extends RequestMeta,
 > = { payload: RawPayloadT; requestMeta: RequestMetaT };
 
-type DestinationSelector<
+export type DestinationSelector<
   RawPayloadT extends UnknownPayload,
   RequestMetaT extends RequestMeta,
 > = (
@@ -269,6 +432,12 @@ export type CreateProxySenderOptions<
     ProxySendErrorT,
     RequestMetaT
   >;
+  /** The number of milliseconds to wait for the upstream server to respond.
+   *
+   * Requests that take longer fail with a `timeout` error. By default requests
+   * are only cancelled when the `signal` passed to the sender aborts.
+   */
+  timeout?: number;
 };
 
 export const defaultProxySendResultCreator: ProxySendResultCreator<
@@ -293,7 +462,7 @@ export function createProxySender<
   ProxySendErrorT extends ProxySendError,
   RequestMetaT extends RequestMeta,
 >(
-  { destinationSelector, resultCreator }: CreateProxySenderOptions<
+  { destinationSelector, resultCreator, timeout }: CreateProxySenderOptions<
     PayloadT,
     ProxySendResultT,
     ProxySendErrorT,
@@ -312,12 +481,16 @@ export function createProxySender<
     const destination = destinationSelector({ payload, requestMeta });
     const upstreamURL = formatDestinationURL(destination);
     const body = JSON.stringify(payload.payload);
+    const upstreamSignal = timeout === undefined ? signal : AbortSignal.any([
+      AbortSignal.timeout(timeout),
+      ...(signal ? [signal] : []),
+    ]);
 
     const request = new Request(upstreamURL, {
       method: "POST",
       keepalive: true,
       body,
-      signal,
+      signal: upstreamSignal,
     });
     let response: Response;
 
@@ -326,7 +499,7 @@ export function createProxySender<
     } catch (_e) {
       const e: unknown = _e;
       const message: string | undefined = hasMessage(e) ? e.message : undefined;
-      if (signal?.aborted) {
+      if (upstreamSignal?.aborted) {
         const name = isTimeout(e) ? "timeout" : "aborted";
         return await resultCreator({
           error: { name, message },
@@ -467,7 +640,8 @@ const ContentType = z.string().transform((
   ctx: z.RefinementCtx,
 ): { type: string; charset: string | undefined } => {
   const parts = contentType.toLowerCase().split(";");
-  const typeMatch = /^([\w_]+\/[\w_+]+)$/.exec(contentType.trim());
+  // Only the first part is the type, parameters like charset follow it.
+  const typeMatch = /^([\w.+-]+\/[\w.+-]+)$/.exec(parts[0].trim());
   if (!typeMatch) {
     ctx?.addIssue({
       code: z.ZodIssueCode.custom,
@@ -479,7 +653,7 @@ const ContentType = z.string().transform((
 
   let charset = undefined;
   for (let i = 1; i < parts.length; ++i) {
-    const charsetMatch = /^charset\s*=\s*(\w+)$/.exec(parts[i].trim());
+    const charsetMatch = /^charset\s*=\s*"?([\w-]+)"?$/.exec(parts[i].trim());
     if (!charsetMatch) continue;
     charset = charsetMatch[1];
     break;
@@ -487,11 +661,134 @@ const ContentType = z.string().transform((
   return { type, charset };
 });
 
-function isJsonRequest(request: Request): boolean {
+/** Get the type of a request's body, if it's a RequestContentType in UTF-8. */
+function getRequestContentType(
+  request: Request,
+): RequestContentType | undefined {
   const contentType = ContentType.safeParse(
     request.headers.get("content-type"),
   );
-  return contentType.success &&
-    (contentType.data.type === "application/json") &&
-    ((contentType.data.charset ?? "utf-8") === "utf-8");
+  if (!contentType.success) return undefined;
+  if ((contentType.data.charset ?? "utf-8") !== "utf-8") return undefined;
+  const type = RequestContentType.safeParse(contentType.data.type);
+  return type.success ? type.data : undefined;
+}
+
+/** Get the encoding of a request's body.
+ *
+ * @returns The encoding, or undefined if the body is not encoded.
+ */
+function getRequestContentEncoding(
+  request: Request,
+): Result<RequestContentEncoding | undefined, RequestReadError> {
+  const encoding = request.headers.get("content-encoding")?.trim()
+    .toLowerCase();
+  if (!encoding || encoding === "identity") {
+    return { success: true, data: undefined };
+  }
+  const result = RequestContentEncoding.safeParse(encoding);
+  if (!result.success) {
+    return {
+      success: false,
+      error: { name: "unsupported-content-encoding", encoding },
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/** Thrown when a request body exceeds a size limit. */
+class BodyTooLarge extends Error {
+  readonly name = "BodyTooLarge";
+}
+
+/** A stream that fails with {@linkcode BodyTooLarge} after `maxBytes`. */
+function createByteLimitStream(
+  maxBytes: number,
+  description: string,
+): TransformStream<Uint8Array, Uint8Array> {
+  let size = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      size += chunk.byteLength;
+      if (size > maxBytes) {
+        throw new BodyTooLarge(`${description} exceeds ${maxBytes} bytes`);
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/** Read a request body as text, enforcing size limits while it streams in.
+ *
+ * The `Content-Length` header is not trusted, bytes are counted as they're
+ * read, and reading stops as soon as a limit is exceeded.
+ *
+ * @throws BodyTooLarge if the body is more than `maxBodyBytes`, or the
+ * decompressed body is more than `maxDecompressedBytes`.
+ */
+async function readLimitedBody(
+  request: Request,
+  { encoding, maxBodyBytes, maxDecompressedBytes }: {
+    encoding: RequestContentEncoding | undefined;
+    maxBodyBytes: number | undefined;
+    maxDecompressedBytes: number;
+  },
+): Promise<string> {
+  let body = request.body;
+  if (!body) return "";
+  if (maxBodyBytes !== undefined) {
+    body = body.pipeThrough(createByteLimitStream(maxBodyBytes, "Body"));
+  }
+  if (encoding) {
+    body = body.pipeThrough(
+      decompressionStreamCreators[encoding](),
+    ).pipeThrough(
+      createByteLimitStream(maxDecompressedBytes, "Decompressed body"),
+    );
+  }
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of body) {
+    text += decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/** Read the JSON payload of a request body.
+ *
+ * @throws SyntaxError if the body does not contain a valid JSON payload.
+ * @throws BodyTooLarge if the body exceeds a size limit.
+ */
+async function readBodyJson(
+  request: Request,
+  contentType: RequestContentType,
+  options: {
+    encoding: RequestContentEncoding | undefined;
+    maxBodyBytes: number | undefined;
+    maxDecompressedBytes: number;
+  },
+): Promise<unknown> {
+  // Bodies without limits to enforce can be read directly.
+  const isLimited = options.encoding !== undefined ||
+    options.maxBodyBytes !== undefined;
+  const readText = () =>
+    isLimited ? readLimitedBody(request, options) : request.text();
+  switch (contentType) {
+    case "application/json":
+      return isLimited ? JSON.parse(await readText()) : await request.json();
+    case "text/plain":
+      return JSON.parse(await readText());
+    case "application/x-www-form-urlencoded": {
+      const form = new URLSearchParams(await readText());
+      const payload = form.get(FORM_PAYLOAD_FIELD);
+      if (payload === null) {
+        throw new SyntaxError(`Form has no ${FORM_PAYLOAD_FIELD} field`);
+      }
+      return JSON.parse(payload);
+    }
+    default:
+      return unreachableAtCompileTime(contentType, () => {
+        throw new Error(`Unknown content type: ${contentType}`);
+      });
+  }
 }
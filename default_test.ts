@@ -8,9 +8,11 @@ import {
   approvedRequestDestinationSelector,
   createPayloadParser,
   createProxySender,
+  createRequestReader,
   defaultPayloadParser,
   defaultProxyOptions,
   defaultProxySender,
+  defaultProxySendResultCreator,
   DefaultRequestForwarder,
   defaultRequestReader,
   defaultResponseWriter,
@@ -18,7 +20,13 @@ import {
   matchDefaultGA4MPUrls,
 } from "./default.ts";
 import { assert, StatusCodes, z } from "./deps.ts";
-import { assertEquals, assertSnapshot, stub, toText } from "./dev_deps.ts";
+import {
+  assertEquals,
+  assertSnapshot,
+  brotliCompressSync,
+  stub,
+  toText,
+} from "./dev_deps.ts";
 import {
   ApprovedCollectRequestMeta,
   DebugRequestMeta,
@@ -29,6 +37,8 @@ import { AnyPayload } from "./payload_schemas.ts";
 import {
   GA4MPPayload,
   MatchedErrorNames,
+  PayloadBotError,
+  PayloadConsentError,
   PayloadParseError,
   PayloadParser,
   ProxySender,
@@ -84,6 +94,44 @@ Deno.test("matchDefaultGA4MPUrls()", async (t) => {
     assertEquals(result.measurement_id, "foo");
     assertEquals(result.api_secret, "bar");
   });
+
+  await t.step("Matches pixel request", () => {
+    const url =
+      "https://example.com/mp/pixel.gif?measurement_id=foo&api_secret=bar&en=x";
+    const [request, info] = req(url);
+    const result = matchDefaultGA4MPUrls(request, info);
+
+    assertEquals(result.url, new URL(url));
+    assert(result.name === RequestName.pixel);
+    assertEquals(result.debug, false);
+    assertEquals(result.measurement_id, "foo");
+    assertEquals(result.api_secret, "bar");
+  });
+
+  await t.step("Matches gtag.js request", () => {
+    const url = "https://example.com/g/collect?v=2&tid=G-ABC&cid=1&en=x";
+    const [request, info] = req(url);
+    const result = matchDefaultGA4MPUrls(request, info);
+
+    assertEquals(result.url, new URL(url));
+    assert(result.name === RequestName.gtag);
+    assertEquals(result.debug, false);
+    assertEquals(result.measurement_id, "G-ABC");
+    assertEquals(result.api_secret, null);
+  });
+
+  await t.step("Matches batch request", () => {
+    const url =
+      "https://example.com/mp/batch?measurement_id=foo&api_secret=bar";
+    const [request, info] = req(url);
+    const result = matchDefaultGA4MPUrls(request, info);
+
+    assertEquals(result.url, new URL(url));
+    assert(result.name === RequestName.batch);
+    assertEquals(result.debug, false);
+    assertEquals(result.measurement_id, "foo");
+    assertEquals(result.api_secret, "bar");
+  });
 });
 
 Deno.test("defaultRequestReader()", async (t) => {
@@ -138,6 +186,33 @@ Deno.test("defaultRequestReader()", async (t) => {
     assertEquals(result.error.name, "incorrect-content-type");
   });
 
+  await t.step("reads requests with a charset parameter", async () => {
+    const [request, requestMeta] = createRequest({
+      contentType: "application/json; charset=UTF-8",
+    });
+    const result = await defaultRequestReader(request, { requestMeta });
+    assertSuccessful(result);
+    assertEquals(result.data.payload, payload);
+  });
+
+  await t.step("rejects requests with charsets other than UTF-8", async () => {
+    const [request, requestMeta] = createRequest({
+      contentType: "application/json; charset=latin1",
+    });
+    const result = await defaultRequestReader(request, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "incorrect-content-type");
+  });
+
+  await t.step("rejects text/plain requests by default", async () => {
+    const [request, requestMeta] = createRequest({
+      contentType: "text/plain;charset=UTF-8",
+    });
+    const result = await defaultRequestReader(request, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "incorrect-content-type");
+  });
+
   await t.step("rejects requests with syntactically-invalid JSON", async () => {
     const [request, requestMeta] = createRequest({ body: "{" });
     const result = await defaultRequestReader(request, { requestMeta });
@@ -153,6 +228,244 @@ Deno.test("defaultRequestReader()", async (t) => {
   });
 });
 
+Deno.test("createRequestReader()", async (t) => {
+  const url =
+    "https://example.com/mp/collect?measurement_id=foo&api_secret=bar";
+  const requestMeta: RequestMeta = {
+    url: new URL(url),
+    headers: new Headers(),
+  };
+  const payload: AnyPayload = { client_id: "test", events: [] };
+  const requestReader = createRequestReader({
+    contentTypes: ["text/plain", "application/x-www-form-urlencoded"],
+  });
+
+  function createRequest(contentType: string, body: string): Request {
+    return new Request(url, {
+      method: "POST",
+      headers: { "content-type": contentType },
+      body,
+    });
+  }
+
+  await t.step("reads text/plain JSON bodies", async () => {
+    const request = createRequest(
+      "text/plain;charset=UTF-8",
+      JSON.stringify(payload),
+    );
+    const result = await requestReader(request, { requestMeta });
+    assertSuccessful(result);
+    assertEquals(result.data.payload, payload);
+  });
+
+  await t.step("reads form-encoded payload fields", async () => {
+    const request = createRequest(
+      "application/x-www-form-urlencoded",
+      new URLSearchParams({ payload: JSON.stringify(payload) }).toString(),
+    );
+    const result = await requestReader(request, { requestMeta });
+    assertSuccessful(result);
+    assertEquals(result.data.payload, payload);
+  });
+
+  await t.step("rejects forms without a payload field", async () => {
+    const request = createRequest(
+      "application/x-www-form-urlencoded",
+      new URLSearchParams({ events: "[]" }).toString(),
+    );
+    const result = await requestReader(request, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "body-not-valid-json");
+  });
+
+  await t.step("rejects syntactically-invalid JSON", async () => {
+    const request = createRequest("text/plain", "{");
+    const result = await requestReader(request, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "body-not-valid-json");
+  });
+
+  await t.step("rejects content types that are not accepted", async () => {
+    const request = createRequest("application/json", JSON.stringify(payload));
+    const result = await requestReader(request, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "incorrect-content-type");
+  });
+
+  await t.step("maxBodyBytes", async (t) => {
+    const requestReader = createRequestReader({ maxBodyBytes: 100 });
+
+    await t.step("reads bodies within the limit", async () => {
+      const request = createRequest(
+        "application/json",
+        JSON.stringify(payload),
+      );
+      const result = await requestReader(request, { requestMeta });
+      assertSuccessful(result);
+      assertEquals(result.data.payload, payload);
+    });
+
+    await t.step("rejects bodies over the limit", async () => {
+      const request = createRequest(
+        "application/json",
+        JSON.stringify({ ...payload, user_id: "x".repeat(100) }),
+      );
+      const result = await requestReader(request, { requestMeta });
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "body-too-large");
+    });
+
+    await t.step("does not trust Content-Length", async () => {
+      const body = new TextEncoder().encode(
+        JSON.stringify({ ...payload, user_id: "x".repeat(100) }),
+      );
+      const request = new Request(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", "content-length": "2" },
+        body: ReadableStream.from([body.subarray(0, 50), body.subarray(50)]),
+      });
+      const result = await requestReader(request, { requestMeta });
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "body-too-large");
+    });
+  });
+});
+
+Deno.test("createRequestReader() with compressed bodies", async (t) => {
+  const url =
+    "https://example.com/mp/collect?measurement_id=foo&api_secret=bar";
+  const requestMeta: RequestMeta = {
+    url: new URL(url),
+    headers: new Headers(),
+  };
+  const payload: AnyPayload = {
+    client_id: "test",
+    events: Array.from({ length: 25 }, () => ({ name: "page_view" })),
+  };
+
+  async function compress(
+    body: string,
+    format: CompressionFormat | "brotli",
+  ): Promise<Uint8Array> {
+    // CompressionStream can't compress brotli
+    if (format === "brotli") {
+      return new Uint8Array(brotliCompressSync(new TextEncoder().encode(body)));
+    }
+    const stream = new Blob([body]).stream().pipeThrough(
+      new CompressionStream(format),
+    );
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  function createRequest(encoding: string, body: BodyInit): Request {
+    return new Request(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "content-encoding": encoding,
+      },
+      body,
+    });
+  }
+
+  const encodings = [
+    ["gzip", "gzip"],
+    ["deflate", "deflate"],
+    ["br", "brotli"],
+  ] as const;
+  for (const [encoding, format] of encodings) {
+    await t.step(`reads ${encoding} bodies`, async () => {
+      const body = await compress(JSON.stringify(payload), format);
+      const result = await defaultRequestReader(
+        createRequest(encoding, body),
+        { requestMeta },
+      );
+      assertSuccessful(result);
+      assertEquals(result.data.payload, payload);
+    });
+  }
+
+  await t.step("reads identity bodies", async () => {
+    const result = await defaultRequestReader(
+      createRequest("identity", JSON.stringify(payload)),
+      { requestMeta },
+    );
+    assertSuccessful(result);
+    assertEquals(result.data.payload, payload);
+  });
+
+  await t.step("rejects unsupported encodings", async () => {
+    const result = await defaultRequestReader(
+      createRequest("zstd", JSON.stringify(payload)),
+      { requestMeta },
+    );
+    assertUnsuccessful(result);
+    assertEquals(result.error, {
+      name: "unsupported-content-encoding",
+      encoding: "zstd",
+    });
+  });
+
+  await t.step("rejects bodies that decompress beyond the limit", async () => {
+    const requestReader = createRequestReader({ maxDecompressedBytes: 1000 });
+    const body = await compress(
+      JSON.stringify({ ...payload, user_id: "x".repeat(10_000) }),
+      "gzip",
+    );
+    assert(body.byteLength < 1000);
+
+    const result = await requestReader(createRequest("gzip", body), {
+      requestMeta,
+    });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "body-too-large");
+  });
+
+  await t.step(
+    "limits compressed bodies by their compressed size",
+    async () => {
+      const body = await compress(JSON.stringify(payload), "gzip");
+      const requestReader = createRequestReader({
+        maxBodyBytes: body.byteLength - 1,
+      });
+
+      const result = await requestReader(createRequest("gzip", body), {
+        requestMeta,
+      });
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "body-too-large");
+    },
+  );
+
+  await t.step("rejects corrupt compressed bodies", async () => {
+    for (const encoding of ["gzip", "br"]) {
+      const result = await defaultRequestReader(
+        createRequest(encoding, JSON.stringify(payload)),
+        { requestMeta },
+      );
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "request-io-error", encoding);
+    }
+  });
+
+  await t.step(
+    "rejects br bodies that decompress beyond the limit",
+    async () => {
+      const requestReader = createRequestReader({ maxDecompressedBytes: 1000 });
+      const body = await compress(
+        JSON.stringify({ ...payload, user_id: "x".repeat(10_000) }),
+        "brotli",
+      );
+
+      const result = await requestReader(createRequest("br", body), {
+        requestMeta,
+      });
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "body-too-large");
+    },
+  );
+});
+
 Deno.test("defaultResponseWriter()", async (t) => {
   const requestMeta: RequestMeta = {
     url: new URL("https://example.com/mp/collect"),
@@ -173,21 +486,37 @@ Deno.test("defaultResponseWriter()", async (t) => {
     assertEquals(response.body, null);
   });
 
-  type ForwardingError = RequestReadError | PayloadParseError | ProxySendError;
+  type ForwardingError =
+    | RequestReadError
+    | PayloadParseError
+    | PayloadConsentError
+    | PayloadBotError
+    | ProxySendError;
 
   const errorStatuses: [error: ForwardingError, status: number][] = [
     [{ name: "aborted" }, StatusCodes.INTERNAL_SERVER_ERROR],
     [{ name: "body-not-valid-json" }, StatusCodes.BAD_REQUEST],
+    [{ name: "body-too-large" }, StatusCodes.REQUEST_TOO_LONG],
     [{ name: "incorrect-content-type" }, StatusCodes.NOT_ACCEPTABLE],
     [{ name: "incorrect-request-method" }, StatusCodes.METHOD_NOT_ALLOWED],
     [
       { name: "invalid-ga4mp-payload", zodError: new z.ZodError([]) },
       StatusCodes.BAD_REQUEST,
     ],
+    [{ name: "payload-dropped", signal: "dnt" }, StatusCodes.NO_CONTENT],
+    [
+      { name: "payload-from-bot", signal: "user_agent" },
+      StatusCodes.NO_CONTENT,
+    ],
+    [{ name: "payload-rejected", signal: "gpc" }, StatusCodes.BAD_REQUEST],
     [{ name: "proxy-io-error" }, StatusCodes.BAD_GATEWAY],
     [{ name: "proxy-response-status", status: 500 }, StatusCodes.BAD_GATEWAY],
     [{ name: "request-io-error" }, StatusCodes.BAD_REQUEST],
     [{ name: "timeout" }, StatusCodes.GATEWAY_TIMEOUT],
+    [
+      { name: "unsupported-content-encoding", encoding: "zstd" },
+      StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+    ],
   ];
 
   assertEquals(
@@ -280,6 +609,7 @@ Deno.test("approvedRequestDestinationSelector()", () => {
     measurement_id,
     api_secret,
     endpoint,
+    in_measurement_id: measurement_id,
   };
 
   const destination: GA4MPDestination = approvedRequestDestinationSelector({
@@ -491,6 +821,7 @@ Deno.test("createProxySender()", async (t) => {
     measurement_id,
     api_secret,
     endpoint,
+    in_measurement_id: measurement_id,
   };
 
   const proxySender = createProxySender({
@@ -528,6 +859,24 @@ Deno.test("createProxySender()", async (t) => {
     sendResult: "foo",
     validPayload: payload,
   });
+
+  await t.step(
+    "cancels fetch and returns timeout when upstream exceeds timeout",
+    async () => {
+      const timeoutProxySender = createProxySender({
+        destinationSelector: approvedRequestDestinationSelector,
+        resultCreator: defaultProxySendResultCreator,
+        timeout: 0,
+      });
+      using fetchStub = stubFetchToBlockUntilAbort();
+
+      const result = await timeoutProxySender(payload, { requestMeta });
+
+      assertEquals(fetchStub.calls.length, 1);
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "timeout");
+    },
+  );
 });
 
 Deno.test("defaultProxySender()", async (t) => {
@@ -539,6 +888,7 @@ Deno.test("defaultProxySender()", async (t) => {
     measurement_id: "exampleId",
     api_secret: "exampleSec",
     endpoint: "https://dest.example.com/mp/collect",
+    in_measurement_id: "exampleId",
   };
 
   await testProxySender(t, {
@@ -562,6 +912,7 @@ Deno.test("DefaultRequestForwarder", async (t) => {
     measurement_id: "exampleId",
     api_secret: "exampleSec",
     endpoint: "https://dest.example.com/mp/collect",
+    in_measurement_id: "exampleId",
   };
 
   const info: Deno.ServeHandlerInfo = {
@@ -11,6 +11,7 @@ export {
   assertNotEquals,
   assertRejects,
   assertStringIncludes,
+  assertThrows,
 } from "https://deno.land/std@0.221.0/assert/mod.ts";
 
 export { assertSnapshot } from "https://deno.land/std@0.221.0/testing/snapshot.ts";
@@ -31,3 +32,5 @@ export const validateUuid = validate;
 export { toText } from "https://deno.land/std@0.221.0/streams/mod.ts";
 
 export { fromFileUrl } from "https://deno.land/std@0.221.0/path/posix/from_file_url.ts";
+
+export { brotliCompressSync } from "node:zlib";
@@ -0,0 +1,149 @@
+import { z } from "./deps.ts";
+import { RequestMeta } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import {
+  GA4MPPayload,
+  PayloadDroppedError,
+  PayloadParseError,
+  PayloadParser,
+  UnknownPayload,
+} from "./types.ts";
+
+/** What to do with payloads that have events that are not allowed.
+ *
+ * - `drop`: Remove the events that are not allowed, and forward the rest.
+ * - `reject`: Reject the payload as invalid.
+ */
+export const DisallowedEventsAction = z.enum(["drop", "reject"]);
+export type DisallowedEventsAction = z.infer<typeof DisallowedEventsAction>;
+
+/** An event name, a glob pattern of event names, or a regular expression.
+ *
+ * In glob patterns, `*` matches any characters and `?` matches one character.
+ * Regular expressions match names that contain a match, so they need `^` and
+ * `$` to match whole names.
+ */
+export type EventNamePattern = string | RegExp;
+
+/** Convert a glob pattern of event names to a regular expression. */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob.replaceAll(
+    /[.*+?^${}()|[\]\\]/g,
+    (char) => char === "*" ? ".*" : char === "?" ? "." : `\\${char}`,
+  );
+  return new RegExp(`^${source}$`);
+}
+
+function matchesAny(
+  name: string,
+  patterns: readonly RegExp[] | undefined,
+): boolean {
+  return patterns?.some((pattern) => pattern.test(name)) ?? false;
+}
+
+export type EventNameFilterOptions = {
+  /** The events to allow. Default is to allow all events. */
+  allow?: readonly EventNamePattern[];
+  /** The events not to allow, even if they're in `allow`. */
+  deny?: readonly EventNamePattern[];
+  /** Default is `drop`. */
+  disallowedEvents?: DisallowedEventsAction;
+};
+
+/** Removes events from payloads unless their names are allowed.
+ *
+ * Events are allowed if their name matches a pattern in `allow` (or `allow` is
+ * not set) and does not match any pattern in `deny`.
+ */
+export class EventNameFilter {
+  readonly allow: readonly RegExp[] | undefined;
+  readonly deny: readonly RegExp[] | undefined;
+  readonly disallowedEvents: DisallowedEventsAction;
+
+  constructor(
+    {
+      allow,
+      deny,
+      disallowedEvents = DisallowedEventsAction.Enum.drop,
+    }: EventNameFilterOptions,
+  ) {
+    const toRegExp = (pattern: EventNamePattern) =>
+      typeof pattern === "string" ? globToRegExp(pattern) : pattern;
+    this.allow = allow?.map(toRegExp);
+    this.deny = deny?.map(toRegExp);
+    this.disallowedEvents = disallowedEvents;
+  }
+
+  isAllowed(name: string): boolean {
+    return (this.allow === undefined || matchesAny(name, this.allow)) &&
+      !matchesAny(name, this.deny);
+  }
+
+  /** Wrap a PayloadParser to remove events that are not allowed, or reject
+   * payloads that have them.
+   *
+   * Rejected payloads fail with an `invalid-ga4mp-payload` error whose issues
+   * are the names of the events that are not allowed. The number of events
+   * dropped from payloads is logged. Payloads whose events are all dropped
+   * fail with a `payload-dropped` error, as there's nothing left to forward.
+   */
+  createPayloadParser<
+    RawPayloadT extends UnknownPayload,
+    PayloadT extends GA4MPPayload<AnyPayload>,
+    PayloadParseErrorT,
+    RequestMetaT extends RequestMeta,
+  >(
+    next: PayloadParser<
+      RawPayloadT,
+      PayloadT,
+      PayloadParseErrorT,
+      RequestMetaT
+    >,
+  ): PayloadParser<
+    RawPayloadT,
+    PayloadT,
+    PayloadParseErrorT | PayloadParseError | PayloadDroppedError,
+    RequestMetaT
+  > {
+    return async (payload, options) => {
+      const result = await next(payload, options);
+      if (!result.success) return result;
+
+      const { events } = result.data.payload;
+      const disallowed = events.flatMap(({ name }, i) =>
+        this.isAllowed(name) ? [] : [{ name, i }]
+      );
+      if (disallowed.length === 0) return result;
+
+      if (this.disallowedEvents === DisallowedEventsAction.Enum.reject) {
+        return {
+          success: false,
+          error: {
+            name: "invalid-ga4mp-payload",
+            zodError: new z.ZodError(disallowed.map(({ name, i }) => ({
+              code: z.ZodIssueCode.custom,
+              path: ["events", i, "name"],
+              message: `${name} is not an allowed event`,
+            }))),
+          },
+        };
+      }
+
+      result.data.payload.events = events.filter(({ name }) =>
+        this.isAllowed(name)
+      );
+      console.warn(
+        `Dropped ${disallowed.length} events that are not allowed: ${
+          [...new Set(disallowed.map(({ name }) => name))].join(", ")
+        }`,
+      );
+      if (result.data.payload.events.length === 0) {
+        return {
+          success: false,
+          error: { name: "payload-dropped", signal: "disallowed_events" },
+        };
+      }
+      return result;
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { defaultPayloadParser } from "./default.ts";
+import { assert, assertEquals, assertSpyCall, stub } from "./dev_deps.ts";
+import { EventNameFilter, globToRegExp } from "./event_filter.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "site",
+  api_secret: "token",
+  endpoint: "https://backend.example.com/mp/collect",
+  in_measurement_id: "site",
+};
+
+Deno.test("globToRegExp()", () => {
+  assertEquals(globToRegExp("page_view"), /^page_view$/);
+  assertEquals(globToRegExp("ads_*"), /^ads_.*$/);
+  assertEquals(globToRegExp("v?.x"), /^v.\.x$/);
+});
+
+Deno.test("EventNameFilter", async (t) => {
+  await t.step("isAllowed()", async (t) => {
+    await t.step("allows all events by default", () => {
+      const filter = new EventNameFilter({});
+      assert(filter.isAllowed("page_view"));
+    });
+
+    await t.step("matches exact names, globs and regexes", () => {
+      const filter = new EventNameFilter({
+        allow: ["page_view", "ads_*", /^(sign_up|login)$/],
+      });
+
+      assert(filter.isAllowed("page_view"));
+      assert(filter.isAllowed("ads_click"));
+      assert(filter.isAllowed("login"));
+      assert(!filter.isAllowed("page_view_2"));
+      assert(!filter.isAllowed("my_ads_click"));
+      assert(!filter.isAllowed("login_failed"));
+    });
+
+    await t.step("denies events even if they're allowed", () => {
+      const filter = new EventNameFilter({
+        allow: ["ads_*"],
+        deny: ["ads_test_*"],
+      });
+
+      assert(filter.isAllowed("ads_click"));
+      assert(!filter.isAllowed("ads_test_click"));
+      assert(!new EventNameFilter({ deny: [/debug/] }).isAllowed("a_debug"));
+    });
+  });
+
+  await t.step("createPayloadParser()", async (t) => {
+    const payload = {
+      client_id: "c1",
+      events: [{ name: "page_view" }, { name: "debug" }, { name: "debug" }],
+    };
+
+    await t.step("drops events that are not allowed", async () => {
+      using warn = stub(console, "warn");
+      const parser = new EventNameFilter({ deny: ["debug"] })
+        .createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({ payload: structuredClone(payload) }, {
+        requestMeta,
+      });
+
+      assertSuccessful(result);
+      assertEquals(result.data.payload.events, [{ name: "page_view" }]);
+      assertSpyCall(warn, 0, {
+        args: ["Dropped 2 events that are not allowed: debug"],
+      });
+    });
+
+    await t.step(
+      "drops payloads whose events are all not allowed",
+      async () => {
+        using _warn = stub(console, "warn");
+        const parser = new EventNameFilter({ allow: ["purchase"] })
+          .createPayloadParser(defaultPayloadParser);
+
+        const result = await parser({ payload: structuredClone(payload) }, {
+          requestMeta,
+        });
+
+        assertUnsuccessful(result);
+        assertEquals(result.error, {
+          name: "payload-dropped",
+          signal: "disallowed_events",
+        });
+      },
+    );
+
+    await t.step(
+      "rejects payloads with events that are not allowed",
+      async () => {
+        const parser = new EventNameFilter({
+          deny: ["debug"],
+          disallowedEvents: "reject",
+        }).createPayloadParser(defaultPayloadParser);
+
+        const result = await parser({ payload: structuredClone(payload) }, {
+          requestMeta,
+        });
+
+        assertUnsuccessful(result);
+        assert(result.error.name === "invalid-ga4mp-payload");
+        assertEquals(result.error.zodError.issues.map(({ path }) => path), [
+          ["events", 1, "name"],
+          ["events", 2, "name"],
+        ]);
+      },
+    );
+
+    await t.step("passes payloads with only allowed events", async () => {
+      const parser = new EventNameFilter({
+        allow: ["page_view", "debug"],
+        disallowedEvents: "reject",
+      }).createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({ payload: structuredClone(payload) }, {
+        requestMeta,
+      });
+
+      assertSuccessful(result);
+      assertEquals(result.data.payload.events, payload.events);
+    });
+  });
+});
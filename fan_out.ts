@@ -0,0 +1,126 @@
+import { Result } from "./_misc.ts";
+import { GA4MPDestination } from "./default.ts";
+import { unreachable, z } from "./deps.ts";
+import { ApprovedCollectRequestMeta } from "./meta.ts";
+import { ProxySender, ProxySendError, UnknownPayload } from "./types.ts";
+
+/** How the results of sending to multiple destinations are combined.
+ *
+ * - "all" — sending succeeds only if every destination succeeds.
+ * - "any" — sending succeeds if at least one destination succeeds.
+ */
+export const FanOutPolicy = z.enum(["all", "any"]);
+export type FanOutPolicy = z.infer<typeof FanOutPolicy>;
+
+export type FanOutDestination = GA4MPDestination & { endpoint: string };
+
+/** The outcome of sending a payload to one of several destinations. */
+export type FanOutDestinationResult<ProxySendResultT, ProxySendErrorT> = {
+  destination: FanOutDestination;
+  result: Result<ProxySendResultT, ProxySendErrorT>;
+};
+
+export type FanOutProxySendResult<ProxySendResultT, ProxySendErrorT> =
+  FanOutDestinationResult<ProxySendResultT, ProxySendErrorT>[];
+
+/** A failed destination's error, with the results of every destination. */
+export type FanOutProxySendError<ProxySendResultT, ProxySendErrorT> =
+  & ProxySendErrorT
+  & { results: FanOutProxySendResult<ProxySendResultT, ProxySendErrorT> };
+
+export type CreateFanOutProxySenderOptions<
+  PayloadT extends UnknownPayload,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends ApprovedCollectRequestMeta,
+> = {
+  /** The sender used to send the payload to each destination. */
+  proxySender: ProxySender<
+    PayloadT,
+    ProxySendResultT,
+    ProxySendErrorT,
+    RequestMetaT
+  >;
+  destinations: readonly FanOutDestination[];
+  policy: FanOutPolicy;
+};
+
+/** Create a ProxySender that sends each payload to several destinations.
+ *
+ * The payload is sent to all destinations concurrently. Each send uses the
+ * request metadata with its measurement_id, api_secret and endpoint replaced
+ * by the destination's. The result holds each destination's result,
+ * in the order of `destinations`. When the policy is not met, the error is the
+ * error of the first failed destination, with all the results attached.
+ *
+ * Each destination that fails is logged with its error, so that failures are
+ * noticed even when the policy is met.
+ */
+export function createFanOutProxySender<
+  PayloadT extends UnknownPayload,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends ApprovedCollectRequestMeta,
+>(
+  { proxySender, destinations, policy }: CreateFanOutProxySenderOptions<
+    PayloadT,
+    ProxySendResultT,
+    ProxySendErrorT,
+    RequestMetaT
+  >,
+): ProxySender<
+  PayloadT,
+  FanOutProxySendResult<ProxySendResultT, ProxySendErrorT>,
+  FanOutProxySendError<ProxySendResultT, ProxySendErrorT>,
+  RequestMetaT
+> {
+  if (destinations.length === 0) {
+    throw new RangeError("destinations must not be empty");
+  }
+  return async (
+    payload,
+    { requestMeta, signal },
+  ): Promise<
+    Result<
+      FanOutProxySendResult<ProxySendResultT, ProxySendErrorT>,
+      FanOutProxySendError<ProxySendResultT, ProxySendErrorT>
+    >
+  > => {
+    const results = await Promise.all(
+      destinations.map(async (destination) => ({
+        destination,
+        result: await proxySender(payload, {
+          requestMeta: {
+            ...requestMeta,
+            measurement_id: destination.measurement_id,
+            api_secret: destination.api_secret,
+            endpoint: destination.endpoint,
+          },
+          signal,
+        }),
+      })),
+    );
+
+    for (const { destination, result } of results) {
+      if (!result.success) {
+        console.warn(
+          `Failed to send payload to ${destination.measurement_id} at ${destination.endpoint}:`,
+          result.error,
+        );
+      }
+    }
+
+    const succeeded = policy === "all"
+      ? results.every(({ result }) => result.success)
+      : results.some(({ result }) => result.success);
+    if (succeeded) return { success: true, data: results };
+
+    for (const { result } of results) {
+      if (!result.success) {
+        return { success: false, error: { ...result.error, results } };
+      }
+    }
+    // If no results failed then the policy must have succeeded
+    unreachable();
+  };
+}
@@ -0,0 +1,178 @@
+import { Result } from "./_misc.ts";
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertSpyCall,
+  stub,
+} from "./dev_deps.ts";
+import {
+  createFanOutProxySender,
+  FanOutDestination,
+  FanOutPolicy,
+} from "./fan_out.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import { ProxySender, ProxySendError, UnknownPayload } from "./types.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "in",
+  api_secret: "inSec",
+  endpoint: "https://example.com/mp/collect",
+  in_measurement_id: "in",
+};
+
+const payload: UnknownPayload = { payload: {} };
+
+const destinations: FanOutDestination[] = [
+  {
+    measurement_id: "a",
+    api_secret: "aSec",
+    endpoint: "https://a.example.com/mp/collect",
+  },
+  {
+    measurement_id: "b",
+    api_secret: "bSec",
+    endpoint: "https://b.example.com/mp/collect",
+  },
+];
+
+/** Create a ProxySender that fails for the measurement_ids in `failing`. */
+function createProxySender(
+  failing: string[],
+):
+  & ProxySender<
+    UnknownPayload,
+    string,
+    ProxySendError,
+    ApprovedCollectRequestMeta
+  >
+  & { sent: ApprovedCollectRequestMeta[] } {
+  const sent: ApprovedCollectRequestMeta[] = [];
+  const sender = (
+    _payload: UnknownPayload,
+    { requestMeta }: { requestMeta: ApprovedCollectRequestMeta },
+  ): Promise<Result<string, ProxySendError>> => {
+    sent.push(requestMeta);
+    return Promise.resolve(
+      failing.includes(requestMeta.measurement_id)
+        ? {
+          success: false,
+          error: { name: "proxy-response-status", status: 500 },
+        }
+        : { success: true, data: requestMeta.measurement_id },
+    );
+  };
+  return Object.assign(sender, { sent });
+}
+
+Deno.test("createFanOutProxySender()", async (t) => {
+  await t.step("sends payload to each destination", async () => {
+    const proxySender = createProxySender([]);
+    const sender = createFanOutProxySender({
+      proxySender,
+      destinations,
+      policy: "all",
+    });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(result.data, [
+      { destination: destinations[0], result: { success: true, data: "a" } },
+      { destination: destinations[1], result: { success: true, data: "b" } },
+    ]);
+    assertEquals(
+      proxySender.sent.map((meta) => [
+        meta.measurement_id,
+        meta.api_secret,
+        meta.endpoint,
+      ]),
+      [
+        ["a", "aSec", "https://a.example.com/mp/collect"],
+        ["b", "bSec", "https://b.example.com/mp/collect"],
+      ],
+    );
+  });
+
+  const policyCases: [FanOutPolicy, string[], boolean][] = [
+    ["all", ["a"], false],
+    ["all", ["a", "b"], false],
+    ["any", ["a"], true],
+    ["any", ["a", "b"], false],
+  ];
+  for (const [policy, failing, succeeds] of policyCases) {
+    await t.step(
+      `policy ${policy} ${succeeds ? "succeeds" : "fails"} when ${
+        failing.join(", ")
+      } fail`,
+      async () => {
+        using _warn = stub(console, "warn");
+        const sender = createFanOutProxySender({
+          proxySender: createProxySender(failing),
+          destinations,
+          policy,
+        });
+
+        const result = await sender(payload, { requestMeta });
+
+        assertEquals(result.success, succeeds);
+      },
+    );
+  }
+
+  await t.step("logs failed destinations when the policy is met", async () => {
+    using warn = stub(console, "warn");
+    const sender = createFanOutProxySender({
+      proxySender: createProxySender(["b"]),
+      destinations,
+      policy: "any",
+    });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(warn.calls.length, 1);
+    assertSpyCall(warn, 0, {
+      args: [
+        "Failed to send payload to b at https://b.example.com/mp/collect:",
+        { name: "proxy-response-status", status: 500 },
+      ],
+    });
+  });
+
+  await t.step("reports each destination's result on failure", async () => {
+    using _warn = stub(console, "warn");
+    const sender = createFanOutProxySender({
+      proxySender: createProxySender(["b"]),
+      destinations,
+      policy: "all",
+    });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "proxy-response-status");
+    assertEquals(result.error.results.map((r) => r.result.success), [
+      true,
+      false,
+    ]);
+  });
+
+  await t.step("requires a destination", () => {
+    let error: unknown;
+    try {
+      createFanOutProxySender({
+        proxySender: createProxySender([]),
+        destinations: [],
+        policy: "all",
+      });
+    } catch (e) {
+      error = e;
+    }
+    assertInstanceOf(error, RangeError);
+  });
+});
@@ -0,0 +1,243 @@
+import { hasMessage, Result } from "./_misc.ts";
+import { z } from "./deps.ts";
+import { ApprovedCollectRequestMeta } from "./meta.ts";
+import {
+  MatchedErrorNames,
+  ProxySender,
+  ProxySendError,
+  ProxySendErrorIO,
+  UnknownPayload,
+} from "./types.ts";
+
+/** When a file sink starts writing to a new file.
+ *
+ * - "daily" — each UTC day is written to its own file.
+ * - "size" — a new file is started when the current file would exceed the
+ *   maximum size.
+ */
+export const FileSinkRotation = z.enum(["daily", "size"]);
+export type FileSinkRotation = z.infer<typeof FileSinkRotation>;
+
+export const DEFAULT_ROTATING_FILE_MAX_BYTES = 100 * 1024 * 1024;
+
+/** A line of the NDJSON files written by a file sink. */
+export type FileSinkRecord<PayloadT = unknown> = {
+  /** When the payload was received, as an ISO 8601 date-time. */
+  received: string;
+  /** The measurement_id of the incoming request. */
+  measurement_id: string | null;
+  /** The error forwarding the payload failed with, or null if it succeeded. */
+  outcome: z.infer<typeof MatchedErrorNames> | null;
+  payload: PayloadT;
+};
+
+export type RotatingNdjsonFileOptions = {
+  /** The directory that files are created in. It must already exist. */
+  directory: string;
+  rotation: FileSinkRotation;
+  /** The maximum size in bytes of files when rotation is "size". */
+  maxBytes?: number;
+  /** Compress files with gzip after they're rotated. */
+  gzip?: boolean;
+  /** The start of the file names. Default is "events". */
+  prefix?: string;
+};
+
+type CurrentFile = { path: string; day: string; size: number };
+
+/** An NDJSON file that's appended to, and periodically rotated.
+ *
+ * Files are named `<prefix>-<date>.ndjson` when rotating daily, or
+ * `<prefix>-<date-time>.ndjson` when rotating by size. Daily files are appended
+ * to if they already exist, so that restarts continue the current day's file.
+ *
+ * With `gzip`, rotated files are compressed to `<name>.ndjson.gz` and the
+ * uncompressed file is removed. If a daily file was already compressed before a
+ * restart, the later part is compressed to `<name>-1.ndjson.gz`, and so on.
+ */
+export class RotatingNdjsonFile {
+  readonly directory: string;
+  readonly rotation: FileSinkRotation;
+  readonly maxBytes: number;
+  readonly gzip: boolean;
+  readonly prefix: string;
+  #current: CurrentFile | undefined;
+  #pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    {
+      directory,
+      rotation,
+      maxBytes = DEFAULT_ROTATING_FILE_MAX_BYTES,
+      gzip = false,
+      prefix = "events",
+    }: RotatingNdjsonFileOptions,
+  ) {
+    if (!(maxBytes > 0)) throw new RangeError("maxBytes must be positive");
+    this.directory = directory;
+    this.rotation = rotation;
+    this.maxBytes = maxBytes;
+    this.gzip = gzip;
+    this.prefix = prefix;
+  }
+
+  /** Write a value to the file as a line of JSON.
+   *
+   * Appends are written one at a time, in the order they're made.
+   */
+  append(value: unknown): Promise<void> {
+    const line = new TextEncoder().encode(`${JSON.stringify(value)}\n`);
+    const now = new Date();
+    const write = this.#pending.then(() => this.#write(line, now));
+    this.#pending = write.catch(() => {});
+    return write;
+  }
+
+  /** Wait for pending appends, and compress the current file with gzip if
+   * enabled.
+   *
+   * Later appends start a new file. */
+  close(): Promise<void> {
+    const close = this.#pending.then(() => this.#rotate());
+    this.#pending = close.catch(() => {});
+    return close;
+  }
+
+  async #write(line: Uint8Array, now: Date): Promise<void> {
+    const current = await this.#getFile(line.byteLength, now);
+    await Deno.writeFile(current.path, line, { append: true, create: true });
+    current.size += line.byteLength;
+  }
+
+  async #getFile(bytes: number, now: Date): Promise<CurrentFile> {
+    const day = now.toISOString().substring(0, 10);
+    if (this.#current) {
+      const isFull = this.rotation === "daily"
+        ? this.#current.day !== day
+        : this.#current.size > 0 && this.#current.size + bytes > this.maxBytes;
+      if (!isFull) return this.#current;
+      await this.#rotate();
+    }
+
+    const name = this.rotation === "daily"
+      ? day
+      : now.toISOString().replaceAll(":", "");
+    const path = `${this.directory}/${this.prefix}-${name}.ndjson`;
+    this.#current = { path, day, size: await getFileSize(path) };
+    return this.#current;
+  }
+
+  async #rotate(): Promise<void> {
+    const current = this.#current;
+    this.#current = undefined;
+    if (current && this.gzip && current.size > 0) await gzipFile(current.path);
+  }
+}
+
+async function getFileSize(path: string): Promise<number> {
+  try {
+    return (await Deno.stat(path)).size;
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return 0;
+    throw e;
+  }
+}
+
+/** Compress a `<name>.ndjson` file to `<name>.ndjson.gz` and remove the
+ * original.
+ *
+ * If the `.gz` file exists, `<name>-<n>.ndjson.gz` is created instead.
+ */
+async function gzipFile(path: string): Promise<void> {
+  const name = path.replace(/\.ndjson$/, "");
+  let dest: Deno.FsFile | undefined;
+  for (let n = 0; !dest; ++n) {
+    try {
+      dest = await Deno.open(`${name}${n ? `-${n}` : ""}.ndjson.gz`, {
+        write: true,
+        createNew: true,
+      });
+    } catch (e) {
+      if (!(e instanceof Deno.errors.AlreadyExists)) throw e;
+    }
+  }
+  const src = await Deno.open(path, { read: true });
+  await src.readable.pipeThrough(new CompressionStream("gzip")).pipeTo(
+    dest.writable,
+  );
+  await Deno.remove(path);
+}
+
+export type CreateFileSinkProxySenderOptions<
+  PayloadT extends UnknownPayload,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends ApprovedCollectRequestMeta,
+> = {
+  file: Pick<RotatingNdjsonFile, "append">;
+  /** The sender that forwards payloads.
+   *
+   * If not set, payloads are only written to the file.
+   */
+  proxySender?: ProxySender<
+    PayloadT,
+    ProxySendResultT,
+    ProxySendErrorT,
+    RequestMetaT
+  >;
+};
+
+/** Create a ProxySender that writes each payload to an NDJSON file.
+ *
+ * Payloads are written as {@linkcode FileSinkRecord}s after they're forwarded
+ * by `proxySender`, so that records include the outcome of forwarding. When the
+ * file is the only destination, failing to write fails with a proxy-io-error.
+ * Otherwise write failures are logged, and the forwarding result is returned.
+ */
+export function createFileSinkProxySender<
+  PayloadT extends UnknownPayload,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends ApprovedCollectRequestMeta,
+>(
+  { file, proxySender }: CreateFileSinkProxySenderOptions<
+    PayloadT,
+    ProxySendResultT,
+    ProxySendErrorT,
+    RequestMetaT
+  >,
+): ProxySender<
+  PayloadT,
+  ProxySendResultT | null,
+  ProxySendErrorT | ProxySendErrorIO,
+  RequestMetaT
+> {
+  return async (
+    payload,
+    options,
+  ): Promise<
+    Result<ProxySendResultT | null, ProxySendErrorT | ProxySendErrorIO>
+  > => {
+    const received = new Date();
+    const result: Result<ProxySendResultT | null, ProxySendErrorT> = proxySender
+      ? await proxySender(payload, options)
+      : { success: true, data: null };
+
+    const record: FileSinkRecord = {
+      received: received.toISOString(),
+      measurement_id: options.requestMeta.in_measurement_id,
+      outcome: result.success ? null : result.error.name,
+      payload: payload.payload,
+    };
+    try {
+      await file.append(record);
+    } catch (e) {
+      const message = hasMessage(e) ? e.message : undefined;
+      if (!proxySender) {
+        return { success: false, error: { name: "proxy-io-error", message } };
+      }
+      console.error("Failed to write payload to file sink:", e);
+    }
+    return result;
+  };
+}
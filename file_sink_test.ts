@@ -0,0 +1,269 @@
+import { Result } from "./_misc.ts";
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { assertEquals, assertRejects, FakeTime } from "./dev_deps.ts";
+import {
+  createFileSinkProxySender,
+  FileSinkRecord,
+  RotatingNdjsonFile,
+} from "./file_sink.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import { ProxySendError, UnknownPayload } from "./types.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL(
+    "https://example.com/mp/collect?measurement_id=in&api_secret=inSec",
+  ),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "out",
+  api_secret: "outSec",
+  endpoint: "https://example.com/mp/collect",
+  in_measurement_id: "in",
+};
+
+const payload: UnknownPayload = { payload: { client_id: "a", events: [] } };
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  const names = [];
+  for await (const entry of Deno.readDir(dir)) names.push(entry.name);
+  return names.sort();
+}
+
+async function readLines(path: string): Promise<unknown[]> {
+  const text = await Deno.readTextFile(path);
+  return text.split("\n").filter((l) => l).map((l) => JSON.parse(l));
+}
+
+async function readGzipLines(path: string): Promise<unknown[]> {
+  const file = await Deno.open(path, { read: true });
+  const text = await new Response(
+    file.readable.pipeThrough(new DecompressionStream("gzip")),
+  ).text();
+  return text.split("\n").filter((l) => l).map((l) => JSON.parse(l));
+}
+
+Deno.test("RotatingNdjsonFile", async (t) => {
+  await t.step("appends values as lines of JSON", async () => {
+    await withTempDir(async (dir) => {
+      using _time = new FakeTime("2024-01-02T03:04:05Z");
+      const file = new RotatingNdjsonFile({
+        directory: dir,
+        rotation: "daily",
+      });
+
+      await Promise.all([file.append({ n: 1 }), file.append({ n: 2 })]);
+      await file.append({ n: 3 });
+
+      assertEquals(await listDir(dir), ["events-2024-01-02.ndjson"]);
+      assertEquals(await readLines(`${dir}/events-2024-01-02.ndjson`), [
+        { n: 1 },
+        { n: 2 },
+        { n: 3 },
+      ]);
+    });
+  });
+
+  await t.step("rotates daily", async () => {
+    await withTempDir(async (dir) => {
+      using time = new FakeTime("2024-01-02T23:59:59Z");
+      const file = new RotatingNdjsonFile({
+        directory: dir,
+        rotation: "daily",
+      });
+
+      await file.append({ n: 1 });
+      time.tick(1000);
+      await file.append({ n: 2 });
+
+      assertEquals(await listDir(dir), [
+        "events-2024-01-02.ndjson",
+        "events-2024-01-03.ndjson",
+      ]);
+      assertEquals(await readLines(`${dir}/events-2024-01-03.ndjson`), [
+        { n: 2 },
+      ]);
+    });
+  });
+
+  await t.step("continues an existing daily file", async () => {
+    await withTempDir(async (dir) => {
+      using _time = new FakeTime("2024-01-02T00:00:00Z");
+      await new RotatingNdjsonFile({ directory: dir, rotation: "daily" })
+        .append({ n: 1 });
+      await new RotatingNdjsonFile({ directory: dir, rotation: "daily" })
+        .append({ n: 2 });
+
+      assertEquals(await readLines(`${dir}/events-2024-01-02.ndjson`), [
+        { n: 1 },
+        { n: 2 },
+      ]);
+    });
+  });
+
+  await t.step("rotates by size", async () => {
+    await withTempDir(async (dir) => {
+      using time = new FakeTime("2024-01-02T03:04:05Z");
+      const file = new RotatingNdjsonFile({
+        directory: dir,
+        rotation: "size",
+        maxBytes: 20,
+      });
+
+      await file.append({ n: 1 }); // 8 bytes
+      await file.append({ n: 2 });
+      time.tick(1);
+      await file.append({ n: 3 });
+      time.tick(1);
+      // values larger than maxBytes are written to a file of their own
+      await file.append({ value: "x".repeat(20) });
+
+      assertEquals(await listDir(dir), [
+        "events-2024-01-02T030405.000Z.ndjson",
+        "events-2024-01-02T030405.001Z.ndjson",
+        "events-2024-01-02T030405.002Z.ndjson",
+      ]);
+      assertEquals(
+        await readLines(`${dir}/events-2024-01-02T030405.001Z.ndjson`),
+        [{ n: 3 }],
+      );
+    });
+  });
+
+  await t.step("compresses rotated files with gzip", async () => {
+    await withTempDir(async (dir) => {
+      using time = new FakeTime("2024-01-02T00:00:00Z");
+      const file = new RotatingNdjsonFile({
+        directory: dir,
+        rotation: "daily",
+        gzip: true,
+      });
+
+      await file.append({ n: 1 });
+      time.tick(24 * 60 * 60 * 1000);
+      await file.append({ n: 2 });
+      await file.close();
+
+      assertEquals(await listDir(dir), [
+        "events-2024-01-02.ndjson.gz",
+        "events-2024-01-03.ndjson.gz",
+      ]);
+      assertEquals(await readGzipLines(`${dir}/events-2024-01-02.ndjson.gz`), [
+        { n: 1 },
+      ]);
+    });
+  });
+
+  await t.step("does not overwrite existing gzip files", async () => {
+    await withTempDir(async (dir) => {
+      using _time = new FakeTime("2024-01-02T00:00:00Z");
+      const options = {
+        directory: dir,
+        rotation: "daily",
+        gzip: true,
+      } as const;
+      const file1 = new RotatingNdjsonFile(options);
+      await file1.append({ n: 1 });
+      await file1.close();
+      const file2 = new RotatingNdjsonFile(options);
+      await file2.append({ n: 2 });
+      await file2.close();
+
+      assertEquals(await listDir(dir), [
+        "events-2024-01-02-1.ndjson.gz",
+        "events-2024-01-02.ndjson.gz",
+      ]);
+      assertEquals(
+        await readGzipLines(`${dir}/events-2024-01-02-1.ndjson.gz`),
+        [{ n: 2 }],
+      );
+    });
+  });
+
+  await t.step("rejects appends that fail", async () => {
+    const file = new RotatingNdjsonFile({
+      directory: "/does/not/exist",
+      rotation: "daily",
+    });
+    await assertRejects(() => file.append({ n: 1 }));
+  });
+});
+
+Deno.test("createFileSinkProxySender()", async (t) => {
+  function createFile(): { append(value: unknown): Promise<void> } & {
+    records: FileSinkRecord[];
+  } {
+    const records: FileSinkRecord[] = [];
+    return {
+      records,
+      append(value: unknown) {
+        records.push(value as FileSinkRecord);
+        return Promise.resolve();
+      },
+    };
+  }
+
+  await t.step("writes payloads on their own", async () => {
+    using _time = new FakeTime("2024-01-02T03:04:05Z");
+    const file = createFile();
+    const sender = createFileSinkProxySender({ file });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(file.records, [{
+      received: "2024-01-02T03:04:05.000Z",
+      measurement_id: "in",
+      outcome: null,
+      payload: payload.payload,
+    }]);
+  });
+
+  await t.step("writes payloads with the outcome of forwarding", async () => {
+    const file = createFile();
+    const results: Result<string, ProxySendError>[] = [
+      { success: true, data: "sent" },
+      { success: false, error: { name: "proxy-response-status", status: 500 } },
+    ];
+    const sender = createFileSinkProxySender({
+      file,
+      proxySender: () => Promise.resolve(results.shift()!),
+    });
+
+    assertEquals(await sender(payload, { requestMeta }), {
+      success: true,
+      data: "sent",
+    });
+    const result = await sender(payload, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "proxy-response-status");
+
+    assertEquals(file.records.map((r) => r.outcome), [
+      null,
+      "proxy-response-status",
+    ]);
+  });
+
+  await t.step("fails if writing fails on its own", async () => {
+    const sender = createFileSinkProxySender({
+      file: { append: () => Promise.reject(new Error("disk full")) },
+    });
+
+    const result = await sender(payload, { requestMeta });
+
+    assertUnsuccessful(result);
+    assertEquals(result.error, {
+      name: "proxy-io-error",
+      message: "disk full",
+    });
+  });
+});
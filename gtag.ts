@@ -0,0 +1,114 @@
+import { readRequestText, RequestBodyLimits } from "./default.ts";
+import { CollectRequestMeta, RequestName } from "./meta.ts";
+import { decodeQueryProperties, PixelQueryParam } from "./pixel.ts";
+import { RequestReader, RequestReadError, UnknownPayload } from "./types.ts";
+
+/** Query parameters of the gtag.js GA4 web protocol that map to event params.
+ *
+ * Event params set explicitly with `ep.` or `epn.` take precedence.
+ */
+export const GTAG_EVENT_PARAMS: Readonly<
+  Record<string, { name: string; type: "string" | "number" }>
+> = {
+  dl: { name: "page_location", type: "string" },
+  dr: { name: "page_referrer", type: "string" },
+  dt: { name: "page_title", type: "string" },
+  sid: { name: "session_id", type: "string" },
+  _et: { name: "engagement_time_msec", type: "number" },
+};
+
+/** Decode a gtag.js GA4 web protocol request into a payload.
+ *
+ * `params` are the request's query parameters, which hold the event when
+ * there's one, and parameters shared by all events when there are several.
+ * Each of `eventLines` is the query-string encoded parameters of an event from
+ * the request body.
+ *
+ * Parameters that are not needed to forward events, like the `_p` page load ID
+ * or `v` protocol version, are ignored. The payload is not validated, so the
+ * result may not be a valid GA4 MP payload.
+ */
+export function decodeGtagRequest(
+  params: URLSearchParams,
+  eventLines: readonly string[] = [],
+): unknown {
+  const eventsParams = eventLines.length === 0
+    ? [params]
+    : eventLines.map((line) => mergeParams(params, new URLSearchParams(line)));
+
+  const userProperties: Record<string, { value: string | number }> = {};
+  const events = eventsParams.map((eventParams) => {
+    const decoded = decodeQueryProperties(eventParams);
+    Object.assign(userProperties, decoded.userProperties);
+
+    const params: Record<string, string | number> = {};
+    for (
+      const [name, { name: param, type }] of Object.entries(GTAG_EVENT_PARAMS)
+    ) {
+      const value = eventParams.get(name);
+      if (value === null) continue;
+      params[param] = type === "number" ? Number(value) : value;
+    }
+    Object.assign(params, decoded.eventParams);
+    return {
+      name: eventParams.get(PixelQueryParam.eventName) ?? undefined,
+      ...(Object.keys(params).length > 0 && { params }),
+    };
+  });
+
+  const userId = params.get(PixelQueryParam.userId);
+  return {
+    client_id: params.get(PixelQueryParam.clientId) ?? undefined,
+    ...(userId !== null && { user_id: userId }),
+    ...(Object.keys(userProperties).length > 0 &&
+      { user_properties: userProperties }),
+    events,
+  };
+}
+
+/** Merge event-specific parameters over shared parameters. */
+function mergeParams(
+  shared: URLSearchParams,
+  event: URLSearchParams,
+): URLSearchParams {
+  const merged = new URLSearchParams(shared);
+  for (const name of new Set(event.keys())) merged.delete(name);
+  for (const [name, value] of event) merged.append(name, value);
+  return merged;
+}
+
+/** Wrap a RequestReader to read payloads of gtag.js requests.
+ *
+ * gtag.js sends single events as GET or POST requests with the event in the
+ * query string, and multiple events as POST requests with a line per event in
+ * the body. Requests for other endpoints are read by `next`.
+ */
+export function createGtagRequestReader<
+  RawPayloadT extends UnknownPayload,
+  RequestMetaT extends CollectRequestMeta,
+>(
+  next: RequestReader<RawPayloadT, RequestReadError, RequestMetaT>,
+  limits: RequestBodyLimits = {},
+): RequestReader<RawPayloadT | UnknownPayload, RequestReadError, RequestMetaT> {
+  return async (request, options) => {
+    const { requestMeta } = options;
+    if (requestMeta.name !== RequestName.gtag) {
+      return await next(request, options);
+    }
+    if (request.method !== "GET" && request.method !== "POST") {
+      return { success: false, error: { name: "incorrect-request-method" } };
+    }
+    let eventLines: string[] = [];
+    if (request.method === "POST") {
+      const body = await readRequestText(request, limits);
+      if (!body.success) return body;
+      eventLines = body.data.split(/\r?\n/).filter((line) => line.trim());
+    }
+    return {
+      success: true,
+      data: {
+        payload: decodeGtagRequest(requestMeta.url.searchParams, eventLines),
+      },
+    };
+  };
+}
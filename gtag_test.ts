@@ -0,0 +1,145 @@
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { defaultRequestReader } from "./default.ts";
+import { assertEquals } from "./dev_deps.ts";
+import { CollectRequestMeta, RequestName } from "./meta.ts";
+import { createGtagRequestReader, decodeGtagRequest } from "./gtag.ts";
+
+const gtagUrl = "https://example.com/g/collect?v=2&tid=G-ABC&_p=123" +
+  "&cid=111.222&sid=1700000000&dl=https%3A%2F%2Fexample.com%2F&dt=Home" +
+  "&up.plan=pro";
+
+function createRequestMeta(url: string): CollectRequestMeta {
+  return {
+    url: new URL(url),
+    headers: new Headers(),
+    name: RequestName.gtag,
+    debug: false,
+    measurement_id: "G-ABC",
+    api_secret: null,
+  };
+}
+
+Deno.test("decodeGtagRequest()", async (t) => {
+  await t.step("decodes a single event from the query", () => {
+    const url = new URL(`${gtagUrl}&en=page_view&_et=12&epn.value=3`);
+    assertEquals(decodeGtagRequest(url.searchParams), {
+      client_id: "111.222",
+      user_properties: { plan: { value: "pro" } },
+      events: [{
+        name: "page_view",
+        params: {
+          page_location: "https://example.com/",
+          page_title: "Home",
+          session_id: "1700000000",
+          engagement_time_msec: 12,
+          value: 3,
+        },
+      }],
+    });
+  });
+
+  await t.step("decodes an event per body line", () => {
+    const url = new URL(`${gtagUrl}&ep.shared=yes`);
+    const payload = decodeGtagRequest(url.searchParams, [
+      "en=scroll&epn.percent_scrolled=90",
+      "en=click&ep.link_url=https%3A%2F%2Fother.example.com%2F&dt=Other",
+    ]);
+    assertEquals(payload, {
+      client_id: "111.222",
+      user_properties: { plan: { value: "pro" } },
+      events: [
+        {
+          name: "scroll",
+          params: {
+            page_location: "https://example.com/",
+            page_title: "Home",
+            session_id: "1700000000",
+            shared: "yes",
+            percent_scrolled: 90,
+          },
+        },
+        {
+          name: "click",
+          params: {
+            page_location: "https://example.com/",
+            page_title: "Other",
+            session_id: "1700000000",
+            shared: "yes",
+            link_url: "https://other.example.com/",
+          },
+        },
+      ],
+    });
+  });
+
+  await t.step("prefers explicit event params", () => {
+    const url = new URL(
+      "https://example.com/g/collect?en=x&dt=A&ep.page_title=B",
+    );
+    assertEquals(decodeGtagRequest(url.searchParams), {
+      client_id: undefined,
+      events: [{ name: "x", params: { page_title: "B" } }],
+    });
+  });
+});
+
+Deno.test("createGtagRequestReader()", async (t) => {
+  const requestReader = createGtagRequestReader(defaultRequestReader, {
+    maxBodyBytes: 100,
+  });
+
+  await t.step("reads GET requests", async () => {
+    const url = `${gtagUrl}&en=page_view`;
+    const result = await requestReader(new Request(url), {
+      requestMeta: createRequestMeta(url),
+    });
+    assertSuccessful(result);
+    assertEquals(
+      result.data.payload,
+      decodeGtagRequest(new URL(url).searchParams),
+    );
+  });
+
+  await t.step("reads POST requests with events in the body", async () => {
+    const body = "en=page_view\nen=scroll&epn.percent_scrolled=90\n";
+    const result = await requestReader(
+      new Request(gtagUrl, {
+        method: "POST",
+        headers: { "content-type": "text/plain;charset=UTF-8" },
+        body,
+      }),
+      { requestMeta: createRequestMeta(gtagUrl) },
+    );
+    assertSuccessful(result);
+    assertEquals(
+      result.data.payload,
+      decodeGtagRequest(new URL(gtagUrl).searchParams, [
+        "en=page_view",
+        "en=scroll&epn.percent_scrolled=90",
+      ]),
+    );
+  });
+
+  await t.step("rejects bodies over the size limit", async () => {
+    const result = await requestReader(
+      new Request(gtagUrl, { method: "POST", body: "en=x\n".repeat(50) }),
+      { requestMeta: createRequestMeta(gtagUrl) },
+    );
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "body-too-large");
+  });
+
+  await t.step("reads other requests with the wrapped reader", async () => {
+    const url = "https://example.com/mp/collect";
+    const request = new Request(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ client_id: "1", events: [] }),
+    });
+    const result = await requestReader(request, {
+      requestMeta: { ...createRequestMeta(url), name: RequestName.collect },
+    });
+    assertSuccessful(result);
+    assertEquals(result.data.payload, { client_id: "1", events: [] });
+  });
+});
@@ -7,6 +7,8 @@ import {
   simplifyConfig,
 } from "./config.ts";
 import { createRequestMatcherHandler } from "./requests.ts";
+import { listenForwardQueue } from "./queue.ts";
+import { getDefaultKv } from "./storage.ts";
 
 function onConfigLoaded(config: Config): void {
   if (EnvBool.parse(Deno.env.get(ConfigEnvars.show_config) ?? "")) {
@@ -36,6 +38,14 @@ export async function loadConfigAndServe(
   const matcher = await createCollectRequestMatcherFromConfig(config, { kv });
   const handler = createRequestMatcherHandler(matcher);
 
+  // Queued payloads are delivered by a background worker, which also delivers
+  // payloads queued before a restart.
+  if (config.forward.some((fw) => fw.queue)) {
+    listenForwardQueue(kv ?? await getDefaultKv()).catch((e) => {
+      console.error("Forward queue listener failed:", e);
+    });
+  }
+
   return Deno.serve(
     { port: config.listen.port, hostname: config.listen.hostname, signal },
     handler,
@@ -1,6 +1,14 @@
 export enum RequestName {
   collect = "collect",
   debugCollect = "debugCollect",
+  /** GET requests with an event encoded in the query string, which respond
+   * with an image. */
+  pixel = "pixel",
+  /** Requests from gtag.js, in its GA4 web protocol. They don't have an
+   * api_secret. */
+  gtag = "gtag",
+  /** POST requests with a newline-delimited JSON payload per line. */
+  batch = "batch",
 }
 
 /** Metadata on how an incoming Request matched a handling rule. */
@@ -30,6 +38,9 @@ export type MaybeCollectRequestMeta = CollectRequestMeta | UnknownRequestMeta;
 export interface ApprovedCollectRequestMeta extends CollectRequestMeta {
   measurement_id: string;
   api_secret: string;
+  /** The measurement_id of the incoming request (the `tid` of gtag requests),
+   * as `measurement_id` is that of the Data Stream it's forwarded to. */
+  in_measurement_id: string | null;
   /** The GA4 MP API URL to send the payload to. */
   endpoint: string;
 }
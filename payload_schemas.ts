@@ -18,16 +18,6 @@ import { z } from "./deps.ts";
 
 const GrantOrDeny = z.enum(["GRANTED", "DENIED"]);
 
-export const UserPropertyName = z.string().regex(/^[a-z][a-z0-9_]{0,23}$/i);
-export const UserPropertyValue = z.union([z.string().max(36), z.number()]);
-export const UserProperties = z.record(
-  UserPropertyName,
-  z.object({ value: UserPropertyValue }),
-).refine(
-  (val) => Object.keys(val).length <= 25,
-  { message: "At most 25 user_properties can be set" },
-);
-
 const Consent = z.object({
   ad_user_data: GrantOrDeny,
   ad_personalization: GrantOrDeny,
@@ -85,43 +75,253 @@ export const ReservedEventName = z.enum([
   "user_engagement",
 ]);
 
-export const ParameterName = z.string().regex(/^[a-z][a-z0-9_]{0,39}$/i);
-export const EventName = ParameterName.refine(
-  (arg) => !ReservedEventName.safeParse(arg).success,
-  (arg) => ({
-    message: `${arg} is a reserved name`,
-  }),
-);
+// https://developers.google.com/analytics/devguides/collection/protocol/ga4/reference?client_type=gtag#reserved_parameter_names
+export const RESERVED_NAME_PREFIXES: readonly string[] = [
+  "google_",
+  "ga_",
+  "firebase_",
+];
 
-export const ParameterValue = z.union([z.number(), z.string().max(100)]);
-export const AnyItem = z.record(ParameterName, ParameterValue);
-export const AnyParameters = z.record(ParameterName, z.any()).pipe(
-  // 10 items is from "parameters can have a maximum of 10 custom parameters"
-  // from: https://developers.google.com/analytics/devguides/collection/protocol/ga4/sending-events?client_type=gtag
-  z.object({ items: z.array(AnyItem).max(10).optional() }).catchall(
-    ParameterValue,
-  ),
+// https://developers.google.com/analytics/devguides/collection/protocol/ga4/reference?client_type=gtag#reserved_user_property_names
+export const ReservedUserPropertyName = z.enum([
+  "first_open_time",
+  "first_visit_time",
+  "last_deep_link_referrer",
+  "user_id",
+  "first_open_after_install",
+]);
+
+/** The maximum number of events a Measurement Protocol payload can have. */
+export const MAX_PAYLOAD_EVENTS = 25;
+
+/** Limits on the size of Measurement Protocol payloads. */
+export type PayloadLimits = {
+  /** Events in a payload. */
+  maxEvents: number;
+  /** Params of an event. */
+  maxEventParams: number;
+  /** Entries in the `items` param of an event. */
+  maxItems: number;
+  /** User properties of a payload. */
+  maxUserProperties: number;
+  maxEventNameLength: number;
+  maxParamNameLength: number;
+  maxParamValueLength: number;
+  maxUserPropertyNameLength: number;
+  maxUserPropertyValueLength: number;
+};
+
+// https://developers.google.com/analytics/devguides/collection/protocol/ga4/sending-events?client_type=gtag#limitations
+export const DEFAULT_PAYLOAD_LIMITS: Readonly<PayloadLimits> = {
+  maxEvents: MAX_PAYLOAD_EVENTS,
+  maxEventParams: 25,
+  maxItems: 200,
+  maxUserProperties: 25,
+  maxEventNameLength: 40,
+  maxParamNameLength: 40,
+  // GA4 360 properties allow 500
+  maxParamValueLength: 100,
+  maxUserPropertyNameLength: 24,
+  maxUserPropertyValueLength: 36,
+};
+
+function hasReservedPrefix(name: string): boolean {
+  return RESERVED_NAME_PREFIXES.some((prefix) => name.startsWith(prefix));
+}
+
+/** Create a schema for names that start with a letter and contain letters,
+ * digits and underscores, and don't start with a reserved prefix. */
+function createNameSchema(maxLength: number) {
+  return z.string()
+    .regex(new RegExp(`^[a-z][a-z0-9_]{0,${maxLength - 1}}$`, "i"))
+    .refine((arg) => !hasReservedPrefix(arg), (arg) => ({
+      message: `${arg} starts with a reserved prefix: ${
+        RESERVED_NAME_PREFIXES.join(", ")
+      }`,
+    }));
+}
+
+function createUserPropertyNameSchema(maxLength: number) {
+  return createNameSchema(maxLength).refine(
+    (arg) => !ReservedUserPropertyName.safeParse(arg).success,
+    (arg) => ({ message: `${arg} is a reserved name` }),
+  );
+}
+
+function createUserPropertyValueSchema(maxLength: number) {
+  return z.union([z.string().max(maxLength), z.number()]);
+}
+
+export const UserPropertyName = createUserPropertyNameSchema(
+  DEFAULT_PAYLOAD_LIMITS.maxUserPropertyNameLength,
+);
+export const UserPropertyValue = createUserPropertyValueSchema(
+  DEFAULT_PAYLOAD_LIMITS.maxUserPropertyValueLength,
 );
 
-export const AnyEvent = z.object({
-  name: EventName,
-  params: AnyParameters.optional(),
-}).refine(
-  (params) => Object.keys(params).length <= 25,
-  (params) => ({
-    message: `The "params" object can have at most 25 parameters, found: ${
-      Object.keys(params).length
-    }`,
-  }),
+export function createUserPropertiesSchema(
+  {
+    maxUserProperties = DEFAULT_PAYLOAD_LIMITS.maxUserProperties,
+    maxUserPropertyNameLength = DEFAULT_PAYLOAD_LIMITS
+      .maxUserPropertyNameLength,
+    maxUserPropertyValueLength = DEFAULT_PAYLOAD_LIMITS
+      .maxUserPropertyValueLength,
+  }: Partial<PayloadLimits> = {},
+) {
+  return z.record(
+    createUserPropertyNameSchema(maxUserPropertyNameLength),
+    z.object({
+      value: createUserPropertyValueSchema(maxUserPropertyValueLength),
+    }),
+  ).refine(
+    (val) => Object.keys(val).length <= maxUserProperties,
+    { message: `At most ${maxUserProperties} user_properties can be set` },
+  );
+}
+
+export const UserProperties = createUserPropertiesSchema();
+
+function createEventNameSchema(maxLength: number) {
+  return createNameSchema(maxLength).refine(
+    (arg) => !ReservedEventName.safeParse(arg).success,
+    (arg) => ({
+      message: `${arg} is a reserved name`,
+    }),
+  );
+}
+
+function createParameterValueSchema(maxLength: number) {
+  return z.union([z.number(), z.string().max(maxLength)]);
+}
+
+export const ParameterName = createNameSchema(
+  DEFAULT_PAYLOAD_LIMITS.maxParamNameLength,
+);
+export const EventName = createEventNameSchema(
+  DEFAULT_PAYLOAD_LIMITS.maxEventNameLength,
 );
+export const ParameterValue = createParameterValueSchema(
+  DEFAULT_PAYLOAD_LIMITS.maxParamValueLength,
+);
+export const AnyItem = z.record(ParameterName, ParameterValue);
+
+/** The params of an event. `items` is the only param that holds a list.
+ *
+ * This is declared rather than inferred, as the inferred type requires `items`
+ * to be a list and a single value at once.
+ */
+export type EventParameters = {
+  items?: z.infer<typeof AnyItem>[];
+  [name: string]:
+    | z.infer<typeof ParameterValue>
+    | z.infer<typeof AnyItem>[]
+    | undefined;
+};
+
+export function createParametersSchema(
+  {
+    maxEventParams = DEFAULT_PAYLOAD_LIMITS.maxEventParams,
+    maxItems = DEFAULT_PAYLOAD_LIMITS.maxItems,
+    maxParamNameLength = DEFAULT_PAYLOAD_LIMITS.maxParamNameLength,
+    maxParamValueLength = DEFAULT_PAYLOAD_LIMITS.maxParamValueLength,
+  }: Partial<PayloadLimits> = {},
+): z.ZodType<EventParameters, z.ZodTypeDef, Record<string, unknown>> {
+  const name = createNameSchema(maxParamNameLength);
+  const value = createParameterValueSchema(maxParamValueLength);
+  return z.record(name, z.any()).refine(
+    (params) => Object.keys(params).length <= maxEventParams,
+    (params) => ({
+      message:
+        `The "params" object can have at most ${maxEventParams} parameters, found: ${
+          Object.keys(params).length
+        }`,
+    }),
+  ).pipe(
+    z.object({
+      items: z.array(z.record(name, value)).max(maxItems).optional(),
+    }).catchall(value),
+  );
+}
+
+export const AnyParameters = createParametersSchema();
 
 const nonNegDecimalIntegerPattern = /^0|(?:[1-9][0-9]{0,15})$/; // 2**53 is 16 decimal digits
 const MicrosecondTimeStamp = z.string().regex(nonNegDecimalIntegerPattern)
   .pipe(z.coerce.number().nonnegative()).or(z.number().nonnegative());
 
+export function createEventSchema(limits: Partial<PayloadLimits> = {}) {
+  return z.object({
+    name: createEventNameSchema(
+      limits.maxEventNameLength ?? DEFAULT_PAYLOAD_LIMITS.maxEventNameLength,
+    ),
+    params: createParametersSchema(limits).optional(),
+    timestamp_micros: MicrosecondTimeStamp.optional(),
+  });
+}
+
+export const AnyEvent = createEventSchema();
+
+// https://developers.google.com/analytics/devguides/collection/protocol/ga4/user-location
+export const UserLocation = z.object({
+  city: z.string(),
+  /** ISO 3166-2, like `US-CA` */
+  region_id: z.string().regex(/^[A-Z]{2}-[A-Z0-9]{1,3}$/),
+  /** ISO 3166-1 alpha-2, like `US` */
+  country_id: z.string().regex(/^[A-Z]{2}$/),
+  /** UN M49, like `021` */
+  subcontinent_id: z.string().regex(/^\d{3}$/),
+  /** UN M49, like `019` */
+  continent_id: z.string().regex(/^\d{3}$/),
+}).partial();
+
+// https://developers.google.com/analytics/devguides/collection/protocol/ga4/device-and-user-attributes
+export const Device = z.object({
+  category: z.string(),
+  /** ISO 639-1, optionally with an ISO 3166-1 region, like `en-GB` */
+  language: z.string(),
+  /** Like `1280x2856` */
+  screen_resolution: z.string().regex(/^\d+x\d+$/),
+  operating_system: z.string(),
+  operating_system_version: z.string(),
+  model: z.string(),
+  brand: z.string(),
+  browser: z.string(),
+  browser_version: z.string(),
+}).partial();
+
+const Sha256Hex = z.string().regex(/^[0-9a-f]{64}$/);
+const OneOrMoreSha256Hex = z.union([Sha256Hex, Sha256Hex.array()]);
+
+// https://developers.google.com/analytics/devguides/collection/ga4/uid-data
+export const UserData = z.object({
+  sha256_email_address: OneOrMoreSha256Hex,
+  sha256_phone_number: OneOrMoreSha256Hex,
+  address: z.object({
+    sha256_first_name: Sha256Hex,
+    sha256_last_name: Sha256Hex,
+    sha256_street: Sha256Hex,
+    city: z.string(),
+    region: z.string(),
+    postal_code: z.string(),
+    country: z.string(),
+  }).partial().array(),
+}).partial();
+
+/** Create a schema for payloads with events matching `eventSchema`.
+ *
+ * `limits` apply to the payload's own properties. The limits of events are set
+ * by `eventSchema`, which can be created with the same limits by
+ * {@linkcode createEventSchema}.
+ */
 export function createPayloadSchema<EventSchema extends z.ZodTypeAny>(
-  { eventSchema, maxEvents = 25 }: {
+  {
+    eventSchema,
+    limits = {},
+    maxEvents = limits.maxEvents ?? MAX_PAYLOAD_EVENTS,
+  }: {
     eventSchema: EventSchema;
+    limits?: Partial<PayloadLimits>;
+    /** Default is `limits.maxEvents`, or {@linkcode MAX_PAYLOAD_EVENTS}. */
     maxEvents?: number;
   },
 ) {
@@ -129,8 +329,12 @@ export function createPayloadSchema<EventSchema extends z.ZodTypeAny>(
     client_id: z.string(),
     user_id: z.string().optional(),
     timestamp_micros: MicrosecondTimeStamp.optional(),
-    user_properties: UserProperties.optional(),
+    user_properties: createUserPropertiesSchema(limits).optional(),
     consent: Consent.optional(),
+    user_location: UserLocation.optional(),
+    device: Device.optional(),
+    ip_override: z.string().ip().optional(),
+    user_data: UserData.optional(),
     events: z.array(eventSchema).max(maxEvents),
   });
 }
@@ -1,4 +1,10 @@
-import { AnyEvent, ParameterValue, UserProperties } from "./payload_schemas.ts";
+import {
+  AnyEvent,
+  createEventSchema,
+  createPayloadSchema,
+  ParameterValue,
+  UserProperties,
+} from "./payload_schemas.ts";
 import { repeat, repeatString, SchemaAssertions } from "./_testing/schemas.ts";
 import { ParameterName } from "./payload_schemas.ts";
 import { EventName } from "./payload_schemas.ts";
@@ -89,6 +95,10 @@ Deno.test("UserProperties", () => {
       { [repeatString("a", 25)]: { value: 0 } },
       // value too long
       { a: { value: repeatString("a", 37) } },
+      // reserved names and prefixes
+      { first_open_time: { value: 0 } },
+      { user_id: { value: 0 } },
+      { google_foo: { value: 0 } },
     ],
   });
 
@@ -120,7 +130,7 @@ Deno.test("AnyEvent", () => {
       },
       {
         name: "foo",
-        params: { bar: 1, baz: "A", items: repeat({ boz: "x" }, 10) },
+        params: { bar: 1, baz: "A", items: repeat({ boz: "x" }, 200) },
       },
     ],
   });
@@ -134,13 +144,38 @@ Deno.test("AnyEvent", () => {
       },
       // reserved name
       { name: "ad_click", params: {} },
-      // 10 items max
+      // 200 items max
       {
         name: "too_many_items",
-        params: { bar: 1, baz: "A", items: repeat({ boz: "x" }, 11) },
+        params: { bar: 1, baz: "A", items: repeat({ boz: "x" }, 201) },
       },
+      // 25 params max
+      {
+        name: "too_many_params",
+        params: Object.fromEntries(
+          repeat(null, 26).map((_, i) => [`param${i}`, i]),
+        ),
+      },
+      // reserved param name prefixes
+      ...["google_foo", "ga_foo", "firebase_foo"].map((name) => ({
+        name: "foo",
+        params: { [name]: 1 },
+      })),
+      // reserved event name prefix
+      { name: "ga_foo" },
     ],
   });
+  sa.assertParses({ name: "foo", timestamp_micros: 1706745600000000 });
+});
+
+Deno.test("createEventSchema()", () => {
+  const sa = new SchemaAssertions(
+    createEventSchema({ maxItems: 2, maxParamValueLength: 500 }),
+  );
+
+  sa.assertParses({ name: "foo", params: { a: repeatString("a", 500) } });
+  sa.assertRejects({ name: "foo", params: { a: repeatString("a", 501) } });
+  sa.assertRejects({ name: "foo", params: { items: repeat({}, 3) } });
 });
 
 Deno.test("AnyPayload", () => {
@@ -151,6 +186,34 @@ Deno.test("AnyPayload", () => {
     events: [],
   };
 
+  sa.assertParses({
+    ...validPayload,
+    user_location: {
+      city: "Mountain View",
+      region_id: "US-CA",
+      country_id: "US",
+    },
+    device: {
+      category: "mobile",
+      language: "en-GB",
+      screen_resolution: "1280x2856",
+    },
+    ip_override: "203.0.113.1",
+    user_data: {
+      sha256_email_address: [repeatString("a", 64)],
+      address: [{ sha256_first_name: repeatString("b", 64), country: "US" }],
+    },
+  });
+  sa.assertRejectsAll({
+    inputs: [
+      { ...validPayload, user_location: { country_id: "USA" } },
+      { ...validPayload, device: { screen_resolution: "big" } },
+      { ...validPayload, ip_override: "not an ip" },
+      // user_data must be hashed
+      { ...validPayload, user_data: { sha256_email_address: "a@example.com" } },
+    ],
+  });
+
   // Docs say timestamp_micros is a number, but the Event Builder tool generates
   // decimal integer strings.
   sa.assertParses({
@@ -192,7 +255,7 @@ Deno.test("AnyPayload", () => {
           name: "example",
           params: {
             foo: "bar",
-            items: repeat({ baz: 42 }, 10),
+            items: repeat({ baz: 42 }, 200),
           },
         }, 25),
       },
@@ -208,7 +271,7 @@ Deno.test("AnyPayload", () => {
           name: "example",
           params: {
             foo: "bar",
-            items: repeat({ baz: 42 }, 11),
+            items: repeat({ baz: 42 }, 201),
           },
         }],
       },
@@ -223,3 +286,40 @@ Deno.test("AnyPayload", () => {
     ],
   });
 });
+
+Deno.test("createPayloadSchema()", () => {
+  const limits = { maxEvents: 2, maxUserProperties: 1 };
+  const sa = new SchemaAssertions(
+    createPayloadSchema({ eventSchema: createEventSchema(limits), limits }),
+  );
+
+  sa.assertParses({
+    client_id: "c1",
+    user_properties: { a: { value: 1 } },
+    events: repeat({ name: "foo" }, 2),
+  });
+  sa.assertRejectsAll({
+    inputs: [
+      { client_id: "c1", events: repeat({ name: "foo" }, 3) },
+      {
+        client_id: "c1",
+        user_properties: { a: { value: 1 }, b: { value: 2 } },
+        events: [],
+      },
+    ],
+  });
+
+  // maxEvents overrides the event limit, e.g. for payloads that are split
+  const splittable = new SchemaAssertions(
+    createPayloadSchema({ eventSchema: AnyEvent, maxEvents: Infinity }),
+  );
+  splittable.assertParses({
+    client_id: "c1",
+    events: repeat({ name: "example", params: { foo: "bar" } }, 100),
+  });
+  // Events are still validated
+  splittable.assertRejects({
+    client_id: "c1",
+    events: repeat({ name: "session_start" }, 30),
+  });
+});
@@ -0,0 +1,380 @@
+import { parseIpAddress } from "./_ip.ts";
+import { StatusCodes, z } from "./deps.ts";
+import { DebugRequestMeta, RequestMeta } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import {
+  GA4MPPayload,
+  PayloadDroppedError,
+  PayloadParser,
+  ResponseWriter,
+  UnknownPayload,
+} from "./types.ts";
+
+/** The kinds of personally-identifiable information (PII) that can be detected
+ * in parameter values.
+ *
+ * - `email`: Email addresses.
+ * - `phone`: Phone numbers written with a `+` country code or separators, like
+ *   `+44 20 7946 0958` or `(555) 123-4567`.
+ * - `ip`: IPv4 and IPv6 addresses.
+ * - `credit_card`: Card numbers of 13–19 digits that pass the Luhn check.
+ * - `jwt`: JSON Web Tokens, as used by auth tokens.
+ */
+export const PiiPattern = z.enum([
+  "email",
+  "phone",
+  "ip",
+  "credit_card",
+  "jwt",
+]);
+export type PiiPattern = z.infer<typeof PiiPattern>;
+
+/** What to do with values that contain PII.
+ *
+ * - `keep`: Leave the value unchanged.
+ * - `redact`: Replace the PII within the value with `[redacted]`.
+ * - `hash`: Replace the PII within the value with a keyed hash of it, so that
+ *   equal values can be counted without revealing them.
+ * - `drop_param`: Remove the parameter or user property holding the value.
+ * - `drop_event`: Remove the event holding the value. User properties are
+ *   removed as with `drop_param`, as they're not part of an event.
+ */
+export const PiiAction = z.enum([
+  "keep",
+  "redact",
+  "hash",
+  "drop_param",
+  "drop_event",
+]);
+export type PiiAction = z.infer<typeof PiiAction>;
+
+/** The action to take for each kind of PII. Kinds without an action are kept. */
+export type PiiActions = Partial<Record<PiiPattern, PiiAction>>;
+
+export const REDACTED_PII = "[redacted]";
+
+/** PII that was found in a payload, and what was done with it. */
+export type PiiFinding = {
+  /** The location of the value in the payload as it was received, like
+   * `events[0].params.page_location`. */
+  path: string;
+  pattern: PiiPattern;
+  action: Exclude<PiiAction, "keep">;
+};
+
+/** A payload that may have been scrubbed of PII. */
+export type PiiScrubbedPayload<T> = GA4MPPayload<T> & {
+  piiFindings?: PiiFinding[];
+};
+
+/** A span of a value that contains PII. */
+export type PiiMatch = {
+  pattern: PiiPattern;
+  action: Exclude<PiiAction, "keep">;
+  start: number;
+  end: number;
+};
+
+type PiiDetector = { regex: RegExp; isValid?: (match: string) => boolean };
+
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; ++i) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isIpAddress(match: string): boolean {
+  const address = parseIpAddress(match);
+  // Require a few hextets (or an embedded IPv4 address) of IPv6 addresses, so
+  // that text like "a::b" is not taken to be an address.
+  return address !== undefined &&
+    (!match.includes(":") || match.includes(".") ||
+      match.split(":").filter((h) => h).length >= 3);
+}
+
+const detectors: Record<PiiPattern, PiiDetector> = {
+  email: { regex: /[\w.%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi },
+  phone: {
+    regex:
+      /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)|\b\d{2,5})[\s.-]\d{3,4}[\s.-]?\d{3,4}\b|\+\d{9,15}\b/g,
+  },
+  ip: {
+    regex:
+      /(?<![\w.:])(?:\d{1,3}(?:\.\d{1,3}){3}|[0-9a-f]{0,4}(?::[0-9a-f]{0,4}){2,7}(?:\.\d{1,3}){0,3})(?![\w:]|\.\d)/gi,
+    isValid: isIpAddress,
+  },
+  credit_card: {
+    regex: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    isValid: isLuhnValid,
+  },
+  jwt: { regex: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g },
+};
+
+function isDropAction(
+  action: PiiAction,
+): action is "drop_param" | "drop_event" {
+  return action === PiiAction.Enum.drop_param ||
+    action === PiiAction.Enum.drop_event;
+}
+
+type ScrubbedValue<T> =
+  | { action: "keep" | "redact" | "hash"; value: T }
+  | { action: "drop_param" | "drop_event" };
+
+function hasValue<T>(
+  scrubbed: ScrubbedValue<T>,
+): scrubbed is Extract<ScrubbedValue<T>, { value: T }> {
+  return scrubbed.action === PiiAction.Enum.keep ||
+    scrubbed.action === PiiAction.Enum.redact ||
+    scrubbed.action === PiiAction.Enum.hash;
+}
+
+/** Detects and removes PII from the parameter values of payloads.
+ *
+ * String values of event params, item params and user properties are checked.
+ * Numbers are not, as they can't be told apart from legitimate numeric values.
+ */
+export class PiiScrubber {
+  private readonly actions: PiiActions;
+  private readonly hashKey: CryptoKey;
+
+  constructor(
+    { actions, hashKey }: { actions: PiiActions; hashKey: CryptoKey },
+  ) {
+    this.actions = { ...actions };
+    this.hashKey = hashKey;
+  }
+
+  /** Create a PiiScrubber.
+   *
+   * @param options.actions What to do with each kind of PII.
+   * @param options.secret The secret used to hash PII. By default a random
+   * secret is generated, so hashes change when the process restarts.
+   */
+  static async create(
+    { actions, secret }: { actions: PiiActions; secret?: string },
+  ): Promise<PiiScrubber> {
+    const algorithm: HmacKeyGenParams = { name: "HMAC", hash: "SHA-256" };
+    const hashKey = secret === undefined
+      ? await crypto.subtle.generateKey(algorithm, false, ["sign"])
+      : await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        algorithm,
+        false,
+        ["sign"],
+      );
+    return new PiiScrubber({ actions, hashKey });
+  }
+
+  /** Find the PII in a value that has an action other than keep.
+   *
+   * When matches overlap, the longest is used.
+   *
+   * @returns Non-overlapping matches, in the order they occur.
+   */
+  findPii(value: string): PiiMatch[] {
+    const candidates: PiiMatch[] = [];
+    for (const pattern of PiiPattern.options) {
+      const action = this.actions[pattern] ?? PiiAction.Enum.keep;
+      if (action === PiiAction.Enum.keep) continue;
+      const { regex, isValid } = detectors[pattern];
+      for (const match of value.matchAll(regex)) {
+        if (isValid && !isValid(match[0])) continue;
+        const start = match.index ?? 0;
+        candidates.push({
+          pattern,
+          action,
+          start,
+          end: start + match[0].length,
+        });
+      }
+    }
+    candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+
+    const matches: PiiMatch[] = [];
+    for (const candidate of candidates) {
+      const overlaps = matches.some((m) =>
+        candidate.start < m.end && m.start < candidate.end
+      );
+      if (!overlaps) matches.push(candidate);
+    }
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  /** Remove PII from a payload's event params and user properties.
+   *
+   * The payload is modified in place.
+   *
+   * @returns The PII that was found.
+   */
+  async scrub(payload: AnyPayload): Promise<PiiFinding[]> {
+    const findings: PiiFinding[] = [];
+    const droppedEvents = new Set<number>();
+
+    for (const [i, event] of payload.events.entries()) {
+      const params: Record<string, unknown> = event.params ?? {};
+      for (const [name, value] of Object.entries(params)) {
+        const path = `events[${i}].params.${name}`;
+        if (name === "items" && Array.isArray(value)) {
+          for (const [j, item] of value.entries()) {
+            for (const [itemName, itemValue] of Object.entries(item)) {
+              const scrubbed = await this.scrubValue(
+                itemValue,
+                `${path}[${j}].${itemName}`,
+                findings,
+              );
+              if (hasValue(scrubbed)) item[itemName] = scrubbed.value;
+              else if (scrubbed.action === PiiAction.Enum.drop_event) {
+                droppedEvents.add(i);
+              } else delete item[itemName];
+            }
+          }
+          continue;
+        }
+        const scrubbed = await this.scrubValue(value, path, findings);
+        if (hasValue(scrubbed)) params[name] = scrubbed.value;
+        else if (scrubbed.action === PiiAction.Enum.drop_event) {
+          droppedEvents.add(i);
+        } else delete params[name];
+      }
+    }
+    if (droppedEvents.size > 0) {
+      payload.events = payload.events.filter((_, i) => !droppedEvents.has(i));
+    }
+
+    const userProperties = payload.user_properties ?? {};
+    for (const [name, property] of Object.entries(userProperties)) {
+      const scrubbed = await this.scrubValue(
+        property.value,
+        `user_properties.${name}.value`,
+        findings,
+      );
+      if (hasValue(scrubbed)) property.value = scrubbed.value;
+      else delete userProperties[name];
+    }
+
+    return findings;
+  }
+
+  private async scrubValue<T>(
+    value: T,
+    path: string,
+    findings: PiiFinding[],
+  ): Promise<ScrubbedValue<T | string>> {
+    if (typeof value !== "string") return { action: "keep", value };
+    const matches = this.findPii(value);
+    if (matches.length === 0) return { action: "keep", value };
+
+    const patterns = new Set<PiiPattern>();
+    let action: Exclude<PiiAction, "keep"> = matches[0].action;
+    for (const match of matches) {
+      if (!patterns.has(match.pattern)) {
+        patterns.add(match.pattern);
+        findings.push({ path, pattern: match.pattern, action: match.action });
+      }
+      if (
+        PiiAction.options.indexOf(match.action) >
+          PiiAction.options.indexOf(action)
+      ) action = match.action;
+    }
+    if (isDropAction(action)) return { action };
+
+    // Replace from the end so that the positions of earlier matches are kept.
+    let scrubbed: string = value;
+    for (const match of [...matches].reverse()) {
+      const replacement = match.action === PiiAction.Enum.hash
+        ? await this.hash(value.substring(match.start, match.end))
+        : REDACTED_PII;
+      scrubbed = scrubbed.substring(0, match.start) + replacement +
+        scrubbed.substring(match.end);
+    }
+    return { action, value: scrubbed };
+  }
+
+  private async hash(value: string): Promise<string> {
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      this.hashKey,
+      new TextEncoder().encode(value),
+    );
+    return Array.from(new Uint8Array(signature).subarray(0, 8))
+      .map((b) => b.toString(16).padStart(2, "0")).join("");
+  }
+
+  /** Wrap a PayloadParser to scrub PII from the payloads it parses.
+   *
+   * The PII that was found is recorded in the payload's `piiFindings`.
+   * Payloads whose events are all dropped because of PII fail with a
+   * `payload-dropped` error.
+   */
+  createPayloadParser<
+    RawPayloadT extends UnknownPayload,
+    PayloadT extends GA4MPPayload<AnyPayload>,
+    PayloadParseErrorT,
+    RequestMetaT extends RequestMeta,
+  >(
+    next: PayloadParser<
+      RawPayloadT,
+      PayloadT,
+      PayloadParseErrorT,
+      RequestMetaT
+    >,
+  ): PayloadParser<
+    RawPayloadT,
+    PayloadT & PiiScrubbedPayload<AnyPayload>,
+    PayloadParseErrorT | PayloadDroppedError,
+    RequestMetaT
+  > {
+    return async (payload, options) => {
+      const result = await next(payload, options);
+      if (!result.success) return result;
+
+      const hadEvents = result.data.payload.events.length > 0;
+      const piiFindings = await this.scrub(result.data.payload);
+      if (hadEvents && result.data.payload.events.length === 0) {
+        return {
+          success: false,
+          error: { name: "payload-dropped", signal: "pii" },
+        };
+      }
+      return { success: true, data: { ...result.data, piiFindings } };
+    };
+  }
+}
+
+/** Wrap a ResponseWriter to report the PII found in debug requests.
+ *
+ * Successful debug requests whose payload contained PII are responded to with
+ * a JSON object listing what was found as `pii_findings`. Other responses are
+ * written by `next`.
+ */
+export function createPiiReportingResponseWriter<
+  PayloadT extends PiiScrubbedPayload<unknown>,
+  ProxyResultT,
+  ErrorT,
+  RequestMetaT extends RequestMeta & Partial<DebugRequestMeta>,
+>(
+  next: ResponseWriter<PayloadT, ProxyResultT, ErrorT, RequestMetaT>,
+): ResponseWriter<PayloadT, ProxyResultT, ErrorT, RequestMetaT> {
+  return (result, options) => {
+    const piiFindings = result.success
+      ? result.data.payload.piiFindings
+      : undefined;
+    if (!options.requestMeta.debug || !piiFindings?.length) {
+      return next(result, options);
+    }
+    return new Response(JSON.stringify({ pii_findings: piiFindings }), {
+      status: StatusCodes.OK,
+      headers: { "content-type": "application/json" },
+    });
+  };
+}
@@ -0,0 +1,145 @@
+import { StatusCodes } from "./deps.ts";
+import { CollectRequestMeta, RequestName } from "./meta.ts";
+import {
+  RequestReader,
+  RequestReadError,
+  ResponseWriter,
+  UnknownPayload,
+} from "./types.ts";
+
+/** A 1×1 transparent GIF image. */
+export const TRANSPARENT_GIF: Uint8Array = Uint8Array.from(
+  atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+  (c) => c.charCodeAt(0),
+);
+
+/** The query parameters of pixel requests that map to payload properties.
+ *
+ * Event params are encoded as `ep.<name>=<string>` or `epn.<name>=<number>`,
+ * and user properties as `up.<name>=<string>` or `upn.<name>=<number>`, like
+ * the GA4 gtag.js collect protocol.
+ */
+export const PixelQueryParam = {
+  clientId: "cid",
+  userId: "uid",
+  eventName: "en",
+  eventParam: "ep.",
+  numericEventParam: "epn.",
+  userProperty: "up.",
+  numericUserProperty: "upn.",
+} as const;
+
+/** Decode the query-string event encoding of a pixel request into a payload.
+ *
+ * The payload contains one event. It's not validated, so the result may not be
+ * a valid GA4 MP payload.
+ */
+export function decodePixelQuery(params: URLSearchParams): unknown {
+  const { eventParams, userProperties } = decodeQueryProperties(params);
+  const userId = params.get(PixelQueryParam.userId);
+  return {
+    client_id: params.get(PixelQueryParam.clientId) ?? undefined,
+    ...(userId !== null && { user_id: userId }),
+    ...(Object.keys(userProperties).length > 0 &&
+      { user_properties: userProperties }),
+    events: [{
+      name: params.get(PixelQueryParam.eventName) ?? undefined,
+      ...(Object.keys(eventParams).length > 0 && { params: eventParams }),
+    }],
+  };
+}
+
+/** Decode the `ep.`, `epn.`, `up.` and `upn.` prefixed query parameters. */
+export function decodeQueryProperties(params: URLSearchParams): {
+  eventParams: Record<string, string | number>;
+  userProperties: Record<string, { value: string | number }>;
+} {
+  const eventParams: Record<string, string | number> = {};
+  const userProperties: Record<string, { value: string | number }> = {};
+
+  for (const [name, value] of params) {
+    const [prefix, key] = splitPrefix(name);
+    if (!key) continue;
+    switch (prefix) {
+      case PixelQueryParam.eventParam:
+        eventParams[key] = value;
+        break;
+      case PixelQueryParam.numericEventParam:
+        eventParams[key] = Number(value);
+        break;
+      case PixelQueryParam.userProperty:
+        userProperties[key] = { value };
+        break;
+      case PixelQueryParam.numericUserProperty:
+        userProperties[key] = { value: Number(value) };
+        break;
+    }
+  }
+  return { eventParams, userProperties };
+}
+
+function splitPrefix(name: string): [prefix: string, key: string] {
+  const i = name.indexOf(".");
+  return i < 0 ? [name, ""] : [name.slice(0, i + 1), name.slice(i + 1)];
+}
+
+/** Wrap a RequestReader to read payloads of pixel requests from their URL.
+ *
+ * Pixel requests must use GET or HEAD. Requests for other endpoints are read by
+ * `next`.
+ */
+export function createPixelRequestReader<
+  RawPayloadT extends UnknownPayload,
+  RequestMetaT extends CollectRequestMeta,
+>(
+  next: RequestReader<RawPayloadT, RequestReadError, RequestMetaT>,
+): RequestReader<RawPayloadT | UnknownPayload, RequestReadError, RequestMetaT> {
+  return async (request, options) => {
+    const { requestMeta } = options;
+    if (requestMeta.name !== RequestName.pixel) {
+      return await next(request, options);
+    }
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return { success: false, error: { name: "incorrect-request-method" } };
+    }
+    return {
+      success: true,
+      data: { payload: decodePixelQuery(requestMeta.url.searchParams) },
+    };
+  };
+}
+
+/** Create the response to a pixel request. */
+export function createPixelResponse(): Response {
+  return new Response(TRANSPARENT_GIF, {
+    status: StatusCodes.OK,
+    headers: {
+      "content-type": "image/gif",
+      "cache-control": "no-cache, no-store, must-revalidate",
+      "pragma": "no-cache",
+      "expires": "0",
+    },
+  });
+}
+
+/** Wrap a ResponseWriter to respond to pixel requests with an image.
+ *
+ * Pixel requests are always responded to with a transparent GIF, whether or
+ * not their event was forwarded, because image elements can't do anything
+ * with error responses. Responses to other requests are written by `next`.
+ */
+export function createPixelResponseWriter<
+  PayloadT extends UnknownPayload,
+  ProxyResultT,
+  ErrorT,
+  RequestMetaT extends CollectRequestMeta,
+>(
+  next: ResponseWriter<PayloadT, ProxyResultT, ErrorT, RequestMetaT>,
+): ResponseWriter<PayloadT, ProxyResultT, ErrorT, RequestMetaT> {
+  return (result, options) => {
+    if (options.requestMeta.name !== RequestName.pixel) {
+      return next(result, options);
+    }
+    return createPixelResponse();
+  };
+}
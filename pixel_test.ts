@@ -0,0 +1,132 @@
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { defaultRequestReader, defaultResponseWriter } from "./default.ts";
+import { StatusCodes } from "./deps.ts";
+import { assertEquals } from "./dev_deps.ts";
+import { CollectRequestMeta, RequestName } from "./meta.ts";
+import {
+  createPixelRequestReader,
+  createPixelResponseWriter,
+  decodePixelQuery,
+  TRANSPARENT_GIF,
+} from "./pixel.ts";
+
+function createRequestMeta(
+  url: string,
+  name: RequestName = RequestName.pixel,
+): CollectRequestMeta {
+  return {
+    url: new URL(url),
+    headers: new Headers(),
+    name,
+    debug: false,
+    measurement_id: "foo",
+    api_secret: "bar",
+  };
+}
+
+const pixelUrl = "https://example.com/mp/pixel.gif?measurement_id=foo" +
+  "&api_secret=bar&cid=123.456&uid=u1&en=page_view" +
+  "&ep.page_title=Welcome&epn.engagement_time_msec=100" +
+  "&up.plan=pro&upn.visits=3";
+
+Deno.test("decodePixelQuery()", async (t) => {
+  await t.step("decodes events, params and user properties", () => {
+    assertEquals(decodePixelQuery(new URL(pixelUrl).searchParams), {
+      client_id: "123.456",
+      user_id: "u1",
+      user_properties: { plan: { value: "pro" }, visits: { value: 3 } },
+      events: [{
+        name: "page_view",
+        params: { page_title: "Welcome", engagement_time_msec: 100 },
+      }],
+    });
+  });
+
+  await t.step("omits properties that are not set", () => {
+    assertEquals(
+      decodePixelQuery(new URLSearchParams("cid=1&en=open&foo=bar")),
+      { client_id: "1", events: [{ name: "open" }] },
+    );
+  });
+});
+
+Deno.test("createPixelRequestReader()", async (t) => {
+  const requestReader = createPixelRequestReader(defaultRequestReader);
+
+  await t.step("reads payloads from pixel request URLs", async () => {
+    const result = await requestReader(new Request(pixelUrl), {
+      requestMeta: createRequestMeta(pixelUrl),
+    });
+    assertSuccessful(result);
+    assertEquals(
+      result.data.payload,
+      decodePixelQuery(new URL(pixelUrl).searchParams),
+    );
+  });
+
+  await t.step(
+    "rejects pixel requests with methods other than GET",
+    async () => {
+      const result = await requestReader(
+        new Request(pixelUrl, { method: "POST", body: "{}" }),
+        { requestMeta: createRequestMeta(pixelUrl) },
+      );
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "incorrect-request-method");
+    },
+  );
+
+  await t.step("reads other requests with the wrapped reader", async () => {
+    const url = "https://example.com/mp/collect";
+    const request = new Request(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ client_id: "1", events: [] }),
+    });
+    const result = await requestReader(request, {
+      requestMeta: createRequestMeta(url, RequestName.collect),
+    });
+    assertSuccessful(result);
+    assertEquals(result.data.payload, { client_id: "1", events: [] });
+  });
+});
+
+Deno.test("createPixelResponseWriter()", async (t) => {
+  const responseWriter = createPixelResponseWriter(defaultResponseWriter);
+
+  await t.step("responds to pixel requests with a GIF", async () => {
+    const results = [
+      { success: true, data: { payload: { payload: {} }, proxyResult: null } },
+      { success: false, error: { name: "proxy-io-error" } },
+    ] as const;
+    for (const result of results) {
+      const response = await responseWriter(result, {
+        requestMeta: createRequestMeta(pixelUrl),
+      });
+
+      assertEquals(response.status, StatusCodes.OK);
+      assertEquals(response.headers.get("content-type"), "image/gif");
+      assertEquals(
+        response.headers.get("cache-control"),
+        "no-cache, no-store, must-revalidate",
+      );
+      assertEquals(
+        new Uint8Array(await response.arrayBuffer()),
+        TRANSPARENT_GIF,
+      );
+    }
+  });
+
+  await t.step("writes other responses with the wrapped writer", async () => {
+    const response = await responseWriter(
+      { success: false, error: { name: "proxy-io-error" } },
+      {
+        requestMeta: createRequestMeta(
+          "https://example.com/mp/collect",
+          RequestName.collect,
+        ),
+      },
+    );
+    assertEquals(response.status, StatusCodes.BAD_GATEWAY);
+  });
+});
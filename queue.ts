@@ -0,0 +1,225 @@
+import { hasMessage, Result } from "./_misc.ts";
+import { sendRequest } from "./backends.ts";
+import { z } from "./deps.ts";
+import { DestinationSelector, formatDestinationURL } from "./default.ts";
+import { RequestMeta } from "./meta.ts";
+import {
+  createRetryingProxySender,
+  isRetryableError,
+  RetryableErrorName,
+  RetryPolicy,
+} from "./retry.ts";
+import {
+  ProxySender,
+  ProxySendError,
+  ProxySendErrorIO,
+  UnknownPayload,
+} from "./types.ts";
+
+/** The delays (ms) between redelivery attempts of queued payloads.
+ *
+ * Deno KV allows at most 5 redelivery attempts per message.
+ */
+export const FORWARD_QUEUE_BACKOFF_SCHEDULE = [
+  1000,
+  10 * 1000,
+  60 * 1000,
+  10 * 60 * 1000,
+  60 * 60 * 1000,
+] as const;
+export const MAX_FORWARD_QUEUE_RETRIES = FORWARD_QUEUE_BACKOFF_SCHEDULE.length;
+export const DEFAULT_FORWARD_QUEUE_RETRIES = MAX_FORWARD_QUEUE_RETRIES;
+
+/** The time (ms) to wait for upstream to respond to a delivery, if messages
+ * don't set their own timeout.
+ *
+ * Messages are delivered one at a time, so an upstream that never responds
+ * would otherwise stop all deliveries.
+ */
+export const DEFAULT_FORWARD_QUEUE_TIMEOUT = 30 * 1000;
+
+/** A payload waiting to be forwarded upstream.
+ *
+ * Messages are self-contained — they hold the full upstream URL and body, and
+ * how to deliver it — so that they can be delivered after a restart,
+ * regardless of config changes.
+ */
+export const ForwardQueueMessage = z.object({
+  kind: z.literal("anonystat-forward"),
+  url: z.string().url(),
+  body: z.string(),
+  headers: z.record(z.string()).optional(),
+  /** The time (ms) to wait for upstream to respond to each attempt. Default is
+   * {@linkcode DEFAULT_FORWARD_QUEUE_TIMEOUT}. */
+  timeout: z.number().positive().optional(),
+  /** How each delivery is retried before it fails and is redelivered later. */
+  retry: z.object({
+    maxAttempts: z.number().int().min(1),
+    initialDelay: z.number().min(0),
+    maxDelay: z.number().min(0),
+    retryOn: z.array(RetryableErrorName),
+  }).optional(),
+});
+export type ForwardQueueMessage = z.infer<typeof ForwardQueueMessage>;
+
+export type CreateQueuedProxySenderOptions<
+  PayloadT extends UnknownPayload,
+  RequestMetaT extends RequestMeta,
+> = {
+  kv: Deno.Kv;
+  destinationSelector: DestinationSelector<PayloadT, RequestMetaT>;
+  /** The number of times to re-attempt failed deliveries. */
+  retries?: number;
+  /** The time (ms) to wait for upstream to respond when delivering. Default is
+   * {@linkcode DEFAULT_FORWARD_QUEUE_TIMEOUT}. */
+  timeout?: number;
+  /** Retry each delivery immediately, before it's redelivered by the queue. */
+  retry?: RetryPolicy;
+  /** Create the requests that forward a payload.
+   *
+   * By default payloads are forwarded in a single GA4 MP request to the
+   * selected destination.
+   */
+  requestsBuilder?: (
+    options: { payload: PayloadT; requestMeta: RequestMetaT },
+  ) => Promise<Request[]>;
+};
+
+/** Create a ProxySender that forwards payloads asynchronously via a queue.
+ *
+ * Payloads are written to the Deno KV queue and the sender succeeds as soon as
+ * they're enqueued. The payloads are delivered by
+ * {@linkcode listenForwardQueue}, which must be running for payloads to be
+ * forwarded.
+ */
+export function createQueuedProxySender<
+  PayloadT extends UnknownPayload,
+  RequestMetaT extends RequestMeta,
+>(
+  {
+    kv,
+    destinationSelector,
+    retries = DEFAULT_FORWARD_QUEUE_RETRIES,
+    timeout,
+    retry,
+    requestsBuilder,
+  }: CreateQueuedProxySenderOptions<PayloadT, RequestMetaT>,
+): ProxySender<PayloadT, null, ProxySendErrorIO, RequestMetaT> {
+  if (retries < 0 || retries > MAX_FORWARD_QUEUE_RETRIES) {
+    throw new RangeError(
+      `retries must be between 0 and ${MAX_FORWARD_QUEUE_RETRIES}`,
+    );
+  }
+  const backoffSchedule = FORWARD_QUEUE_BACKOFF_SCHEDULE.slice(0, retries);
+  const delivery: Pick<ForwardQueueMessage, "timeout" | "retry"> = {
+    ...(timeout !== undefined && { timeout }),
+    ...(retry && { retry: { ...retry, retryOn: [...retry.retryOn] } }),
+  };
+
+  return async (
+    payload,
+    { requestMeta },
+  ): Promise<Result<null, ProxySendErrorIO>> => {
+    let messages: ForwardQueueMessage[];
+    if (requestsBuilder) {
+      const requests = await requestsBuilder({ payload, requestMeta });
+      messages = await Promise.all(requests.map(async (request) => ({
+        kind: "anonystat-forward",
+        url: request.url,
+        body: await request.text(),
+        headers: Object.fromEntries(request.headers),
+        ...delivery,
+      })));
+    } else {
+      const destination = destinationSelector({ payload, requestMeta });
+      messages = [{
+        kind: "anonystat-forward",
+        url: formatDestinationURL(destination).toString(),
+        body: JSON.stringify(payload.payload),
+        ...delivery,
+      }];
+    }
+    try {
+      await Promise.all(
+        messages.map((message) => kv.enqueue(message, { backoffSchedule })),
+      );
+    } catch (e) {
+      const message = hasMessage(e) ? e.message : undefined;
+      return { success: false, error: { name: "proxy-io-error", message } };
+    }
+    return { success: true, data: null };
+  };
+}
+
+/** Thrown when a queued payload could not be delivered, to trigger a retry. */
+export class ForwardQueueDeliveryFailed extends Error {
+  readonly name = "ForwardQueueDeliveryFailed";
+}
+
+/** The errors that deliveries are redelivered by the queue for. */
+const REDELIVERED_ERRORS: ReadonlySet<RetryableErrorName> = new Set(
+  RetryableErrorName.options,
+);
+
+/** Send a queued payload upstream.
+ *
+ * Network errors, timeouts and 5xx/429 responses are retried as set by the
+ * message's `retry`, and then thrown as {@linkcode ForwardQueueDeliveryFailed}
+ * so that the queue retries delivery. Other non-ok responses are not retried,
+ * as the payload would be rejected again.
+ */
+export async function deliverForwardQueueMessage(
+  message: ForwardQueueMessage,
+): Promise<void> {
+  const timeout = message.timeout ?? DEFAULT_FORWARD_QUEUE_TIMEOUT;
+  const send: ProxySender<UnknownPayload, null, ProxySendError, RequestMeta> =
+    () =>
+      sendRequest(
+        new Request(message.url, {
+          method: "POST",
+          body: message.body,
+          headers: message.headers,
+        }),
+        { timeout },
+      );
+  const sender = message.retry
+    ? createRetryingProxySender({
+      proxySender: send,
+      policy: { ...message.retry, retryOn: new Set(message.retry.retryOn) },
+    })
+    : send;
+
+  const result = await sender({ payload: message.body }, {
+    requestMeta: {
+      url: new URL(message.url),
+      headers: new Headers(message.headers),
+    },
+  });
+  if (result.success) return;
+
+  const { error } = result;
+  const reason = error.name === "proxy-response-status"
+    ? `upstream responded with status ${error.status}`
+    : `${error.name}${error.message ? `: ${error.message}` : ""}`;
+  if (isRetryableError(error, REDELIVERED_ERRORS)) {
+    throw new ForwardQueueDeliveryFailed(
+      `Failed to forward queued payload: ${reason}`,
+    );
+  }
+  console.error(`Dropped queued payload: ${reason}`);
+}
+
+/** Deliver payloads enqueued by {@linkcode createQueuedProxySender}.
+ *
+ * Messages that are not forward queue messages are ignored, so that the queue
+ * can be shared with other uses.
+ *
+ * @returns A promise that resolves when the KV store is closed.
+ */
+export function listenForwardQueue(kv: Deno.Kv): Promise<void> {
+  return kv.listenQueue(async (value: unknown) => {
+    const message = ForwardQueueMessage.safeParse(value);
+    if (!message.success) return;
+    await deliverForwardQueueMessage(message.data);
+  });
+}
@@ -0,0 +1,273 @@
+import { assertSuccessful } from "./_testing.ts";
+import { approvedRequestDestinationSelector } from "./default.ts";
+import { StatusCodes } from "./deps.ts";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  stub,
+} from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import {
+  createQueuedProxySender,
+  deliverForwardQueueMessage,
+  ForwardQueueDeliveryFailed,
+  ForwardQueueMessage,
+  listenForwardQueue,
+} from "./queue.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "exampleId",
+  api_secret: "exampleSec",
+  endpoint: "https://dest.example.com/mp/collect",
+  in_measurement_id: "exampleId",
+};
+
+const message: ForwardQueueMessage = {
+  kind: "anonystat-forward",
+  url:
+    "https://dest.example.com/mp/collect?api_secret=exampleSec&measurement_id=exampleId",
+  body: '{"client_id":"foo","events":[]}',
+};
+
+function stubFetchStatus(status: number) {
+  return stub(globalThis, "fetch", () => {
+    return Promise.resolve(new Response(null, { status }));
+  });
+}
+
+Deno.test("createQueuedProxySender()", async (t) => {
+  await t.step("enqueues a message to forward the payload", async () => {
+    const kv = await Deno.openKv(":memory:");
+    const { promise: received, resolve } = Promise.withResolvers<unknown>();
+    const listener = kv.listenQueue(resolve);
+
+    const proxySender = createQueuedProxySender({
+      kv,
+      destinationSelector: approvedRequestDestinationSelector,
+    });
+    const result = await proxySender({
+      payload: { client_id: "foo", events: [] },
+    }, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(await received, message);
+    kv.close();
+    await listener;
+  });
+
+  await t.step("enqueues a message for each built request", async () => {
+    const kv = await Deno.openKv(":memory:");
+    const received: unknown[] = [];
+    const { promise: done, resolve } = Promise.withResolvers<void>();
+    const listener = kv.listenQueue((value) => {
+      if (received.push(value) === 2) resolve();
+    });
+
+    const proxySender = createQueuedProxySender({
+      kv,
+      destinationSelector: approvedRequestDestinationSelector,
+      requestsBuilder: () =>
+        Promise.resolve(
+          ["a", "b"].map((name) =>
+            new Request(`https://${name}.example.com/`, {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: `"${name}"`,
+            })
+          ),
+        ),
+    });
+    const result = await proxySender({
+      payload: { client_id: "foo", events: [] },
+    }, { requestMeta });
+
+    assertSuccessful(result);
+    await done;
+    assertEquals(
+      received.sort((a, b) =>
+        (a as ForwardQueueMessage).body.localeCompare(
+          (b as ForwardQueueMessage).body,
+        )
+      ),
+      ["a", "b"].map((name) => ({
+        kind: "anonystat-forward",
+        url: `https://${name}.example.com/`,
+        body: `"${name}"`,
+        headers: { "content-type": "application/json" },
+      })),
+    );
+    kv.close();
+    await listener;
+  });
+
+  await t.step("enqueues the delivery timeout and retry policy", async () => {
+    const kv = await Deno.openKv(":memory:");
+    const { promise: received, resolve } = Promise.withResolvers<unknown>();
+    const listener = kv.listenQueue(resolve);
+
+    const proxySender = createQueuedProxySender({
+      kv,
+      destinationSelector: approvedRequestDestinationSelector,
+      timeout: 5000,
+      retry: {
+        maxAttempts: 3,
+        initialDelay: 200,
+        maxDelay: 2000,
+        retryOn: new Set(["proxy-io-error", "timeout"]),
+      },
+    });
+    const result = await proxySender({
+      payload: { client_id: "foo", events: [] },
+    }, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(await received, {
+      ...message,
+      timeout: 5000,
+      retry: {
+        maxAttempts: 3,
+        initialDelay: 200,
+        maxDelay: 2000,
+        retryOn: ["proxy-io-error", "timeout"],
+      },
+    });
+    kv.close();
+    await listener;
+  });
+
+  await t.step("rejects unsupported retries", async () => {
+    const kv = await Deno.openKv(":memory:");
+    for (const retries of [-1, 6]) {
+      let error: unknown;
+      try {
+        createQueuedProxySender({
+          kv,
+          destinationSelector: approvedRequestDestinationSelector,
+          retries,
+        });
+      } catch (e) {
+        error = e;
+      }
+      assertInstanceOf(error, RangeError);
+    }
+    kv.close();
+  });
+});
+
+Deno.test("deliverForwardQueueMessage()", async (t) => {
+  await t.step("sends payload upstream", async () => {
+    using fetchStub = stubFetchStatus(StatusCodes.NO_CONTENT);
+    await deliverForwardQueueMessage(message);
+
+    assertEquals(fetchStub.calls.length, 1);
+    const request = fetchStub.calls[0].args[0];
+    assertInstanceOf(request, Request);
+    assertEquals(request.method, "POST");
+    assertEquals(request.url, message.url);
+    assertEquals(await request.text(), message.body);
+  });
+
+  await t.step("sends message headers", async () => {
+    using fetchStub = stubFetchStatus(StatusCodes.NO_CONTENT);
+    await deliverForwardQueueMessage({
+      ...message,
+      headers: { "user-agent": "Example/1.0" },
+    });
+
+    const request = fetchStub.calls[0].args[0];
+    assertInstanceOf(request, Request);
+    assertEquals(request.headers.get("user-agent"), "Example/1.0");
+  });
+
+  await t.step("throws to retry when upstream fails", async (t) => {
+    const statuses = [
+      StatusCodes.INTERNAL_SERVER_ERROR,
+      StatusCodes.SERVICE_UNAVAILABLE,
+      StatusCodes.TOO_MANY_REQUESTS,
+    ];
+    for (const status of statuses) {
+      await t.step(`status ${status}`, async () => {
+        using _fetchStub = stubFetchStatus(status);
+        await assertRejects(
+          () => deliverForwardQueueMessage(message),
+          ForwardQueueDeliveryFailed,
+        );
+      });
+    }
+
+    await t.step("network error", async () => {
+      using _fetchStub = stub(globalThis, "fetch", () => {
+        return Promise.reject(new TypeError("connection refused"));
+      });
+      await assertRejects(
+        () => deliverForwardQueueMessage(message),
+        ForwardQueueDeliveryFailed,
+      );
+    });
+
+    await t.step("timeout", async () => {
+      using fetchStub = stub(globalThis, "fetch", (input) => {
+        const { signal } = input as Request;
+        return new Promise((_, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        });
+      });
+      await assertRejects(
+        () => deliverForwardQueueMessage({ ...message, timeout: 10 }),
+        ForwardQueueDeliveryFailed,
+        "timeout",
+      );
+      assertEquals(fetchStub.calls.length, 1);
+    });
+  });
+
+  await t.step("retries failed sends using the message's policy", async () => {
+    const statuses = [StatusCodes.SERVICE_UNAVAILABLE, StatusCodes.NO_CONTENT];
+    using fetchStub = stub(globalThis, "fetch", () => {
+      return Promise.resolve(new Response(null, { status: statuses.shift() }));
+    });
+    await deliverForwardQueueMessage({
+      ...message,
+      retry: {
+        maxAttempts: 2,
+        initialDelay: 0,
+        maxDelay: 0,
+        retryOn: ["proxy-response-status"],
+      },
+    });
+    assertEquals(fetchStub.calls.length, 2);
+  });
+
+  await t.step("does not retry rejected payloads", async () => {
+    using _fetchStub = stubFetchStatus(StatusCodes.BAD_REQUEST);
+    using _consoleStub = stub(console, "error");
+    await deliverForwardQueueMessage(message);
+  });
+});
+
+Deno.test("listenForwardQueue()", async (t) => {
+  await t.step("delivers forward messages and ignores others", async () => {
+    const kv = await Deno.openKv(":memory:");
+    const { promise: delivered, resolve } = Promise.withResolvers<void>();
+    using fetchStub = stub(globalThis, "fetch", () => {
+      resolve();
+      return Promise.resolve(
+        new Response(null, { status: StatusCodes.NO_CONTENT }),
+      );
+    });
+
+    const listener = listenForwardQueue(kv);
+    await kv.enqueue({ kind: "something-else" });
+    await kv.enqueue(message);
+    await delivered;
+
+    assertEquals(fetchStub.calls.length, 1);
+    kv.close();
+    await listener;
+  });
+});
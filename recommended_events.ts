@@ -0,0 +1,176 @@
+/**
+ * Zod schemas for the params of GA4 recommended events.
+ *
+ * See: https://developers.google.com/analytics/devguides/collection/ga4/reference/events
+ */
+
+import { z } from "./deps.ts";
+import { createEventSchema, PayloadLimits } from "./payload_schemas.ts";
+
+/** An ISO 4217 currency code, like `USD`. */
+export const Currency = z.string().regex(/^[A-Z]{3}$/, {
+  message: "Must be a 3-letter ISO 4217 currency code, like USD",
+});
+
+export const RecommendedItem = z.object({
+  item_id: z.string().optional(),
+  item_name: z.string().optional(),
+  affiliation: z.string().optional(),
+  coupon: z.string().optional(),
+  discount: z.number().optional(),
+  index: z.number().int().nonnegative().optional(),
+  item_brand: z.string().optional(),
+  item_category: z.string().optional(),
+  item_category2: z.string().optional(),
+  item_category3: z.string().optional(),
+  item_category4: z.string().optional(),
+  item_category5: z.string().optional(),
+  item_list_id: z.string().optional(),
+  item_list_name: z.string().optional(),
+  item_variant: z.string().optional(),
+  location_id: z.string().optional(),
+  price: z.number().optional(),
+  quantity: z.number().int().positive().optional(),
+}).passthrough().refine(
+  (item) => item.item_id !== undefined || item.item_name !== undefined,
+  { message: "Items must have an item_id or an item_name" },
+);
+
+const Items = z.array(RecommendedItem);
+
+/** Params of events with a monetary value, which must have a currency if they
+ * have a value. */
+function valueParams<Shape extends z.ZodRawShape>(shape: Shape) {
+  return z.object({
+    currency: Currency.optional(),
+    value: z.number().optional(),
+    ...shape,
+  }).passthrough().refine(
+    (params) => params.value === undefined || params.currency !== undefined,
+    { message: "currency is required when value is set", path: ["currency"] },
+  );
+}
+
+const ItemListParams = z.object({
+  item_list_id: z.string().optional(),
+  item_list_name: z.string().optional(),
+  items: Items,
+}).passthrough();
+
+const PromotionShape = {
+  creative_name: z.string().optional(),
+  creative_slot: z.string().optional(),
+  promotion_id: z.string().optional(),
+  promotion_name: z.string().optional(),
+};
+
+const MethodParams = z.object({ method: z.string().optional() }).passthrough();
+
+export const RecommendedEventName = z.enum([
+  "add_payment_info",
+  "add_shipping_info",
+  "add_to_cart",
+  "add_to_wishlist",
+  "begin_checkout",
+  "generate_lead",
+  "join_group",
+  "login",
+  "purchase",
+  "refund",
+  "remove_from_cart",
+  "search",
+  "select_content",
+  "select_item",
+  "select_promotion",
+  "share",
+  "sign_up",
+  "view_cart",
+  "view_item",
+  "view_item_list",
+  "view_promotion",
+]);
+export type RecommendedEventName = z.infer<typeof RecommendedEventName>;
+
+/** The schemas of the params of each recommended event. */
+export const RecommendedEventParams: Record<
+  RecommendedEventName,
+  z.ZodTypeAny
+> = {
+  add_payment_info: valueParams({
+    coupon: z.string().optional(),
+    payment_type: z.string().optional(),
+    items: Items,
+  }),
+  add_shipping_info: valueParams({
+    coupon: z.string().optional(),
+    shipping_tier: z.string().optional(),
+    items: Items,
+  }),
+  add_to_cart: valueParams({ items: Items }),
+  add_to_wishlist: valueParams({ items: Items }),
+  begin_checkout: valueParams({ coupon: z.string().optional(), items: Items }),
+  generate_lead: valueParams({}),
+  join_group: z.object({ group_id: z.string().optional() }).passthrough(),
+  login: MethodParams,
+  purchase: z.object({
+    currency: Currency,
+    value: z.number(),
+    transaction_id: z.string(),
+    coupon: z.string().optional(),
+    shipping: z.number().optional(),
+    tax: z.number().optional(),
+    items: Items,
+  }).passthrough(),
+  refund: valueParams({
+    transaction_id: z.string(),
+    coupon: z.string().optional(),
+    shipping: z.number().optional(),
+    tax: z.number().optional(),
+    items: Items.optional(),
+  }),
+  remove_from_cart: valueParams({ items: Items }),
+  search: z.object({ search_term: z.string() }).passthrough(),
+  select_content: z.object({
+    content_type: z.string().optional(),
+    content_id: z.string().optional(),
+  }).passthrough(),
+  select_item: ItemListParams,
+  select_promotion: z.object({ ...PromotionShape, items: Items.optional() })
+    .passthrough(),
+  share: z.object({
+    method: z.string().optional(),
+    content_type: z.string().optional(),
+    item_id: z.string().optional(),
+  }).passthrough(),
+  sign_up: MethodParams,
+  view_cart: valueParams({ items: Items }),
+  view_item: valueParams({ items: Items }),
+  view_item_list: ItemListParams,
+  view_promotion: z.object({ ...PromotionShape, items: Items }).passthrough(),
+};
+
+/** Create a schema for events that validates the params of recommended events.
+ *
+ * Events are validated like {@linkcode createEventSchema} events, and events
+ * named like a recommended event must also have the params that it documents,
+ * with the documented types. Params that are not documented are allowed, as
+ * are events with other names.
+ */
+export function createRecommendedEventSchema(
+  limits: Partial<PayloadLimits> = {},
+) {
+  return createEventSchema(limits).superRefine((event, ctx) => {
+    const name = RecommendedEventName.safeParse(event.name);
+    if (!name.success) return;
+
+    const result = RecommendedEventParams[name.data].safeParse(
+      event.params ?? {},
+    );
+    if (result.success) return;
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
+    }
+  });
+}
+
+export const RecommendedEvent = createRecommendedEventSchema();
@@ -0,0 +1,127 @@
+import { assertEquals } from "./dev_deps.ts";
+import {
+  createRecommendedEventSchema,
+  Currency,
+  RecommendedEvent,
+  RecommendedItem,
+} from "./recommended_events.ts";
+import { repeat, SchemaAssertions } from "./_testing/schemas.ts";
+
+Deno.test("Currency", () => {
+  const sa = new SchemaAssertions(Currency);
+
+  sa.assertParsesAll({ inputs: ["USD", "EUR", "GBP"] });
+  sa.assertRejectsAll({ inputs: ["", "usd", "US", "USDT", "US1"] });
+});
+
+Deno.test("RecommendedItem", () => {
+  const sa = new SchemaAssertions(RecommendedItem);
+
+  sa.assertParsesAll({
+    inputs: [
+      { item_id: "SKU_1" },
+      { item_name: "Shirt" },
+      { item_id: "SKU_1", price: 9.99, quantity: 2, custom: "x" },
+    ],
+  });
+  sa.assertRejectsAll({
+    rawInputs: [
+      // item_id or item_name is required
+      {},
+      { price: 9.99 },
+      { item_id: 1 },
+      { item_id: "SKU_1", quantity: 0 },
+      { item_id: "SKU_1", price: "9.99" },
+    ],
+  });
+});
+
+Deno.test("RecommendedEvent", async (t) => {
+  const sa = new SchemaAssertions(RecommendedEvent);
+  const items = [{ item_id: "SKU_1", price: 10 }];
+
+  await t.step("parses valid recommended events", () => {
+    sa.assertParsesAll({
+      inputs: [
+        {
+          name: "purchase",
+          params: {
+            transaction_id: "T_1",
+            currency: "USD",
+            value: 10,
+            tax: 1,
+            items,
+          },
+        },
+        { name: "add_to_cart", params: { items } },
+        { name: "add_to_cart", params: { currency: "USD", value: 10, items } },
+        { name: "view_item_list", params: { item_list_id: "l1", items } },
+        { name: "search", params: { search_term: "shirts" } },
+        { name: "login" },
+        { name: "sign_up", params: { method: "email", custom: 1 } },
+        { name: "select_promotion", params: { promotion_id: "p1" } },
+      ],
+    });
+  });
+
+  await t.step("rejects invalid recommended events", () => {
+    sa.assertRejectsAll({
+      inputs: [
+        // missing transaction_id, currency and value
+        { name: "purchase", params: { items } },
+        {
+          name: "purchase",
+          params: {
+            transaction_id: "T_1",
+            currency: "usd",
+            value: 10,
+            items,
+          },
+        },
+        {
+          name: "purchase",
+          params: {
+            transaction_id: "T_1",
+            currency: "USD",
+            value: 10,
+            items: [{ price: 10 }],
+          },
+        },
+        // items is required
+        { name: "add_to_cart" },
+        // currency is required with value
+        { name: "add_to_cart", params: { value: 10, items } },
+        { name: "search" },
+        { name: "login", params: { method: 1 } },
+      ],
+    });
+  });
+
+  await t.step("parses other events like AnyEvent", () => {
+    sa.assertParses({ name: "custom_event", params: { value: "x" } });
+    sa.assertRejects({ name: "ad_click" });
+  });
+
+  await t.step("reports issues at the paths of params", () => {
+    const result = RecommendedEvent.safeParse({
+      name: "purchase",
+      params: { currency: "USD", value: 10, items: [{}] },
+    });
+    assertEquals(result.success, false);
+    assertEquals(
+      !result.success && result.error.issues.map(({ path }) => path),
+      [["params", "transaction_id"], ["params", "items", 0]],
+    );
+  });
+});
+
+Deno.test("createRecommendedEventSchema()", () => {
+  const sa = new SchemaAssertions(
+    createRecommendedEventSchema({ maxItems: 1 }),
+  );
+
+  const item = { item_id: "SKU_1" };
+
+  sa.assertParses({ name: "view_cart", params: { items: [item] } });
+  sa.assertRejects({ name: "view_cart", params: { items: repeat(item, 2) } });
+});
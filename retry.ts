@@ -0,0 +1,140 @@
+import { Result } from "./_misc.ts";
+import { z } from "./deps.ts";
+import { RequestMeta } from "./meta.ts";
+import { ProxySender, ProxySendError, UnknownPayload } from "./types.ts";
+
+/** The {@linkcode ProxySendError} names that can be retried.
+ *
+ * `proxy-response-status` errors are only retried for 5xx and 429 statuses, as
+ * other statuses mean the upstream server rejected the payload, and would
+ * reject it again.
+ */
+export const RetryableErrorName = z.enum([
+  "proxy-io-error",
+  "proxy-response-status",
+  "timeout",
+]);
+export type RetryableErrorName = z.infer<typeof RetryableErrorName>;
+
+export type RetryPolicy = {
+  /** The maximum number of times to send a payload, including the first. */
+  maxAttempts: number;
+  /** The maximum delay (ms) before the first retry. */
+  initialDelay: number;
+  /** The maximum delay (ms) before any retry. */
+  maxDelay: number;
+  /** The errors that are retried. */
+  retryOn: ReadonlySet<RetryableErrorName>;
+};
+
+/** Check if an error from a ProxySender should be retried. */
+export function isRetryableError(
+  error: ProxySendError,
+  retryOn: ReadonlySet<RetryableErrorName>,
+): boolean {
+  switch (error.name) {
+    case "proxy-io-error":
+    case "timeout":
+      return retryOn.has(error.name);
+    case "proxy-response-status":
+      return retryOn.has(error.name) &&
+        (error.status >= 500 || error.status === 429);
+    default:
+      return false;
+  }
+}
+
+/** Get the delay (ms) before a retry, using exponential backoff with full
+ * jitter.
+ *
+ * The delay is a random value between 0 and the backoff limit, which doubles
+ * after each attempt, up to `maxDelay`. Randomising the whole delay spreads
+ * out retries from clients that failed at the same time.
+ *
+ * @param retry The number of the retry, starting from 0 for the first retry.
+ * @param random A source of random numbers in [0, 1).
+ */
+export function getRetryDelay(
+  retry: number,
+  { initialDelay, maxDelay }: Pick<RetryPolicy, "initialDelay" | "maxDelay">,
+  random: () => number = Math.random,
+): number {
+  return random() * Math.min(maxDelay, initialDelay * 2 ** retry);
+}
+
+/** Wait for `ms` milliseconds, or until `signal` aborts.
+ *
+ * @returns true if the delay elapsed, false if it was aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) return Promise.resolve(false);
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export type CreateRetryingProxySenderOptions<
+  PayloadT extends UnknownPayload,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends RequestMeta,
+> = {
+  proxySender: ProxySender<
+    PayloadT,
+    ProxySendResultT,
+    ProxySendErrorT,
+    RequestMetaT
+  >;
+  policy: RetryPolicy;
+  /** A source of random numbers in [0, 1), used to jitter retry delays. */
+  random?: () => number;
+};
+
+/** Create a ProxySender that re-sends payloads when a ProxySender fails.
+ *
+ * Failed sends with errors allowed by the policy are retried after a
+ * randomised, exponentially-increasing delay. Retrying stops when the sender's
+ * `signal` aborts, and the last result is returned.
+ */
+export function createRetryingProxySender<
+  PayloadT extends UnknownPayload,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends RequestMeta,
+>(
+  { proxySender, policy, random }: CreateRetryingProxySenderOptions<
+    PayloadT,
+    ProxySendResultT,
+    ProxySendErrorT,
+    RequestMetaT
+  >,
+): ProxySender<PayloadT, ProxySendResultT, ProxySendErrorT, RequestMetaT> {
+  if (!(Number.isInteger(policy.maxAttempts) && policy.maxAttempts >= 1)) {
+    throw new RangeError("maxAttempts must be an integer >= 1");
+  }
+
+  return async (
+    payload,
+    options,
+  ): Promise<Result<ProxySendResultT, ProxySendErrorT>> => {
+    for (let attempt = 1;; attempt++) {
+      const result = await proxySender(payload, options);
+      if (
+        result.success || attempt >= policy.maxAttempts ||
+        !isRetryableError(result.error, policy.retryOn)
+      ) {
+        return result;
+      }
+      const delay = getRetryDelay(attempt - 1, policy, random);
+      if (!await sleep(delay, options.signal)) return result;
+    }
+  };
+}
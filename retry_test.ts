@@ -0,0 +1,187 @@
+import { Result } from "./_misc.ts";
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { StatusCodes } from "./deps.ts";
+import { assertEquals, assertInstanceOf } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import {
+  createRetryingProxySender,
+  getRetryDelay,
+  isRetryableError,
+  RetryableErrorName,
+  RetryPolicy,
+} from "./retry.ts";
+import { ProxySender, ProxySendError, UnknownPayload } from "./types.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "exampleId",
+  api_secret: "exampleSec",
+  endpoint: "https://dest.example.com/mp/collect",
+  in_measurement_id: "exampleId",
+};
+
+const payload: UnknownPayload = { payload: {} };
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 0,
+  maxDelay: 0,
+  retryOn: new Set<RetryableErrorName>([
+    "proxy-io-error",
+    "proxy-response-status",
+  ]),
+};
+
+/** Create a ProxySender that returns each of `results` in turn. */
+function createSequenceProxySender(
+  results: Result<null, ProxySendError>[],
+): ProxySender<UnknownPayload, null, ProxySendError> & { calls: number } {
+  const sender = Object.assign(
+    () =>
+      Promise.resolve(results[Math.min(sender.calls++, results.length - 1)]),
+    { calls: 0 },
+  );
+  return sender;
+}
+
+const ioError: Result<null, ProxySendError> = {
+  success: false,
+  error: { name: "proxy-io-error" },
+};
+const ok: Result<null, ProxySendError> = { success: true, data: null };
+
+Deno.test("isRetryableError()", async (t) => {
+  const retryOn = new Set<RetryableErrorName>([
+    "proxy-io-error",
+    "proxy-response-status",
+  ]);
+
+  await t.step("retries errors in retryOn", () => {
+    assertEquals(isRetryableError({ name: "proxy-io-error" }, retryOn), true);
+    assertEquals(isRetryableError({ name: "timeout" }, retryOn), false);
+    assertEquals(
+      isRetryableError({ name: "timeout" }, new Set(["timeout"])),
+      true,
+    );
+  });
+
+  await t.step("retries server errors and 429 statuses", () => {
+    for (
+      const status of [
+        StatusCodes.INTERNAL_SERVER_ERROR,
+        StatusCodes.BAD_GATEWAY,
+        StatusCodes.TOO_MANY_REQUESTS,
+      ]
+    ) {
+      assertEquals(
+        isRetryableError({ name: "proxy-response-status", status }, retryOn),
+        true,
+      );
+    }
+    assertEquals(
+      isRetryableError(
+        { name: "proxy-response-status", status: StatusCodes.BAD_REQUEST },
+        retryOn,
+      ),
+      false,
+    );
+  });
+
+  await t.step("does not retry aborted sends", () => {
+    assertEquals(isRetryableError({ name: "aborted" }, retryOn), false);
+  });
+});
+
+Deno.test("getRetryDelay()", async (t) => {
+  const delays = { initialDelay: 100, maxDelay: 1000 };
+
+  await t.step("doubles the delay limit for each retry", () => {
+    const max = () => 1;
+    assertEquals(getRetryDelay(0, delays, max), 100);
+    assertEquals(getRetryDelay(1, delays, max), 200);
+    assertEquals(getRetryDelay(2, delays, max), 400);
+  });
+
+  await t.step("limits the delay to maxDelay", () => {
+    assertEquals(getRetryDelay(10, delays, () => 1), 1000);
+  });
+
+  await t.step("randomises the whole delay", () => {
+    assertEquals(getRetryDelay(2, delays, () => 0), 0);
+    assertEquals(getRetryDelay(2, delays, () => 0.5), 200);
+  });
+});
+
+Deno.test("createRetryingProxySender()", async (t) => {
+  await t.step("does not retry successful sends", async () => {
+    const proxySender = createSequenceProxySender([ok]);
+    const sender = createRetryingProxySender({ proxySender, policy });
+
+    assertSuccessful(await sender(payload, { requestMeta }));
+    assertEquals(proxySender.calls, 1);
+  });
+
+  await t.step("retries until a send succeeds", async () => {
+    const proxySender = createSequenceProxySender([ioError, ioError, ok]);
+    const sender = createRetryingProxySender({ proxySender, policy });
+
+    assertSuccessful(await sender(payload, { requestMeta }));
+    assertEquals(proxySender.calls, 3);
+  });
+
+  await t.step("stops after maxAttempts", async () => {
+    const proxySender = createSequenceProxySender([ioError]);
+    const sender = createRetryingProxySender({ proxySender, policy });
+
+    const result = await sender(payload, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "proxy-io-error");
+    assertEquals(proxySender.calls, 3);
+  });
+
+  await t.step("does not retry errors not in retryOn", async () => {
+    const proxySender = createSequenceProxySender([
+      { success: false, error: { name: "timeout" } },
+      ok,
+    ]);
+    const sender = createRetryingProxySender({ proxySender, policy });
+
+    const result = await sender(payload, { requestMeta });
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "timeout");
+    assertEquals(proxySender.calls, 1);
+  });
+
+  await t.step("stops retrying when signal aborts", async () => {
+    const abort = new AbortController();
+    const proxySender = createSequenceProxySender([ioError, ok]);
+    const sender = createRetryingProxySender({
+      proxySender,
+      policy: { ...policy, initialDelay: 60_000, maxDelay: 60_000 },
+      random: () => 1,
+    });
+
+    const resultP = sender(payload, { requestMeta, signal: abort.signal });
+    abort.abort();
+    const result = await resultP;
+
+    assertUnsuccessful(result);
+    assertEquals(proxySender.calls, 1);
+  });
+
+  await t.step("rejects invalid maxAttempts", () => {
+    let error: unknown;
+    try {
+      createRetryingProxySender({
+        proxySender: createSequenceProxySender([ok]),
+        policy: { ...policy, maxAttempts: 0 },
+      });
+    } catch (e) {
+      error = e;
+    }
+    assertInstanceOf(error, RangeError);
+  });
+});
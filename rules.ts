@@ -11,6 +11,7 @@ import {
   ApprovedCollectRequestMeta,
   CollectRequestMeta,
   RequestMeta,
+  RequestName,
 } from "./meta.ts";
 import { Responder } from "./requests.ts";
 import { HandlerRequest } from "./requests.ts";
@@ -42,6 +43,9 @@ export type CollectRequestRuleOptions<RequestMetaT extends RequestMeta> = {
     endpoint?: string;
   };
   allowDebug?: boolean;
+  /** Accept gtag.js requests, which are not authenticated with an api_secret,
+   * only a measurement_id. */
+  allowGtag?: boolean;
   forwarder: MaybeLazy<RequestForwarder<RequestMetaT>>;
 };
 
@@ -58,12 +62,14 @@ export abstract class AbstractCollectRequestForwardingRule<
     endpoint?: string;
   };
   readonly allowDebug?: boolean;
+  readonly allowGtag?: boolean;
   readonly forwarder: MaybeLazy<RequestForwarder<RequestMetaT>>;
 
   constructor(options: CollectRequestRuleOptions<RequestMetaT>) {
     this.allowedApiSecret = options.allowedApiSecret;
     this.destination = { ...options.destination };
     this.allowDebug = options.allowDebug;
+    this.allowGtag = options.allowGtag;
     this.forwarder = options.forwarder;
   }
 
@@ -179,7 +185,11 @@ export class DefaultCollectRequestForwardingRule<
     requestMeta: CollectRequestMeta,
     _options: HandlerRequest,
   ): Result<ApprovedCollectRequestMeta, RequestMatchError> {
-    if (
+    if (requestMeta.name === RequestName.gtag) {
+      if (!this.allowGtag) {
+        return { success: false, error: { name: "not-authorised" } };
+      }
+    } else if (
       !((typeof this.allowedApiSecret === "string" &&
         requestMeta.api_secret === this.allowedApiSecret) ||
         (typeof this.allowedApiSecret === "function" &&
@@ -201,6 +211,7 @@ export class DefaultCollectRequestForwardingRule<
         measurement_id: this.destination.measurement_id,
         api_secret: this.destination.api_secret,
         endpoint: this.destination.endpoint ?? GA4MP_URL,
+        in_measurement_id: requestMeta.measurement_id,
       } satisfies ApprovedCollectRequestMeta,
     };
   }
@@ -1,17 +1,27 @@
 import { assertUnreachable, Result } from "../_misc.ts";
 import {
+  BotsConfig,
   Config,
   ConfigLoadFailed,
   ConfigSource,
   ConfigValueEnvarName,
   configValueEnvarNames,
+  ConsentConfig,
   DataStreamInOut,
+  DestinationConfig,
   EnvMap,
+  FileSinkConfig,
   ForwarderConfig,
   getEnvars,
   loadConfigOrThrow,
+  PiiConfig,
+  QueueConfig,
   RawConfigEnv,
+  RetryConfig,
   simplifyConfig,
+  TrustedProxiesConfig,
+  UrlsConfig,
+  UserIdComponentsConfig,
 } from "../config.ts";
 import { ConfigEnvars } from "../config.ts";
 import { z } from "../deps.ts";
@@ -191,6 +201,23 @@ async function loadConfigOrExit(
   }
 }
 
+/** Parse a config section with overrides applied, or exit if it's invalid. */
+function parseOverriddenSection<SchemaT extends z.ZodTypeAny>(
+  schema: SchemaT,
+  path: string[],
+  value: unknown,
+): z.infer<SchemaT> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    console.error("Failed to apply overrides:");
+    for (const issue of result.error.issues) {
+      console.error(`${[...path, ...issue.path].join(".")}: ${issue.message}`);
+    }
+    Deno.exit(1);
+  }
+  return result.data;
+}
+
 export async function loadConfigWithOverrides(
   env: EnvMap,
   overrides: ConfigEnvValue[],
@@ -227,9 +254,101 @@ export async function loadConfigWithOverrides(
     vars.ANONYSTAT_DATA_STREAM_OUT_API_SECRET ??
       vars.ANONYSTAT_DATA_STREAM_API_SECRET;
 
+  const overrideTrustedProxies = (
+    override: Partial<z.input<typeof TrustedProxiesConfig>>,
+  ) => {
+    config.listen.trusted_proxies = parseOverriddenSection(
+      TrustedProxiesConfig,
+      ["listen", "trusted_proxies"],
+      { ...config.listen.trusted_proxies, ...override },
+    );
+  };
+
   const eachForward = (fn: (fw: ForwarderConfig) => void) => {
     config.forward.forEach(fn);
   };
+  const overrideUserIdComponents = (
+    override: Partial<z.input<typeof UserIdComponentsConfig>>,
+  ) => {
+    eachForward((f) => {
+      f.user_id.components = parseOverriddenSection(
+        UserIdComponentsConfig,
+        ["user_id", "components"],
+        { ...f.user_id.components, ...override },
+      );
+    });
+  };
+  const overrideRetry = (override: Partial<z.input<typeof RetryConfig>>) => {
+    // Setting retry options enables retrying, unless it's explicitly disabled
+    if (vars.ANONYSTAT_RETRY === false) return;
+    eachForward((f) => {
+      f.retry = parseOverriddenSection(RetryConfig, ["retry"], {
+        ...f.retry,
+        ...override,
+      });
+    });
+  };
+  const overrideDestination = (
+    override: Partial<Exclude<z.input<typeof DestinationConfig>, string>>,
+  ) => {
+    eachForward((f) => {
+      f.destination = parseOverriddenSection(
+        DestinationConfig,
+        ["destination"],
+        { ...f.destination, ...override },
+      );
+    });
+  };
+  const overrideFileSink = (
+    override: Partial<z.input<typeof FileSinkConfig>>,
+  ) => {
+    eachForward((f) => {
+      f.file_sink = parseOverriddenSection(FileSinkConfig, ["file_sink"], {
+        ...f.file_sink,
+        ...override,
+      });
+    });
+  };
+  const overrideConsent = (
+    override: Partial<z.input<typeof ConsentConfig>>,
+  ) => {
+    eachForward((f) => {
+      f.consent = parseOverriddenSection(ConsentConfig, ["consent"], {
+        ...f.consent,
+        ...override,
+      });
+    });
+  };
+  const overrideBots = (
+    override: Partial<Exclude<z.input<typeof BotsConfig>, string>>,
+  ) => {
+    eachForward((f) => {
+      f.bots = parseOverriddenSection(BotsConfig, ["bots"], {
+        ...f.bots,
+        ...override,
+      });
+    });
+  };
+  const overridePii = (override: Partial<z.input<typeof PiiConfig>>) => {
+    // Setting PII actions enables scrubbing, unless it's explicitly disabled
+    if (vars.ANONYSTAT_PII === false) return;
+    eachForward((f) => {
+      f.pii = parseOverriddenSection(PiiConfig, ["pii"], {
+        ...f.pii,
+        ...override,
+      });
+    });
+  };
+  const overrideUrls = (override: Partial<z.input<typeof UrlsConfig>>) => {
+    // Setting URL options enables sanitising, unless it's explicitly disabled
+    if (vars.ANONYSTAT_URLS === false) return;
+    eachForward((f) => {
+      f.urls = parseOverriddenSection(UrlsConfig, ["urls"], {
+        ...f.urls,
+        ...override,
+      });
+    });
+  };
   const eachDataStream = (fn: (ds: DataStreamInOut) => void) => {
     eachForward((fw) => {
       fw.data_stream.forEach(fn);
@@ -250,7 +369,7 @@ export async function loadConfigWithOverrides(
       }
       case "ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID": {
         const value = vars.ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID!;
-        eachDataStream((ds) => ds.out.measurement_id = value);
+        eachDataStream((ds) => ds.out.forEach((o) => o.measurement_id = value));
         break;
       }
       case "ANONYSTAT_DATA_STREAM_IN_API_SECRET": {
@@ -260,17 +379,66 @@ export async function loadConfigWithOverrides(
       }
       case "ANONYSTAT_DATA_STREAM_OUT_API_SECRET": {
         const value = result.data.ANONYSTAT_DATA_STREAM_OUT_API_SECRET!;
-        eachDataStream((ds) => ds.out.api_secret = value);
+        eachDataStream((ds) => ds.out.forEach((o) => o.api_secret = value));
+        break;
+      }
+      case "ANONYSTAT_DATA_STREAM_ALLOW_EVENTS": {
+        const value = vars.ANONYSTAT_DATA_STREAM_ALLOW_EVENTS!;
+        eachDataStream((ds) => ds.in.allow_events = value);
+        break;
+      }
+      case "ANONYSTAT_DATA_STREAM_DENY_EVENTS": {
+        const value = vars.ANONYSTAT_DATA_STREAM_DENY_EVENTS!;
+        eachDataStream((ds) => ds.in.deny_events = value);
         break;
       }
-      case "ANONYSTAT_DESTINATION": {
-        eachForward((f) => f.destination = result.data.ANONYSTAT_DESTINATION!);
+      case "ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS": {
+        const value = vars.ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS!;
+        eachDataStream((ds) => ds.in.disallowed_events = value);
         break;
       }
+      case "ANONYSTAT_DESTINATION":
+        overrideDestination({ url: vars.ANONYSTAT_DESTINATION });
+        break;
+      case "ANONYSTAT_DESTINATION_TYPE":
+        // The URL of the previous type is not used with the new type, unless
+        // it's also overridden.
+        overrideDestination({
+          type: vars.ANONYSTAT_DESTINATION_TYPE,
+          url: vars.ANONYSTAT_DESTINATION,
+        });
+        break;
+      case "ANONYSTAT_DESTINATION_EVENT_NAMES":
+        overrideDestination({
+          event_names: vars.ANONYSTAT_DESTINATION_EVENT_NAMES,
+        });
+        break;
       case "ANONYSTAT_ALLOW_DEBUG": {
         eachForward((f) => f.allow_debug = result.data.ANONYSTAT_ALLOW_DEBUG!);
         break;
       }
+      case "ANONYSTAT_ALLOW_GTAG":
+        eachForward((f) => f.allow_gtag = vars.ANONYSTAT_ALLOW_GTAG!);
+        break;
+      case "ANONYSTAT_CONTENT_TYPES":
+        eachForward((f) => f.content_types = vars.ANONYSTAT_CONTENT_TYPES!);
+        break;
+      case "ANONYSTAT_MAX_BODY_BYTES":
+        eachForward((f) => {
+          f.max_body_bytes = vars.ANONYSTAT_MAX_BODY_BYTES;
+        });
+        break;
+      case "ANONYSTAT_SPLIT_EVENTS":
+        eachForward((f) => f.split_events = vars.ANONYSTAT_SPLIT_EVENTS!);
+        break;
+      case "ANONYSTAT_VALIDATION":
+        eachForward((f) => f.validation = vars.ANONYSTAT_VALIDATION!);
+        break;
+      case "ANONYSTAT_RECOMMENDED_EVENTS":
+        eachForward((f) =>
+          f.recommended_events = vars.ANONYSTAT_RECOMMENDED_EVENTS!
+        );
+        break;
       case "ANONYSTAT_USER_ID_SCRAMBLING_SECRET": {
         eachForward((f) =>
           f.user_id.scrambling_secret = vars
@@ -290,12 +458,46 @@ export async function loadConfigWithOverrides(
         );
         break;
       }
+      case "ANONYSTAT_CLIENT_ID_EXISTING": {
+        eachForward((f) =>
+          f.user_id.client_id = vars.ANONYSTAT_CLIENT_ID_EXISTING!
+        );
+        break;
+      }
+      case "ANONYSTAT_USER_ID_COMPONENTS":
+        overrideUserIdComponents(vars.ANONYSTAT_USER_ID_COMPONENTS!);
+        break;
+      case "ANONYSTAT_USER_ID_IPV4_PREFIX":
+        overrideUserIdComponents({
+          ipv4_prefix: vars.ANONYSTAT_USER_ID_IPV4_PREFIX!,
+        });
+        break;
+      case "ANONYSTAT_USER_ID_IPV6_PREFIX":
+        overrideUserIdComponents({
+          ipv6_prefix: vars.ANONYSTAT_USER_ID_IPV6_PREFIX!,
+        });
+        break;
       case "ANONYSTAT_LISTEN_PORT":
         config.listen.port = result.data.ANONYSTAT_LISTEN_PORT!;
         break;
       case "ANONYSTAT_LISTEN_HOSTNAME":
         config.listen.hostname = result.data.ANONYSTAT_LISTEN_HOSTNAME!;
         break;
+      case "ANONYSTAT_LISTEN_TRUSTED_PROXIES":
+        overrideTrustedProxies({
+          addresses: vars.ANONYSTAT_LISTEN_TRUSTED_PROXIES!,
+        });
+        break;
+      case "ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS":
+        overrideTrustedProxies({
+          hops: vars.ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS!,
+        });
+        break;
+      case "ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER":
+        overrideTrustedProxies({
+          header: vars.ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER!,
+        });
+        break;
       case "ANONYSTAT_CORS_ALLOW_ORIGIN":
         eachForward((f) => {
           f.cors = f.cors ?? {};
@@ -308,6 +510,126 @@ export async function loadConfigWithOverrides(
           f.cors.max_age = result.data.ANONYSTAT_CORS_MAX_AGE;
         });
         break;
+      case "ANONYSTAT_QUEUE":
+        eachForward((f) => {
+          f.queue = vars.ANONYSTAT_QUEUE
+            ? parseOverriddenSection(QueueConfig, ["queue"], { ...f.queue })
+            : undefined;
+        });
+        break;
+      case "ANONYSTAT_QUEUE_RETRIES":
+        // Setting retries enables the queue, unless it's explicitly disabled
+        if (vars.ANONYSTAT_QUEUE === false) break;
+        eachForward((f) => {
+          f.queue = parseOverriddenSection(QueueConfig, ["queue"], {
+            ...f.queue,
+            retries: vars.ANONYSTAT_QUEUE_RETRIES,
+          });
+        });
+        break;
+      case "ANONYSTAT_RETRY":
+        eachForward((f) => {
+          f.retry = vars.ANONYSTAT_RETRY
+            ? parseOverriddenSection(RetryConfig, ["retry"], { ...f.retry })
+            : undefined;
+        });
+        break;
+      case "ANONYSTAT_RETRY_MAX_ATTEMPTS":
+        overrideRetry({ max_attempts: vars.ANONYSTAT_RETRY_MAX_ATTEMPTS });
+        break;
+      case "ANONYSTAT_RETRY_INITIAL_DELAY":
+        overrideRetry({ initial_delay: vars.ANONYSTAT_RETRY_INITIAL_DELAY });
+        break;
+      case "ANONYSTAT_RETRY_MAX_DELAY":
+        overrideRetry({ max_delay: vars.ANONYSTAT_RETRY_MAX_DELAY });
+        break;
+      case "ANONYSTAT_RETRY_ON":
+        overrideRetry({ on: vars.ANONYSTAT_RETRY_ON });
+        break;
+      case "ANONYSTAT_UPSTREAM_TIMEOUT":
+        eachForward((f) => {
+          f.upstream_timeout = vars.ANONYSTAT_UPSTREAM_TIMEOUT;
+        });
+        break;
+      case "ANONYSTAT_FILE_SINK_DIRECTORY":
+        overrideFileSink({ directory: vars.ANONYSTAT_FILE_SINK_DIRECTORY });
+        break;
+      case "ANONYSTAT_FILE_SINK_ROTATION":
+        overrideFileSink({ rotation: vars.ANONYSTAT_FILE_SINK_ROTATION });
+        break;
+      case "ANONYSTAT_FILE_SINK_MAX_BYTES":
+        overrideFileSink({ max_bytes: vars.ANONYSTAT_FILE_SINK_MAX_BYTES });
+        break;
+      case "ANONYSTAT_FILE_SINK_GZIP":
+        overrideFileSink({ gzip: vars.ANONYSTAT_FILE_SINK_GZIP });
+        break;
+      case "ANONYSTAT_FILE_SINK_ONLY":
+        overrideFileSink({ only: vars.ANONYSTAT_FILE_SINK_ONLY });
+        break;
+      case "ANONYSTAT_CONSENT_AD_USER_DATA_DENIED":
+        overrideConsent({
+          ad_user_data_denied: vars.ANONYSTAT_CONSENT_AD_USER_DATA_DENIED,
+        });
+        break;
+      case "ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED":
+        overrideConsent({
+          ad_personalization_denied:
+            vars.ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED,
+        });
+        break;
+      case "ANONYSTAT_CONSENT_GPC":
+        overrideConsent({ gpc: vars.ANONYSTAT_CONSENT_GPC });
+        break;
+      case "ANONYSTAT_CONSENT_DNT":
+        overrideConsent({ dnt: vars.ANONYSTAT_CONSENT_DNT });
+        break;
+      case "ANONYSTAT_PII":
+        eachForward((f) => {
+          f.pii = vars.ANONYSTAT_PII
+            ? parseOverriddenSection(PiiConfig, ["pii"], { ...f.pii })
+            : undefined;
+        });
+        break;
+      case "ANONYSTAT_PII_EMAIL":
+        overridePii({ email: vars.ANONYSTAT_PII_EMAIL });
+        break;
+      case "ANONYSTAT_PII_PHONE":
+        overridePii({ phone: vars.ANONYSTAT_PII_PHONE });
+        break;
+      case "ANONYSTAT_PII_IP":
+        overridePii({ ip: vars.ANONYSTAT_PII_IP });
+        break;
+      case "ANONYSTAT_PII_CREDIT_CARD":
+        overridePii({ credit_card: vars.ANONYSTAT_PII_CREDIT_CARD });
+        break;
+      case "ANONYSTAT_PII_JWT":
+        overridePii({ jwt: vars.ANONYSTAT_PII_JWT });
+        break;
+      case "ANONYSTAT_URLS":
+        eachForward((f) => {
+          f.urls = vars.ANONYSTAT_URLS
+            ? parseOverriddenSection(UrlsConfig, ["urls"], { ...f.urls })
+            : undefined;
+        });
+        break;
+      case "ANONYSTAT_URLS_PARAMS":
+        overrideUrls({ params: vars.ANONYSTAT_URLS_PARAMS });
+        break;
+      case "ANONYSTAT_URLS_QUERY_PARAMS":
+        overrideUrls({ query_params: vars.ANONYSTAT_URLS_QUERY_PARAMS });
+        break;
+      case "ANONYSTAT_URLS_KEEP_FRAGMENT":
+        overrideUrls({ keep_fragment: vars.ANONYSTAT_URLS_KEEP_FRAGMENT });
+        break;
+      case "ANONYSTAT_URLS_COLLAPSE_IDS":
+        overrideUrls({ collapse_ids: vars.ANONYSTAT_URLS_COLLAPSE_IDS });
+        break;
+      case "ANONYSTAT_BOTS":
+        overrideBots({ action: vars.ANONYSTAT_BOTS! });
+        break;
+      case "ANONYSTAT_BOTS_HTTP_CLIENTS":
+        overrideBots({ http_clients: vars.ANONYSTAT_BOTS_HTTP_CLIENTS! });
+        break;
       default:
         assertUnreachable(name);
     }
@@ -492,6 +814,24 @@ function formatEnvVars(config: Config): Result<string, string> {
       error:
         "Cannot represent config with individual envars: Config contains multiple data streams",
     };
+  } else if (envars.error.name === "multiple-data-stream-out") {
+    return {
+      success: false,
+      error:
+        "Cannot represent config with individual envars: Config contains a data stream with multiple outs",
+    };
+  } else if (envars.error.name === "events") {
+    return {
+      success: false,
+      error:
+        "Cannot represent config with individual envars: Config contains event definitions",
+    };
+  } else if (envars.error.name === "transforms") {
+    return {
+      success: false,
+      error:
+        "Cannot represent config with individual envars: Config contains transforms",
+    };
   }
   assertUnreachable(envars.error);
 }
@@ -174,14 +174,62 @@ Deno.test("-e/--override", async (t) => {
         ANONYSTAT_DATA_STREAM_OUT_API_SECRET: "s1",
         ANONYSTAT_DATA_STREAM_IN_MEASUREMENT_ID: "i0",
         ANONYSTAT_DATA_STREAM_OUT_MEASUREMENT_ID: "i1",
+        ANONYSTAT_DATA_STREAM_ALLOW_EVENTS: "page_view,ads_*",
+        ANONYSTAT_DATA_STREAM_DENY_EVENTS: "ads_test_*",
+        ANONYSTAT_DATA_STREAM_DISALLOWED_EVENTS: "reject",
         ANONYSTAT_DESTINATION: "https://override.example.com/mp/collect",
+        ANONYSTAT_DESTINATION_TYPE: "plausible",
+        ANONYSTAT_DESTINATION_EVENT_NAMES: "page_view=pageview",
+        ANONYSTAT_ALLOW_GTAG: "true",
+        ANONYSTAT_CONTENT_TYPES: "application/json,text/plain",
+        ANONYSTAT_MAX_BODY_BYTES: "65536",
+        ANONYSTAT_SPLIT_EVENTS: "true",
+        ANONYSTAT_VALIDATION: "drop-invalid",
+        ANONYSTAT_RECOMMENDED_EVENTS: "true",
         ANONYSTAT_LISTEN_HOSTNAME: "override.localhost",
         ANONYSTAT_LISTEN_PORT: "9001",
+        ANONYSTAT_LISTEN_TRUSTED_PROXIES: "10.0.0.0/8",
+        ANONYSTAT_LISTEN_TRUSTED_PROXY_HOPS: "2",
+        ANONYSTAT_LISTEN_TRUSTED_PROXY_HEADER: "X-Real-IP",
         ANONYSTAT_USER_ID_EXISTING: "keep",
         ANONYSTAT_USER_ID_LIFETIME: "R/2024-01-01/P1W",
         ANONYSTAT_USER_ID_SCRAMBLING_SECRET: "osec",
+        ANONYSTAT_USER_ID_COMPONENTS: "ip,user_agent,header:Sec-CH-UA",
+        ANONYSTAT_USER_ID_IPV4_PREFIX: "24",
+        ANONYSTAT_USER_ID_IPV6_PREFIX: "48",
+        ANONYSTAT_CLIENT_ID_EXISTING: "scramble",
         ANONYSTAT_CORS_ALLOW_ORIGIN: "example.com",
         ANONYSTAT_CORS_MAX_AGE: "1 hour",
+        ANONYSTAT_QUEUE: "true",
+        ANONYSTAT_QUEUE_RETRIES: "3",
+        ANONYSTAT_RETRY: "true",
+        ANONYSTAT_RETRY_MAX_ATTEMPTS: "4",
+        ANONYSTAT_RETRY_INITIAL_DELAY: "0.5",
+        ANONYSTAT_RETRY_MAX_DELAY: "10",
+        ANONYSTAT_RETRY_ON: "proxy-io-error,timeout",
+        ANONYSTAT_UPSTREAM_TIMEOUT: "5",
+        ANONYSTAT_FILE_SINK_DIRECTORY: "/tmp/anonystat",
+        ANONYSTAT_FILE_SINK_ROTATION: "size",
+        ANONYSTAT_FILE_SINK_MAX_BYTES: "1048576",
+        ANONYSTAT_FILE_SINK_GZIP: "true",
+        ANONYSTAT_FILE_SINK_ONLY: "true",
+        ANONYSTAT_CONSENT_AD_USER_DATA_DENIED: "anonymise",
+        ANONYSTAT_CONSENT_AD_PERSONALIZATION_DENIED: "drop",
+        ANONYSTAT_CONSENT_GPC: "reject",
+        ANONYSTAT_CONSENT_DNT: "anonymise",
+        ANONYSTAT_PII: "true",
+        ANONYSTAT_PII_EMAIL: "hash",
+        ANONYSTAT_PII_PHONE: "hash",
+        ANONYSTAT_PII_IP: "drop_param",
+        ANONYSTAT_PII_CREDIT_CARD: "drop_event",
+        ANONYSTAT_PII_JWT: "drop_param",
+        ANONYSTAT_URLS: "true",
+        ANONYSTAT_URLS_PARAMS: "page_location,page_referrer",
+        ANONYSTAT_URLS_QUERY_PARAMS: "utm_source,utm_medium",
+        ANONYSTAT_URLS_KEEP_FRAGMENT: "true",
+        ANONYSTAT_URLS_COLLAPSE_IDS: "true",
+        ANONYSTAT_BOTS: "tag",
+        ANONYSTAT_BOTS_HTTP_CLIENTS: "true",
       };
       const a = await run({
         // config_single has a value for every field
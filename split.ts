@@ -0,0 +1,111 @@
+import { Result } from "./_misc.ts";
+import { ApprovedCollectRequestMeta } from "./meta.ts";
+import { AnyPayload, MAX_PAYLOAD_EVENTS } from "./payload_schemas.ts";
+import { GA4MPPayload, ProxySender, ProxySendError } from "./types.ts";
+
+/** Split a payload into payloads with at most `maxEvents` events each.
+ *
+ * The split payloads share all the properties of `payload` except `events`, so
+ * they have the same `client_id`, `user_id`, `user_properties` and `consent`.
+ * A payload that doesn't have too many events is returned as-is.
+ */
+export function splitPayload<PayloadT extends AnyPayload>(
+  payload: PayloadT,
+  maxEvents: number = MAX_PAYLOAD_EVENTS,
+): PayloadT[] {
+  if (!(Number.isInteger(maxEvents) && maxEvents > 0)) {
+    throw new RangeError(`maxEvents must be a positive integer: ${maxEvents}`);
+  }
+  if (payload.events.length <= maxEvents) return [payload];
+
+  const chunks: PayloadT[] = [];
+  for (let i = 0; i < payload.events.length; i += maxEvents) {
+    chunks.push({ ...payload, events: payload.events.slice(i, i + maxEvents) });
+  }
+  return chunks;
+}
+
+/** The outcome of sending one of the payloads a payload was split into. */
+export type SplitChunkResult<ProxySendResultT, ProxySendErrorT> = {
+  /** The number of events in the split payload. */
+  eventCount: number;
+  result: Result<ProxySendResultT, ProxySendErrorT>;
+};
+
+export type SplitProxySendResult<ProxySendResultT, ProxySendErrorT> =
+  SplitChunkResult<ProxySendResultT, ProxySendErrorT>[];
+
+/** A failed split payload's error, with the results of the split payloads sent
+ * up to and including it. */
+export type SplitProxySendError<ProxySendResultT, ProxySendErrorT> =
+  & ProxySendErrorT
+  & { results: SplitProxySendResult<ProxySendResultT, ProxySendErrorT> };
+
+export type CreateSplittingProxySenderOptions<
+  PayloadT extends GA4MPPayload<AnyPayload>,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends ApprovedCollectRequestMeta,
+> = {
+  /** The sender used to send each split payload. */
+  proxySender: ProxySender<
+    PayloadT,
+    ProxySendResultT,
+    ProxySendErrorT,
+    RequestMetaT
+  >;
+  /** Default is {@linkcode MAX_PAYLOAD_EVENTS}. */
+  maxEvents?: number;
+};
+
+/** Create a ProxySender that splits payloads with too many events.
+ *
+ * Payloads are split with {@linkcode splitPayload} and the split payloads are
+ * sent one after another, so that their events arrive in order. The result
+ * holds each split payload's result, in order. Sending succeeds only if every
+ * split payload is sent. Sending stops at the first split payload that fails
+ * (such as when the request is aborted), and the error is its error, with the
+ * results of the split payloads sent until then attached.
+ */
+export function createSplittingProxySender<
+  PayloadT extends GA4MPPayload<AnyPayload>,
+  ProxySendResultT,
+  ProxySendErrorT extends ProxySendError,
+  RequestMetaT extends ApprovedCollectRequestMeta,
+>(
+  { proxySender, maxEvents = MAX_PAYLOAD_EVENTS }:
+    CreateSplittingProxySenderOptions<
+      PayloadT,
+      ProxySendResultT,
+      ProxySendErrorT,
+      RequestMetaT
+    >,
+): ProxySender<
+  PayloadT,
+  SplitProxySendResult<ProxySendResultT, ProxySendErrorT>,
+  SplitProxySendError<ProxySendResultT, ProxySendErrorT>,
+  RequestMetaT
+> {
+  if (!(Number.isInteger(maxEvents) && maxEvents > 0)) {
+    throw new RangeError(`maxEvents must be a positive integer: ${maxEvents}`);
+  }
+  return async (
+    payload,
+    options,
+  ): Promise<
+    Result<
+      SplitProxySendResult<ProxySendResultT, ProxySendErrorT>,
+      SplitProxySendError<ProxySendResultT, ProxySendErrorT>
+    >
+  > => {
+    const results: SplitProxySendResult<ProxySendResultT, ProxySendErrorT> = [];
+    for (const chunk of splitPayload(payload.payload, maxEvents)) {
+      const result = await proxySender({ ...payload, payload: chunk }, options);
+      results.push({ eventCount: chunk.events.length, result });
+      if (!result.success) {
+        return { success: false, error: { ...result.error, results } };
+      }
+    }
+    return { success: true, data: results };
+  };
+}
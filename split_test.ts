@@ -0,0 +1,161 @@
+import { Result } from "./_misc.ts";
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { assertEquals, assertThrows } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import { createSplittingProxySender, splitPayload } from "./split.ts";
+import { GA4MPPayload, ProxySendError } from "./types.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "in",
+  api_secret: "inSec",
+  endpoint: "https://example.com/mp/collect",
+  in_measurement_id: "in",
+};
+
+function createPayload(eventCount: number): AnyPayload {
+  return {
+    client_id: "c1",
+    user_id: "u1",
+    user_properties: { plan: { value: "pro" } },
+    consent: { ad_user_data: "GRANTED", ad_personalization: "DENIED" },
+    events: Array.from({ length: eventCount }, (_, i) => ({ name: `e${i}` })),
+  };
+}
+
+Deno.test("splitPayload()", async (t) => {
+  await t.step("returns payloads with few enough events as-is", () => {
+    const payload = createPayload(25);
+    const chunks = splitPayload(payload);
+    assertEquals(chunks.length, 1);
+    assertEquals(chunks[0] === payload, true);
+  });
+
+  await t.step("splits events into chunks that share properties", () => {
+    const payload = createPayload(7);
+    const { events, ...shared } = payload;
+
+    assertEquals(splitPayload(payload, 3), [
+      { ...shared, events: events.slice(0, 3) },
+      { ...shared, events: events.slice(3, 6) },
+      { ...shared, events: events.slice(6) },
+    ]);
+  });
+
+  await t.step("rejects invalid maxEvents", () => {
+    for (const maxEvents of [0, -1, 1.5]) {
+      assertThrows(() => splitPayload(createPayload(1), maxEvents));
+    }
+  });
+});
+
+Deno.test("createSplittingProxySender()", async (t) => {
+  /** Create a ProxySender that fails for payloads with events named "fail". */
+  function createSender() {
+    const sent: AnyPayload[] = [];
+    const proxySender = (
+      { payload }: GA4MPPayload<AnyPayload>,
+      { signal }: { signal?: AbortSignal },
+    ): Promise<Result<number, ProxySendError>> => {
+      if (signal?.aborted) {
+        return Promise.resolve({ success: false, error: { name: "aborted" } });
+      }
+      sent.push(payload);
+      return Promise.resolve(
+        payload.events.some((e) => e.name === "fail")
+          ? {
+            success: false,
+            error: { name: "proxy-response-status", status: 500 },
+          }
+          : { success: true, data: sent.length },
+      );
+    };
+    return { proxySender, sent };
+  }
+
+  await t.step("sends payloads with few events unchanged", async () => {
+    const { proxySender, sent } = createSender();
+    const sender = createSplittingProxySender({ proxySender });
+    const payload = createPayload(2);
+
+    const result = await sender({ payload }, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(result.data, [
+      { eventCount: 2, result: { success: true, data: 1 } },
+    ]);
+    assertEquals(sent, [payload]);
+  });
+
+  await t.step("sends each chunk of large payloads in order", async () => {
+    const { proxySender, sent } = createSender();
+    const sender = createSplittingProxySender({ proxySender });
+
+    const result = await sender({ payload: createPayload(60) }, {
+      requestMeta,
+    });
+
+    assertSuccessful(result);
+    assertEquals(result.data, [
+      { eventCount: 25, result: { success: true, data: 1 } },
+      { eventCount: 25, result: { success: true, data: 2 } },
+      { eventCount: 10, result: { success: true, data: 3 } },
+    ]);
+    assertEquals(sent.map((p) => p.events[0].name), ["e0", "e25", "e50"]);
+    assertEquals(new Set(sent.map((p) => p.client_id)), new Set(["c1"]));
+  });
+
+  await t.step("stops sending chunks at the first error", async () => {
+    const { proxySender, sent } = createSender();
+    const sender = createSplittingProxySender({ proxySender, maxEvents: 2 });
+    const payload = createPayload(5);
+    payload.events[2].name = "fail";
+
+    const result = await sender({ payload }, { requestMeta });
+
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "proxy-response-status");
+    assertEquals(
+      result.error.results.map(({ result }) => result.success),
+      [true, false],
+    );
+    assertEquals(sent.length, 2);
+  });
+
+  await t.step("stops sending chunks when aborted", async () => {
+    const { proxySender: send, sent } = createSender();
+    const abort = new AbortController();
+    const sender = createSplittingProxySender({
+      proxySender: async (payload, options) => {
+        const result = await send(payload, options);
+        abort.abort();
+        return result;
+      },
+      maxEvents: 2,
+    });
+
+    const result = await sender({ payload: createPayload(5) }, {
+      requestMeta,
+      signal: abort.signal,
+    });
+
+    assertUnsuccessful(result);
+    assertEquals(result.error.name, "aborted");
+    assertEquals(
+      result.error.results.map(({ result }) => result.success),
+      [true, false],
+    );
+    assertEquals(sent.length, 1);
+  });
+
+  await t.step("rejects invalid maxEvents", () => {
+    const { proxySender } = createSender();
+    assertThrows(() =>
+      createSplittingProxySender({ proxySender, maxEvents: 0 })
+    );
+  });
+});
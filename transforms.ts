@@ -0,0 +1,308 @@
+import { z } from "./deps.ts";
+import { RequestMeta } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import {
+  GA4MPPayload,
+  PayloadDroppedError,
+  PayloadParseError,
+  PayloadParser,
+  UnknownPayload,
+} from "./types.ts";
+
+type AnyEvent = AnyPayload["events"][number];
+
+/** A value that can be read or written by a transform.
+ *
+ * - `name`: The event's name.
+ * - `params.<name>`: One of the event's params.
+ * - `user_properties.<name>`: One of the payload's user properties.
+ */
+export const TransformField = z.string().regex(
+  /^(?:name|(?:params|user_properties)\.[a-z][a-z0-9_]*)$/i,
+  { message: 'Must be "name", "params.<name>" or "user_properties.<name>"' },
+);
+export type TransformField = z.infer<typeof TransformField>;
+
+/** A field that can be removed, which is any field except `name`. */
+const RemovableField = TransformField.refine((field) => field !== "name", {
+  message: "The event name can't be removed",
+});
+
+const TransformValue = z.union([z.string(), z.number()]);
+
+/** Conditions on the value of an event param. All of them must be met. */
+export const ParamPredicate = z.object({
+  exists: z.boolean().optional(),
+  equals: z.union([TransformValue, z.array(TransformValue)]).optional(),
+  /** A regular expression that string values must contain a match of. */
+  matches: z.string().refine((pattern) => {
+    try {
+      new RegExp(pattern, "u");
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: "Must be a valid regular expression" }).optional(),
+}).strict();
+export type ParamPredicate = z.infer<typeof ParamPredicate>;
+
+/** The events a transform applies to. Events must meet all conditions. */
+export const TransformMatch = z.object({
+  /** Event names. */
+  event: z.union([z.string(), z.array(z.string())]).optional(),
+  params: z.record(z.string(), ParamPredicate).optional(),
+}).strict();
+export type TransformMatch = z.infer<typeof TransformMatch>;
+
+/** A change made to a matched event.
+ *
+ * - `set`: Set a field to a value. Fields that have a value are only changed
+ *   if `overwrite` is not false.
+ * - `rename`: Move a field's value to another field.
+ * - `copy`: Copy a field's value to another field.
+ * - `delete`: Remove a field.
+ * - `drop-event`: Remove the event from the payload.
+ *
+ * Only string and number values are moved or copied, so `items` can't be.
+ */
+export const TransformAction = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("set"),
+    field: TransformField,
+    value: TransformValue,
+    /** Default is true. */
+    overwrite: z.boolean().optional(),
+  }).strict(),
+  z.object({
+    action: z.literal("rename"),
+    from: RemovableField,
+    to: RemovableField,
+  }).strict(),
+  z.object({
+    action: z.literal("copy"),
+    from: TransformField,
+    to: RemovableField,
+  }).strict(),
+  z.object({ action: z.literal("delete"), field: RemovableField }).strict(),
+  z.object({ action: z.literal("drop-event") }).strict(),
+]).refine(
+  (action) =>
+    !(action.action === "set" && action.field === "name" &&
+      typeof action.value !== "string"),
+  { message: "The event name can only be set to a string", path: ["value"] },
+);
+export type TransformAction = z.infer<typeof TransformAction>;
+
+export const TransformRule = z.object({
+  /** Default is to match all events. */
+  match: TransformMatch.optional(),
+  actions: z.array(TransformAction).nonempty(),
+}).strict();
+export type TransformRule = z.infer<typeof TransformRule>;
+
+function isOneOf(
+  value: unknown,
+  values: z.infer<typeof TransformValue> | z.infer<typeof TransformValue>[],
+): boolean {
+  return Array.isArray(values)
+    ? values.some((v) => v === value)
+    : value === values;
+}
+
+function getField(
+  payload: AnyPayload,
+  event: AnyEvent,
+  field: TransformField,
+): unknown {
+  if (field === "name") return event.name;
+  const [scope, name] = field.split(".");
+  if (scope === "params") {
+    return (event.params as Record<string, unknown> | undefined)?.[name];
+  }
+  return payload.user_properties?.[name]?.value;
+}
+
+function setField(
+  payload: AnyPayload,
+  event: AnyEvent,
+  field: TransformField,
+  value: string | number,
+): void {
+  if (field === "name") {
+    event.name = String(value);
+    return;
+  }
+  const [scope, name] = field.split(".");
+  if (scope === "params") {
+    const params: Record<string, unknown> = event.params ??= {};
+    params[name] = value;
+  } else {
+    (payload.user_properties ??= {})[name] = { value };
+  }
+}
+
+function deleteField(
+  payload: AnyPayload,
+  event: AnyEvent,
+  field: TransformField,
+): void {
+  const [scope, name] = field.split(".");
+  if (scope === "params") delete event.params?.[name];
+  else delete payload.user_properties?.[name];
+}
+
+export type PayloadTransformerOptions = {
+  /** The schema that transformed payloads must still be valid against.
+   *
+   * Default is {@linkcode AnyPayload}.
+   */
+  payloadSchema?: z.ZodTypeAny;
+};
+
+/** Applies a list of transform rules to the events of payloads.
+ *
+ * Each event is matched against the rules in order, and the actions of the
+ * rules it matches are applied to it in order. Later rules match events as
+ * earlier rules left them.
+ */
+export class PayloadTransformer {
+  readonly rules: readonly TransformRule[];
+  readonly payloadSchema: z.ZodTypeAny;
+  private readonly patterns = new Map<string, RegExp>();
+
+  constructor(
+    rules: readonly TransformRule[],
+    { payloadSchema = AnyPayload }: PayloadTransformerOptions = {},
+  ) {
+    this.rules = rules;
+    this.payloadSchema = payloadSchema;
+    for (const { match } of rules) {
+      for (const { matches } of Object.values(match?.params ?? {})) {
+        if (matches !== undefined) {
+          this.patterns.set(matches, new RegExp(matches, "u"));
+        }
+      }
+    }
+  }
+
+  matches(event: AnyEvent, match: TransformMatch = {}): boolean {
+    if (match.event !== undefined && !isOneOf(event.name, match.event)) {
+      return false;
+    }
+    const params: Record<string, unknown> = event.params ?? {};
+    return Object.entries(match.params ?? {}).every(([name, predicate]) => {
+      const value = params[name];
+      if (
+        predicate.exists !== undefined &&
+        predicate.exists !== (value !== undefined)
+      ) return false;
+      if (predicate.equals !== undefined && !isOneOf(value, predicate.equals)) {
+        return false;
+      }
+      if (predicate.matches !== undefined) {
+        const pattern = this.patterns.get(predicate.matches)!;
+        if (!(typeof value === "string" && pattern.test(value))) return false;
+      }
+      return true;
+    });
+  }
+
+  /** Apply the actions of a rule to an event.
+   *
+   * @returns false if the event is dropped, otherwise true.
+   */
+  private apply(
+    payload: AnyPayload,
+    event: AnyEvent,
+    rule: TransformRule,
+  ): boolean {
+    for (const action of rule.actions) {
+      switch (action.action) {
+        case "set":
+          if (
+            action.overwrite === false &&
+            getField(payload, event, action.field) !== undefined
+          ) break;
+          setField(payload, event, action.field, action.value);
+          break;
+        case "rename":
+        case "copy": {
+          const value = getField(payload, event, action.from);
+          if (!(typeof value === "string" || typeof value === "number")) break;
+          if (action.action === "rename") {
+            deleteField(payload, event, action.from);
+          }
+          setField(payload, event, action.to, value);
+          break;
+        }
+        case "delete":
+          deleteField(payload, event, action.field);
+          break;
+        case "drop-event":
+          return false;
+      }
+    }
+    return true;
+  }
+
+  /** Transform the events of a payload.
+   *
+   * The payload is modified in place.
+   */
+  transform(payload: AnyPayload): void {
+    payload.events = payload.events.filter((event) =>
+      this.rules.every((rule) =>
+        !this.matches(event, rule.match) || this.apply(payload, event, rule)
+      )
+    );
+  }
+
+  /** Wrap a PayloadParser to transform the payloads it parses.
+   *
+   * Transforms can set names and values that are not valid, such as reserved
+   * or overly long names, so transformed payloads are validated again with
+   * `payloadSchema`. Payloads that are no longer valid fail with an
+   * `invalid-ga4mp-payload` error. Payloads whose events are all dropped fail
+   * with a `payload-dropped` error.
+   */
+  createPayloadParser<
+    RawPayloadT extends UnknownPayload,
+    PayloadT extends GA4MPPayload<AnyPayload>,
+    PayloadParseErrorT,
+    RequestMetaT extends RequestMeta,
+  >(
+    next: PayloadParser<
+      RawPayloadT,
+      PayloadT,
+      PayloadParseErrorT,
+      RequestMetaT
+    >,
+  ): PayloadParser<
+    RawPayloadT,
+    PayloadT,
+    PayloadParseErrorT | PayloadParseError | PayloadDroppedError,
+    RequestMetaT
+  > {
+    return async (payload, options) => {
+      const result = await next(payload, options);
+      if (!result.success) return result;
+
+      const hadEvents = result.data.payload.events.length > 0;
+      this.transform(result.data.payload);
+      if (hadEvents && result.data.payload.events.length === 0) {
+        return {
+          success: false,
+          error: { name: "payload-dropped", signal: "transforms" },
+        };
+      }
+      const validation = this.payloadSchema.safeParse(result.data.payload);
+      if (!validation.success) {
+        return {
+          success: false,
+          error: { name: "invalid-ga4mp-payload", zodError: validation.error },
+        };
+      }
+      return result;
+    };
+  }
+}
@@ -0,0 +1,313 @@
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { SchemaAssertions } from "./_testing/schemas.ts";
+import { defaultPayloadParser } from "./default.ts";
+import { assert, assertEquals } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import {
+  AnyPayload,
+  createEventSchema,
+  createPayloadSchema,
+} from "./payload_schemas.ts";
+import {
+  PayloadTransformer,
+  TransformAction,
+  TransformRule,
+} from "./transforms.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "site",
+  api_secret: "token",
+  endpoint: "https://backend.example.com/mp/collect",
+  in_measurement_id: "site",
+};
+
+function transform(
+  rules: TransformRule[],
+  payload: Omit<AnyPayload, "client_id">,
+): AnyPayload {
+  const copy = structuredClone({ client_id: "c1", ...payload });
+  new PayloadTransformer(rules).transform(copy);
+  return copy;
+}
+
+Deno.test("TransformAction", () => {
+  const sa = new SchemaAssertions(TransformAction);
+
+  sa.assertParsesAll({
+    inputs: [
+      { action: "set", field: "name", value: "view" },
+      { action: "set", field: "params.a", value: 1, overwrite: false },
+      { action: "rename", from: "params.a", to: "user_properties.b" },
+      { action: "copy", from: "name", to: "params.event" },
+      { action: "delete", field: "user_properties.a" },
+      { action: "drop-event" },
+    ],
+  });
+  sa.assertRejectsAll({
+    rawInputs: [
+      { action: "set", field: "name", value: 1 },
+      { action: "set", field: "params", value: 1 },
+      { action: "set", field: "items.a", value: 1 },
+      { action: "rename", from: "name", to: "params.a" },
+      { action: "copy", from: "params.a", to: "name" },
+      { action: "delete", field: "name" },
+      { action: "drop-event", field: "params.a" },
+      { action: "unknown" },
+    ],
+  });
+});
+
+Deno.test("PayloadTransformer", async (t) => {
+  await t.step("transform()", async (t) => {
+    await t.step("renames events", () => {
+      const payload = transform([{
+        match: { event: ["login", "sign_in"] },
+        actions: [{ action: "set", field: "name", value: "auth" }],
+      }], { events: [{ name: "login" }, { name: "sign_in" }, { name: "a" }] });
+
+      assertEquals(payload.events, [
+        { name: "auth" },
+        { name: "auth" },
+        { name: "a" },
+      ]);
+    });
+
+    await t.step("sets params without overwriting them", () => {
+      const payload = transform([{
+        actions: [{
+          action: "set",
+          field: "params.engagement_time_msec",
+          value: 100,
+          overwrite: false,
+        }],
+      }], {
+        events: [
+          { name: "a" },
+          { name: "b", params: { engagement_time_msec: 5 } },
+        ],
+      });
+
+      assertEquals(payload.events, [
+        { name: "a", params: { engagement_time_msec: 100 } },
+        { name: "b", params: { engagement_time_msec: 5 } },
+      ]);
+    });
+
+    await t.step("moves params to user_properties", () => {
+      const payload = transform([{
+        match: { params: { plan: { exists: true } } },
+        actions: [
+          { action: "rename", from: "params.plan", to: "user_properties.plan" },
+        ],
+      }], {
+        user_properties: { tier: { value: 1 } },
+        events: [{ name: "a", params: { plan: "pro", x: 1 } }, { name: "b" }],
+      });
+
+      assertEquals(payload, {
+        client_id: "c1",
+        user_properties: { tier: { value: 1 }, plan: { value: "pro" } },
+        events: [{ name: "a", params: { x: 1 } }, { name: "b" }],
+      });
+    });
+
+    await t.step("copies fields", () => {
+      const payload = transform([{
+        actions: [
+          { action: "copy", from: "name", to: "params.original_name" },
+          { action: "copy", from: "user_properties.tier", to: "params.tier" },
+          { action: "copy", from: "params.missing", to: "params.copy" },
+        ],
+      }], {
+        user_properties: { tier: { value: 1 } },
+        events: [{ name: "a" }],
+      });
+
+      assertEquals(payload.events, [
+        { name: "a", params: { original_name: "a", tier: 1 } },
+      ]);
+    });
+
+    await t.step("does not move or copy items", () => {
+      const items = [{ item_id: "a" }];
+      const payload = transform([{
+        actions: [{ action: "rename", from: "params.items", to: "params.b" }],
+      }], { events: [{ name: "a", params: { items } }] });
+
+      assertEquals(payload.events, [{ name: "a", params: { items } }]);
+    });
+
+    await t.step("deletes params and user properties", () => {
+      const payload = transform([{
+        actions: [
+          { action: "delete", field: "params.debug" },
+          { action: "delete", field: "user_properties.debug" },
+        ],
+      }], {
+        user_properties: { debug: { value: 1 } },
+        events: [{ name: "a", params: { debug: 1, x: 2 } }],
+      });
+
+      assertEquals(payload.user_properties, {});
+      assertEquals(payload.events, [{ name: "a", params: { x: 2 } }]);
+    });
+
+    await t.step("drops events", () => {
+      const payload = transform([
+        {
+          match: { params: { page_location: { matches: "^https://dev\\." } } },
+          actions: [{ action: "drop-event" }],
+        },
+        {
+          actions: [{ action: "set", field: "params.kept", value: 1 }],
+        },
+      ], {
+        events: [
+          { name: "a", params: { page_location: "https://dev.example.com/" } },
+          { name: "b", params: { page_location: "https://example.com/" } },
+          { name: "c", params: { page_location: 1 } },
+        ],
+      });
+
+      assertEquals(payload.events.map(({ name }) => name), ["b", "c"]);
+      assertEquals(payload.events[0].params?.kept, 1);
+    });
+
+    await t.step("matches params with predicates", () => {
+      const rules: TransformRule[] = [{
+        match: {
+          event: "a",
+          params: {
+            method: { equals: ["email", "phone"] },
+            count: { equals: 1 },
+            debug: { exists: false },
+          },
+        },
+        actions: [{ action: "drop-event" }],
+      }];
+
+      assertEquals(
+        transform(rules, {
+          events: [
+            { name: "a", params: { method: "email", count: 1 } },
+            { name: "a", params: { method: "phone", count: 1 } },
+            { name: "a", params: { method: "google", count: 1 } },
+            { name: "a", params: { method: "email", count: 2 } },
+            { name: "a", params: { method: "email", count: 1, debug: 1 } },
+            { name: "b", params: { method: "email", count: 1 } },
+          ],
+        }).events.map(({ params }) => params),
+        [
+          { method: "google", count: 1 },
+          { method: "email", count: 2 },
+          { method: "email", count: 1, debug: 1 },
+          { method: "email", count: 1 },
+        ],
+      );
+    });
+
+    await t.step("matches events as earlier rules left them", () => {
+      const payload = transform([
+        {
+          match: { event: "login" },
+          actions: [{ action: "set", field: "name", value: "sign_in" }],
+        },
+        {
+          match: { event: "sign_in" },
+          actions: [{ action: "set", field: "params.renamed", value: 1 }],
+        },
+      ], { events: [{ name: "login" }] });
+
+      assertEquals(payload.events, [{
+        name: "sign_in",
+        params: { renamed: 1 },
+      }]);
+    });
+  });
+
+  await t.step("createPayloadParser()", async (t) => {
+    await t.step("transforms payloads", async () => {
+      const parser = new PayloadTransformer([{
+        match: { event: "noise" },
+        actions: [{ action: "drop-event" }],
+      }]).createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({
+        payload: {
+          client_id: "client",
+          events: [{ name: "noise" }, { name: "page_view" }],
+        },
+      }, { requestMeta });
+
+      assertSuccessful(result);
+      assertEquals(result.data.payload.events, [{ name: "page_view" }]);
+    });
+
+    await t.step("rejects payloads that transforms make invalid", async () => {
+      const parser = new PayloadTransformer([{
+        actions: [
+          { action: "set", field: "name", value: "ad_click" },
+          { action: "set", field: "params.a", value: "x".repeat(101) },
+          { action: "copy", from: "params.a", to: "user_properties.b" },
+          { action: "set", field: "user_properties.first_open_time", value: 1 },
+        ],
+      }]).createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({
+        payload: { client_id: "client", events: [{ name: "page_view" }] },
+      }, { requestMeta });
+
+      assertUnsuccessful(result);
+      assert(result.error.name === "invalid-ga4mp-payload");
+      assertEquals(result.error.zodError.issues.map(({ path }) => path), [
+        ["user_properties", "b", "value"],
+        ["user_properties", "first_open_time"],
+        ["events", 0, "name"],
+        ["events", 0, "params", "a"],
+      ]);
+    });
+
+    await t.step("drops payloads whose events are all dropped", async () => {
+      const parser = new PayloadTransformer([{
+        actions: [{ action: "drop-event" }],
+      }]).createPayloadParser(defaultPayloadParser);
+
+      const result = await parser({
+        payload: { client_id: "client", events: [{ name: "page_view" }] },
+      }, { requestMeta });
+
+      assertUnsuccessful(result);
+      assertEquals(result.error, {
+        name: "payload-dropped",
+        signal: "transforms",
+      });
+    });
+
+    await t.step(
+      "validates transformed payloads with payloadSchema",
+      async () => {
+        const parser = new PayloadTransformer([{
+          actions: [{ action: "set", field: "params.a", value: "long value" }],
+        }], {
+          payloadSchema: createPayloadSchema({
+            eventSchema: createEventSchema({ maxParamValueLength: 4 }),
+          }),
+        }).createPayloadParser(defaultPayloadParser);
+
+        const result = await parser({
+          payload: { client_id: "client", events: [{ name: "page_view" }] },
+        }, { requestMeta });
+
+        assertUnsuccessful(result);
+        assert(result.error.name === "invalid-ga4mp-payload");
+        assertEquals(result.error.zodError.issues.map(({ path }) => path), [
+          ["events", 0, "params", "a"],
+        ]);
+      },
+    );
+  });
+});
@@ -12,19 +12,26 @@ export type RequestMatchError =
 export const MatchedErrorNames = z.enum([
   "aborted",
   "body-not-valid-json",
+  "body-too-large",
   "incorrect-content-type",
   "incorrect-request-method",
   "invalid-ga4mp-payload",
+  "payload-dropped",
+  "payload-from-bot",
+  "payload-rejected",
   "proxy-io-error",
   "proxy-response-status",
   "request-io-error",
   "timeout",
+  "unsupported-content-encoding",
 ]);
 
 export type RequestReadError =
   | Error<"incorrect-request-method">
   | Error<"incorrect-content-type">
+  | Error<"unsupported-content-encoding", { encoding: string }>
   | Error<"body-not-valid-json">
+  | Error<"body-too-large">
   | Error<"request-io-error">;
 
 export type PayloadParseError = Error<
@@ -32,6 +39,25 @@ export type PayloadParseError = Error<
   { zodError: z.ZodError }
 >;
 
+/** A payload was not forwarded because of a consent policy, or because all of
+ * its events were removed.
+ *
+ * Dropped payloads are responded to as if they were forwarded. */
+export type PayloadDroppedError = Error<"payload-dropped", { signal: string }>;
+
+/** A payload was not forwarded because of a consent policy.
+ *
+ * Dropped payloads are responded to as if they were forwarded, rejected
+ * payloads with an error. */
+export type PayloadConsentError =
+  | PayloadDroppedError
+  | Error<"payload-rejected", { signal: string }>;
+
+/** A payload was not forwarded because its request looks like it's from a bot.
+ *
+ * These payloads are responded to as if they were forwarded. */
+export type PayloadBotError = Error<"payload-from-bot", { signal: string }>;
+
 export type ProxySendErrorAborted = Error<"aborted", { message?: string }>;
 export type ProxySendErrorTimeout = Error<"timeout", { message?: string }>;
 export type ProxySendErrorIO = Error<"proxy-io-error", { message?: string }>;
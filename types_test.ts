@@ -1,13 +1,20 @@
 import {
   MatchedErrorNames,
+  PayloadBotError,
+  PayloadConsentError,
   PayloadParseError,
   ProxySendError,
   RequestReadError,
 } from "./types.ts";
 
 Deno.test("DefaultErrorNames", () => {
-  type ExpectedErrorName =
-    (RequestReadError | PayloadParseError | ProxySendError)["name"];
+  type ExpectedErrorName = (
+    | RequestReadError
+    | PayloadParseError
+    | PayloadConsentError
+    | PayloadBotError
+    | ProxySendError
+  )["name"];
 
   type ActualErrorName = (typeof MatchedErrorNames._def.values)[number];
   // these won't type check if the enum is out of sync with ExpectedErrorName
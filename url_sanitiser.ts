@@ -0,0 +1,144 @@
+import { z } from "./deps.ts";
+import { RequestMeta } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import { GA4MPPayload, PayloadParser, UnknownPayload } from "./types.ts";
+
+/** The event params that hold URLs of pages and links. */
+export const DEFAULT_URL_PARAMS: readonly string[] = [
+  "page_location",
+  "page_referrer",
+  "link_url",
+];
+
+/** What to do with the query parameters of URLs.
+ *
+ * - `strip`: Remove all query parameters.
+ * - `keep`: Leave query parameters unchanged.
+ *
+ * A list of names removes all query parameters except the named ones.
+ */
+export const QueryParamsPolicy = z.enum(["strip", "keep"]);
+export type QueryParamsPolicy = z.infer<typeof QueryParamsPolicy>;
+
+export const COLLAPSED_ID_SEGMENT = ":id";
+
+/** The base that relative URLs are parsed against. */
+const RELATIVE_URL_BASE = "https://relative.invalid";
+
+export type UrlSanitiserOptions = {
+  /** The names of event params holding URLs. Default is
+   * {@linkcode DEFAULT_URL_PARAMS}. */
+  params?: readonly string[];
+  /** Default is `strip`. */
+  queryParams?: QueryParamsPolicy | readonly string[];
+  /** Keep the `#fragment` of URLs. Default is false. */
+  keepFragment?: boolean;
+  /** Replace numeric path segments with `:id`, e.g. `/users/123` becomes
+   * `/users/:id`. Default is false. */
+  collapseIds?: boolean;
+};
+
+/** Removes identifying parts of the URLs in event params.
+ *
+ * URLs often contain password reset tokens, email addresses or session IDs in
+ * their query strings and fragments. Relative URLs are sanitised in the same
+ * way, and stay relative. Values that are not URLs are left unchanged.
+ */
+export class UrlSanitiser {
+  readonly params: ReadonlySet<string>;
+  readonly queryParams: QueryParamsPolicy | ReadonlySet<string>;
+  readonly keepFragment: boolean;
+  readonly collapseIds: boolean;
+
+  constructor(
+    {
+      params = DEFAULT_URL_PARAMS,
+      queryParams = QueryParamsPolicy.Enum.strip,
+      keepFragment = false,
+      collapseIds = false,
+    }: UrlSanitiserOptions = {},
+  ) {
+    this.params = new Set(params);
+    this.queryParams = typeof queryParams === "string"
+      ? queryParams
+      : new Set(queryParams);
+    this.keepFragment = keepFragment;
+    this.collapseIds = collapseIds;
+  }
+
+  /** Sanitise an absolute or relative URL.
+   *
+   * @returns The sanitised URL, or `value` if it's not a URL.
+   */
+  sanitiseUrl(value: string): string {
+    const isRelative = !URL.canParse(value);
+    if (isRelative && !URL.canParse(value, RELATIVE_URL_BASE)) return value;
+    const url = new URL(value, RELATIVE_URL_BASE);
+
+    const { queryParams } = this;
+    if (queryParams === QueryParamsPolicy.Enum.strip) url.search = "";
+    else if (queryParams !== QueryParamsPolicy.Enum.keep) {
+      for (const name of [...url.searchParams.keys()]) {
+        if (!queryParams.has(name)) url.searchParams.delete(name);
+      }
+      // Avoid leaving a bare "?" when no parameters remain
+      if (url.searchParams.size === 0) url.search = "";
+    }
+    if (!this.keepFragment) url.hash = "";
+    if (!isRelative) {
+      if (this.collapseIds) url.pathname = collapseIds(url.pathname);
+      return url.toString();
+    }
+
+    // Keep the path of relative URLs as it was, rather than resolved against
+    // the base.
+    const path = /^[^?#]*/.exec(value)![0];
+    return `${
+      this.collapseIds ? collapseIds(path) : path
+    }${url.search}${url.hash}`;
+  }
+
+  /** Sanitise the URL params of a payload's events.
+   *
+   * The payload is modified in place.
+   */
+  sanitise(payload: AnyPayload): void {
+    for (const event of payload.events) {
+      const params: Record<string, unknown> = event.params ?? {};
+      for (const name of this.params) {
+        const value = params[name];
+        if (typeof value === "string") params[name] = this.sanitiseUrl(value);
+      }
+    }
+  }
+
+  /** Wrap a PayloadParser to sanitise the URLs of the payloads it parses. */
+  createPayloadParser<
+    RawPayloadT extends UnknownPayload,
+    PayloadT extends GA4MPPayload<AnyPayload>,
+    PayloadParseErrorT,
+    RequestMetaT extends RequestMeta,
+  >(
+    next: PayloadParser<
+      RawPayloadT,
+      PayloadT,
+      PayloadParseErrorT,
+      RequestMetaT
+    >,
+  ): PayloadParser<RawPayloadT, PayloadT, PayloadParseErrorT, RequestMetaT> {
+    return async (payload, options) => {
+      const result = await next(payload, options);
+      if (!result.success) return result;
+
+      this.sanitise(result.data.payload);
+      return result;
+    };
+  }
+}
+
+/** Replace the numeric segments of a URL path with `:id`. */
+function collapseIds(path: string): string {
+  return path.split("/").map((segment) =>
+    /^\d+$/.test(segment) ? COLLAPSED_ID_SEGMENT : segment
+  ).join("/");
+}
@@ -0,0 +1,175 @@
+import { assertSuccessful } from "./_testing.ts";
+import { defaultPayloadParser } from "./default.ts";
+import { assertEquals } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import { AnyPayload } from "./payload_schemas.ts";
+import { UrlSanitiser } from "./url_sanitiser.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "site",
+  api_secret: "token",
+  endpoint: "https://backend.example.com/mp/collect",
+  in_measurement_id: "site",
+};
+
+const url =
+  "https://example.com/users/123/reset?token=abc&utm_source=news&lang=en#session=xyz";
+
+Deno.test("UrlSanitiser", async (t) => {
+  await t.step("sanitiseUrl()", async (t) => {
+    await t.step("strips query and fragment by default", () => {
+      assertEquals(
+        new UrlSanitiser().sanitiseUrl(url),
+        "https://example.com/users/123/reset",
+      );
+    });
+
+    await t.step("keeps query parameters", () => {
+      const sanitiser = new UrlSanitiser({ queryParams: "keep" });
+      assertEquals(
+        sanitiser.sanitiseUrl(url),
+        "https://example.com/users/123/reset?token=abc&utm_source=news&lang=en",
+      );
+    });
+
+    await t.step("keeps allowed query parameters", () => {
+      const sanitiser = new UrlSanitiser({
+        queryParams: ["utm_source", "lang"],
+      });
+      assertEquals(
+        sanitiser.sanitiseUrl(url),
+        "https://example.com/users/123/reset?utm_source=news&lang=en",
+      );
+      assertEquals(
+        sanitiser.sanitiseUrl("https://example.com/?token=abc"),
+        "https://example.com/",
+      );
+    });
+
+    await t.step("keeps fragments", () => {
+      const sanitiser = new UrlSanitiser({ keepFragment: true });
+      assertEquals(
+        sanitiser.sanitiseUrl(url),
+        "https://example.com/users/123/reset#session=xyz",
+      );
+    });
+
+    await t.step("collapses numeric path segments", () => {
+      const sanitiser = new UrlSanitiser({ collapseIds: true });
+      assertEquals(
+        sanitiser.sanitiseUrl("https://example.com/users/123/posts/45/v2"),
+        "https://example.com/users/:id/posts/:id/v2",
+      );
+    });
+
+    await t.step("sanitises relative URLs", () => {
+      const sanitiser = new UrlSanitiser();
+      assertEquals(sanitiser.sanitiseUrl("/reset?token=abc#top"), "/reset");
+      assertEquals(sanitiser.sanitiseUrl("?session=abc"), "");
+      assertEquals(sanitiser.sanitiseUrl("#session=abc"), "");
+      assertEquals(sanitiser.sanitiseUrl("page.html?q=1"), "page.html");
+      assertEquals(
+        sanitiser.sanitiseUrl("//example.com/?token=abc"),
+        "//example.com/",
+      );
+    });
+
+    await t.step("sanitises relative URLs with all options", () => {
+      const sanitiser = new UrlSanitiser({
+        queryParams: ["lang"],
+        keepFragment: true,
+        collapseIds: true,
+      });
+      assertEquals(
+        sanitiser.sanitiseUrl("users/123/reset?token=abc&lang=en#top"),
+        "users/:id/reset?lang=en#top",
+      );
+    });
+
+    await t.step("leaves values that are not URLs unchanged", () => {
+      const sanitiser = new UrlSanitiser();
+      assertEquals(
+        sanitiser.sanitiseUrl("http://[invalid?q=1"),
+        "http://[invalid?q=1",
+      );
+    });
+  });
+
+  await t.step("sanitise()", async (t) => {
+    await t.step("sanitises URL params", () => {
+      const payload: AnyPayload = {
+        client_id: "client",
+        events: [
+          {
+            name: "page_view",
+            params: {
+              page_location: "https://example.com/?q=1",
+              page_referrer: "https://other.example.com/#top",
+              page_title: "https://example.com/?q=2",
+            },
+          },
+          {
+            name: "click",
+            params: { link_url: "https://example.com/out?id=1", value: 1 },
+          },
+          { name: "login" },
+        ],
+      };
+
+      new UrlSanitiser().sanitise(payload);
+
+      assertEquals(payload.events.map((e) => e.params), [
+        {
+          page_location: "https://example.com/",
+          page_referrer: "https://other.example.com/",
+          page_title: "https://example.com/?q=2",
+        },
+        { link_url: "https://example.com/out", value: 1 },
+        undefined,
+      ]);
+    });
+
+    await t.step("sanitises configured params", () => {
+      const payload: AnyPayload = {
+        client_id: "client",
+        events: [{
+          name: "share",
+          params: {
+            page_location: "https://example.com/?q=1",
+            shared_url: "https://example.com/?q=2",
+          },
+        }],
+      };
+
+      new UrlSanitiser({ params: ["shared_url"] }).sanitise(payload);
+
+      assertEquals(payload.events[0].params, {
+        page_location: "https://example.com/?q=1",
+        shared_url: "https://example.com/",
+      });
+    });
+  });
+
+  await t.step("createPayloadParser()", async () => {
+    const parser = new UrlSanitiser().createPayloadParser(
+      defaultPayloadParser,
+    );
+
+    const result = await parser({
+      payload: {
+        client_id: "client",
+        events: [{ name: "page_view", params: { page_location: url } }],
+      },
+    }, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(
+      result.data.payload.events[0].params?.page_location,
+      "https://example.com/users/123/reset",
+    );
+  });
+});
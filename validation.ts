@@ -0,0 +1,225 @@
+import { SuccessResult } from "./_misc.ts";
+import { StatusCodes, z } from "./deps.ts";
+import { DebugRequestMeta, RequestMeta } from "./meta.ts";
+import {
+  GA4MPPayload,
+  PayloadParseError,
+  PayloadParser,
+  ResponseWriter,
+  UnknownPayload,
+} from "./types.ts";
+
+/** How payloads that are not valid are handled.
+ *
+ * - `strict`: Reject the whole payload.
+ * - `drop-invalid`: Remove the invalid events, event params and user
+ *   properties, and accept what remains.
+ */
+export const ValidationMode = z.enum(["strict", "drop-invalid"]);
+export type ValidationMode = z.infer<typeof ValidationMode>;
+
+/** An invalid part of a payload that was removed from it. */
+export type DroppedItem = {
+  /** The zod issue path of the item in the payload as it was received, like
+   * `["events", 0, "params", "page_title"]`. */
+  path: (string | number)[];
+  /** The zod issue messages of the item. */
+  messages: string[];
+};
+
+/** A payload that may have had invalid parts removed. */
+export type ValidatedPayload<T> = GA4MPPayload<T> & {
+  droppedItems?: DroppedItem[];
+};
+
+type PayloadObject = {
+  events?: unknown;
+  user_properties?: unknown;
+};
+
+/** Create a PayloadParser that removes invalid parts of payloads.
+ *
+ * The parts of a payload that have validation issues are removed, and the
+ * payload is validated again, until it's valid. The smallest part containing
+ * each issue is removed: an event param, a user property or an event. Payloads
+ * with issues elsewhere, like a missing `client_id`, are rejected with
+ * `invalid-ga4mp-payload`, as they are in `strict` mode.
+ *
+ * The removed parts are recorded in the payload's `droppedItems`, and logged.
+ */
+export function createDropInvalidPayloadParser<
+  PayloadSchemaT extends z.ZodTypeAny,
+>(payloadSchema: PayloadSchemaT): PayloadParser<
+  UnknownPayload,
+  ValidatedPayload<z.infer<PayloadSchemaT>>,
+  PayloadParseError,
+  RequestMeta
+> {
+  return ({ payload }, _requestMeta) => {
+    let result = payloadSchema.safeParse(payload);
+    if (result.success) {
+      return { success: true, data: { payload: result.data } };
+    }
+
+    // Invalid parts are removed from a copy, so the original is left as it was
+    // received. eventIndexes maps the copy's events to the original's.
+    const copy: unknown = structuredClone(payload);
+    const eventIndexes = Array.isArray((copy as PayloadObject)?.events)
+      ? ((copy as PayloadObject).events as unknown[]).map((_, i) => i)
+      : [];
+    const droppedItems: DroppedItem[] = [];
+    while (!result.success) {
+      const dropped = dropInvalidItems(
+        copy as PayloadObject,
+        result.error.issues,
+        eventIndexes,
+      );
+      if (dropped.length === 0) {
+        return {
+          success: false,
+          error: { name: "invalid-ga4mp-payload", zodError: result.error },
+        };
+      }
+      droppedItems.push(...dropped);
+      result = payloadSchema.safeParse(copy);
+    }
+
+    console.warn(
+      `Dropped invalid items from payload: ${
+        droppedItems.map(formatDroppedItem).join("; ")
+      }`,
+    );
+    return {
+      success: true,
+      data: { payload: result.data, droppedItems },
+    } satisfies SuccessResult<ValidatedPayload<z.infer<PayloadSchemaT>>>;
+  };
+}
+
+function formatDroppedItem({ path, messages }: DroppedItem): string {
+  return `${path.join(".")}: ${messages.join(", ")}`;
+}
+
+/** Get the path of the item to remove to resolve an issue.
+ *
+ * @returns The path, or undefined if the issue is not in a removable item.
+ */
+function getDroppablePath(
+  path: (string | number)[],
+): (string | number)[] | undefined {
+  const [property, key, child, childKey] = path;
+  if (property === "events" && typeof key === "number") {
+    if (child === "params" && typeof childKey === "string") {
+      return path.slice(0, 4);
+    }
+    return path.slice(0, 2);
+  }
+  if (property === "user_properties" && typeof key === "string") {
+    return path.slice(0, 2);
+  }
+  return undefined;
+}
+
+function hasEventParam(
+  payload: PayloadObject,
+  [, event, , param]: (string | number)[],
+): boolean {
+  const events = payload.events as Record<string, unknown>[];
+  const params = events[event as number]?.params;
+  return typeof params === "object" && params !== null &&
+    Object.hasOwn(params, param);
+}
+
+/** Remove the items with issues from a payload, in place.
+ *
+ * Removed events are also removed from `eventIndexes`.
+ *
+ * @returns The removed items, with paths in the original payload.
+ */
+function dropInvalidItems(
+  payload: PayloadObject,
+  issues: readonly z.ZodIssue[],
+  eventIndexes: number[],
+): DroppedItem[] {
+  const items = new Map<string, DroppedItem>();
+  for (const issue of issues) {
+    let path = getDroppablePath(issue.path);
+    if (!path) return [];
+    // Params that are required but missing can't be removed, so the event
+    // that needs them is removed instead.
+    if (path.length === 4 && !hasEventParam(payload, path)) {
+      path = path.slice(0, 2);
+    }
+    const key = JSON.stringify(path);
+    const item = items.get(key) ?? { path, messages: [] };
+    item.messages.push(issue.message);
+    items.set(key, item);
+  }
+
+  const events = payload.events as Record<string, unknown>[];
+  const droppedEvents = new Set<number>();
+  const dropped: DroppedItem[] = [];
+  for (const item of items.values()) {
+    const [property, key, , childKey] = item.path;
+    if (property === "user_properties") {
+      delete (payload.user_properties as Record<string, unknown>)[key];
+    } else if (item.path.length === 4) {
+      // An event's param, which is not needed if the event is removed.
+      if (items.has(JSON.stringify(item.path.slice(0, 2)))) continue;
+      const params = events[key as number].params as Record<string, unknown>;
+      delete params[childKey];
+    } else {
+      droppedEvents.add(key as number);
+    }
+    dropped.push(item);
+  }
+
+  // Report paths in the original payload, before removing events shifts the
+  // indexes of the events after them.
+  const reported = dropped.map((item) => {
+    if (item.path[0] !== "events") return item;
+    const [, i, ...rest] = item.path;
+    return { ...item, path: ["events", eventIndexes[i as number], ...rest] };
+  });
+  for (const i of [...droppedEvents].sort((a, b) => b - a)) {
+    events.splice(i, 1);
+    eventIndexes.splice(i, 1);
+  }
+  return reported;
+}
+
+/** Wrap a ResponseWriter to report the items dropped from debug requests.
+ *
+ * Successful debug requests whose payload had invalid items removed are
+ * responded to with a JSON object listing them as `dropped_items`. If `next`
+ * responds with a JSON object, like the report of PII found in the payload,
+ * the list is added to it.
+ */
+export function createDroppedItemsReportingResponseWriter<
+  PayloadT extends ValidatedPayload<unknown>,
+  ProxyResultT,
+  ErrorT,
+  RequestMetaT extends RequestMeta & Partial<DebugRequestMeta>,
+>(
+  next: ResponseWriter<PayloadT, ProxyResultT, ErrorT, RequestMetaT>,
+): ResponseWriter<PayloadT, ProxyResultT, ErrorT, RequestMetaT> {
+  return async (result, options) => {
+    const droppedItems = result.success
+      ? result.data.payload.droppedItems
+      : undefined;
+    if (!options.requestMeta.debug || !droppedItems?.length) {
+      return await next(result, options);
+    }
+    const response = await next(result, options);
+    const report = response.headers.get("content-type") === "application/json"
+      ? await response.json()
+      : {};
+    return new Response(
+      JSON.stringify({ ...report, dropped_items: droppedItems }),
+      {
+        status: StatusCodes.OK,
+        headers: { "content-type": "application/json" },
+      },
+    );
+  };
+}
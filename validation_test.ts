@@ -0,0 +1,190 @@
+import { assertSuccessful, assertUnsuccessful } from "./_testing.ts";
+import { defaultResponseWriter } from "./default.ts";
+import { StatusCodes } from "./deps.ts";
+import { assertEquals, stub } from "./dev_deps.ts";
+import { ApprovedCollectRequestMeta, RequestName } from "./meta.ts";
+import { AnyPayload, createPayloadSchema } from "./payload_schemas.ts";
+import { RecommendedEvent } from "./recommended_events.ts";
+import {
+  createDropInvalidPayloadParser,
+  createDroppedItemsReportingResponseWriter,
+  DroppedItem,
+  ValidatedPayload,
+} from "./validation.ts";
+
+const requestMeta: ApprovedCollectRequestMeta = {
+  url: new URL("https://example.com/mp/collect"),
+  headers: new Headers(),
+  name: RequestName.collect,
+  debug: false,
+  measurement_id: "site",
+  api_secret: "token",
+  endpoint: "https://backend.example.com/mp/collect",
+  in_measurement_id: "site",
+};
+
+Deno.test("createDropInvalidPayloadParser()", async (t) => {
+  const parser = createDropInvalidPayloadParser(AnyPayload);
+
+  await t.step("accepts valid payloads unchanged", async () => {
+    const payload: AnyPayload = {
+      client_id: "c1",
+      events: [{ name: "sign_up", params: { method: "email" } }],
+    };
+
+    const result = await parser({ payload }, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(result.data, { payload });
+  });
+
+  await t.step("drops invalid events, params and user properties", async () => {
+    using warn = stub(console, "warn");
+    const payload = {
+      client_id: "c1",
+      user_properties: {
+        plan: { value: "pro" },
+        "not valid": { value: "x" },
+      },
+      events: [
+        { name: "session_start" },
+        { name: "page_view", params: { page_title: "x".repeat(101) } },
+        { name: "sign_up", params: { method: "email", tags: ["a"] } },
+      ],
+    };
+
+    const result = await parser({ payload }, { requestMeta });
+
+    assertSuccessful(result);
+    assertEquals(result.data.payload, {
+      client_id: "c1",
+      user_properties: { plan: { value: "pro" } },
+      events: [
+        { name: "page_view", params: {} },
+        { name: "sign_up", params: { method: "email" } },
+      ],
+    });
+    assertEquals(
+      result.data.droppedItems?.map(({ path }) => path),
+      [
+        ["user_properties", "not valid"],
+        ["events", 0],
+        ["events", 1, "params", "page_title"],
+        ["events", 2, "params", "tags"],
+      ],
+    );
+    assertEquals(warn.calls.length, 1);
+    // The received payload is not modified
+    assertEquals(payload.events.length, 3);
+  });
+
+  await t.step(
+    "reports paths of events before earlier ones are dropped",
+    async () => {
+      using _warn = stub(console, "warn");
+      const payload = {
+        client_id: "c1",
+        events: [
+          { name: "session_start" },
+          { name: "ok" },
+          { name: "first_visit", params: { page_title: "x".repeat(101) } },
+        ],
+      };
+
+      const result = await parser({ payload }, { requestMeta });
+
+      assertSuccessful(result);
+      assertEquals(result.data.payload.events, [{ name: "ok" }]);
+      assertEquals(
+        result.data.droppedItems?.map(({ path }) => path),
+        [["events", 0], ["events", 2]],
+      );
+    },
+  );
+
+  await t.step(
+    "drops events that are missing required params",
+    async () => {
+      using _warn = stub(console, "warn");
+      const parser = createDropInvalidPayloadParser(
+        createPayloadSchema({ eventSchema: RecommendedEvent }),
+      );
+      const payload = {
+        client_id: "c1",
+        events: [
+          { name: "search", params: { term: "shirts" } },
+          { name: "login", params: { method: 1 } },
+        ],
+      };
+
+      const result = await parser({ payload }, { requestMeta });
+
+      assertSuccessful(result);
+      assertEquals(result.data.payload.events, [{ name: "login", params: {} }]);
+      assertEquals(
+        result.data.droppedItems?.map(({ path }) => path),
+        [["events", 0], ["events", 1, "params", "method"]],
+      );
+    },
+  );
+
+  await t.step(
+    "rejects payloads with invalid required properties",
+    async () => {
+      const result = await parser({
+        payload: { events: [{ name: "session_start" }] },
+      }, { requestMeta });
+
+      assertUnsuccessful(result);
+      assertEquals(result.error.name, "invalid-ga4mp-payload");
+    },
+  );
+});
+
+Deno.test("createDroppedItemsReportingResponseWriter()", async (t) => {
+  const responseWriter = createDroppedItemsReportingResponseWriter(
+    defaultResponseWriter,
+  );
+  const droppedItems: DroppedItem[] = [{
+    path: ["events", 0],
+    messages: ["session_start is a reserved name"],
+  }];
+  const payload: ValidatedPayload<AnyPayload> = {
+    payload: { client_id: "c1", events: [] },
+    droppedItems,
+  };
+
+  await t.step("reports dropped items to debug requests", async () => {
+    const response = await responseWriter({
+      success: true,
+      data: { payload, proxyResult: null },
+    }, { requestMeta: { ...requestMeta, debug: true } });
+
+    assertEquals(response.status, StatusCodes.OK);
+    assertEquals(await response.json(), { dropped_items: droppedItems });
+  });
+
+  await t.step("adds dropped items to JSON responses", async () => {
+    const responseWriter = createDroppedItemsReportingResponseWriter(() =>
+      Response.json({ pii_findings: [] })
+    );
+    const response = await responseWriter({
+      success: true,
+      data: { payload, proxyResult: null },
+    }, { requestMeta: { ...requestMeta, debug: true } });
+
+    assertEquals(await response.json(), {
+      pii_findings: [],
+      dropped_items: droppedItems,
+    });
+  });
+
+  await t.step("does not report to other requests", async () => {
+    const response = await responseWriter({
+      success: true,
+      data: { payload, proxyResult: null },
+    }, { requestMeta });
+
+    assertEquals(response.status, StatusCodes.NO_CONTENT);
+  });
+});